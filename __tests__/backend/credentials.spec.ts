@@ -0,0 +1,71 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getCredential,
+  hasCredential,
+  setCredential,
+} from '../../backend/credentials';
+import { getProfiles } from '../../backend/profiles';
+
+const mockUserData = fs.mkdtempSync(path.join(os.tmpdir(), 'seeqr-'));
+jest.mock('electron', () => ({ app: { getPath: () => mockUserData } }));
+
+const stored = (fileName: string) =>
+  fs.readFileSync(path.join(mockUserData, fileName), 'utf8');
+
+beforeEach(() => {
+  fs.rmSync(mockUserData, { recursive: true, force: true });
+  fs.mkdirSync(mockUserData);
+});
+
+afterAll(() => fs.rmSync(mockUserData, { recursive: true, force: true }));
+
+describe('credential store', () => {
+  it('should encrypt secrets at rest and decrypt them back', () => {
+    setCredential('p1', 'pa55 wörd');
+    expect(stored('credentials.json')).not.toContain('pa55');
+    expect(getCredential('p1')).toBe('pa55 wörd');
+    expect(getCredential('p2')).toBeUndefined();
+  });
+
+  it('should report secrets that cannot be decrypted', () => {
+    setCredential('p1', 'secret');
+    fs.unlinkSync(path.join(mockUserData, 'credentials.key'));
+    setCredential('p2', 'other');
+    expect(() => getCredential('p1')).toThrow("can't be decrypted");
+    expect(hasCredential('p1')).toBe(true);
+    expect(getCredential('p2')).toBe('other');
+  });
+
+  it('should not replace a key file it cannot read', () => {
+    const keyPath = path.join(mockUserData, 'credentials.key');
+    fs.mkdirSync(keyPath);
+    expect(() => setCredential('p1', 'secret')).toThrow();
+    expect(fs.statSync(keyPath).isDirectory()).toBe(true);
+  });
+});
+
+describe('profiles', () => {
+  it('should move plain text passwords into credential store', () => {
+    const profile = {
+      id: 'p1',
+      name: 'old',
+      host: 'localhost',
+      port: 5432,
+      user: 'me',
+      database: '',
+      sslMode: 'disable',
+    };
+    fs.writeFileSync(
+      path.join(mockUserData, 'profiles.json'),
+      JSON.stringify({
+        profiles: [{ ...profile, password: 'plain' }],
+        selectedId: 'p1',
+      })
+    );
+    expect(getProfiles()).toEqual({ profiles: [profile], selectedId: 'p1' });
+    expect(stored('profiles.json')).not.toContain('plain');
+    expect(getCredential('p1')).toBe('plain');
+  });
+});
@@ -0,0 +1,368 @@
+import generateDummyData, {
+  generateDataByType,
+  mergeColumns,
+} from '../../backend/DummyD/dummyDataMain';
+import { seedRandom } from '../../backend/DummyD/random';
+import type { ColumnObj } from '../../backend/BE_types';
+
+// helperFunctions pulls in credential store, which needs electron's app
+jest.mock('electron', () => ({}));
+
+const makeColumn = (
+  data_type: string,
+  other: Partial<ColumnObj> = {}
+): ColumnObj => ({
+  column_name: 'value',
+  data_type,
+  character_maximum_length: null,
+  numeric_precision: null,
+  numeric_scale: null,
+  is_nullable: 'YES',
+  column_default: null,
+  is_identity: 'NO',
+  identity_generation: null,
+  is_generated: 'NEVER',
+  is_serial: false,
+  element_type: null,
+  enum_labels: null,
+  constraint_name: null,
+  constraint_type: '',
+  foreign_schema: '',
+  foreign_table: '',
+  foreign_column: '',
+  ...other,
+});
+
+// values of column from 50 seeded draws
+const sample = (column: ColumnObj) => {
+  seedRandom(42);
+  return Array.from({ length: 50 }, () => generateDataByType(column));
+};
+
+describe('generateDataByType', () => {
+  it('should cut text to length of char(n) and varchar(n)', () => {
+    ['character', 'character varying'].forEach((dataType) =>
+      sample(
+        makeColumn(dataType, { character_maximum_length: 3 })
+      ).forEach((value) => expect(value.length).toBeLessThanOrEqual(3))
+    );
+  });
+
+  it('should fit precision and scale of numeric', () => {
+    sample(
+      makeColumn('numeric', { numeric_precision: 5, numeric_scale: 2 })
+    ).forEach((value) => expect(value).toMatch(/^-?\d{1,3}\.\d{2}$/));
+    sample(
+      makeColumn('numeric', { numeric_precision: 3, numeric_scale: 3 })
+    ).forEach((value) => expect(value).toMatch(/^-?0\.\d{3}$/));
+    sample(
+      makeColumn('numeric', { numeric_precision: 2, numeric_scale: 0 })
+    ).forEach((value) => expect(value).toMatch(/^-?\d{1,2}$/));
+  });
+
+  it('should draw enum values only from its labels', () => {
+    const labels = ['draft', 'published'];
+    sample(
+      makeColumn('USER-DEFINED', { enum_labels: labels })
+    ).forEach((value) => expect(labels).toContain(value));
+  });
+
+  it('should quote elements of array literals', () => {
+    const values = sample(
+      makeColumn('ARRAY', { enum_labels: ['say "hi"', 'back\\slash'] })
+    );
+    values.forEach((value) =>
+      expect(value).toMatch(/^\{("(say \\"hi\\"|back\\\\slash)"(,|(?=\})))*\}$/)
+    );
+    expect(values.some((value) => value.length > 2)).toBe(true);
+    sample(makeColumn('ARRAY', { element_type: 'text' })).forEach((value) =>
+      expect(value).toMatch(/^\{("[a-z ]*"(,|(?=\})))*\}$/)
+    );
+  });
+
+  it('should fit elements of arrays to their length and precision', () => {
+    sample(
+      makeColumn('ARRAY', {
+        element_type: 'character varying',
+        character_maximum_length: 3,
+      })
+    ).forEach((value) =>
+      expect(value).toMatch(/^\{("[a-z ]{0,3}"(,|(?=\})))*\}$/)
+    );
+    sample(
+      makeColumn('ARRAY', {
+        element_type: 'numeric',
+        numeric_precision: 3,
+        numeric_scale: 1,
+      })
+    ).forEach((value) =>
+      expect(value).toMatch(/^\{("-?\d{1,2}\.\d"(,|(?=\})))*\}$/)
+    );
+  });
+
+  it('should write bytea in hex format', () => {
+    sample(makeColumn('bytea')).forEach((value) =>
+      expect(value).toMatch(/^\\x[0-9a-f]+$/i)
+    );
+  });
+
+  it('should format uuid, inet and interval values', () => {
+    sample(makeColumn('uuid')).forEach((value) =>
+      expect(value).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+      )
+    );
+    sample(makeColumn('inet')).forEach((value) =>
+      expect(value).toMatch(/^(\d{1,3}\.){3}\d{1,3}$/)
+    );
+    sample(makeColumn('interval')).forEach((value) =>
+      expect(value).toMatch(/^\d+ days \d{2}:\d{2}:\d{2}$/)
+    );
+  });
+});
+
+describe('mergeColumns', () => {
+  it('should keep one row per column, preferring its foreign key', () => {
+    const merged = mergeColumns([
+      makeColumn('integer', {
+        column_name: 'id',
+        constraint_type: 'PRIMARY KEY',
+      }),
+      makeColumn('integer', {
+        column_name: 'owner',
+        constraint_type: 'UNIQUE',
+      }),
+      makeColumn('integer', {
+        column_name: 'owner',
+        constraint_type: 'FOREIGN KEY',
+        foreign_table: 'users',
+      }),
+      makeColumn('text', { column_name: 'note' }),
+    ]);
+    expect(merged.map(({ column_name }) => column_name)).toEqual([
+      'id',
+      'owner',
+      'note',
+    ]);
+    expect(merged[1]).toMatchObject({
+      constraint_type: 'FOREIGN KEY',
+      foreign_table: 'users',
+    });
+  });
+});
+
+// answers queries of generateDummyData as if every referenced table had
+// keyCount keys, named after their position
+const fakeQuery = (keyCount: number) =>
+  jest.fn(async (sql: string, values?: unknown[]) =>
+    values
+      ? { rows: (values[0] as number[]).map((n) => ({ value: `key${n}` })) }
+      : { rows: [{ count: String(keyCount) }] }
+  );
+
+describe('generateDummyData', () => {
+  it('should draw foreign keys by position and leave serial keys out', async () => {
+    const query = fakeQuery(3);
+    const { columns, nextRows } = await generateDummyData(
+      [
+        makeColumn('integer', {
+          column_name: 'id',
+          constraint_type: 'PRIMARY KEY',
+          is_serial: true,
+        }),
+        makeColumn('integer', {
+          column_name: 'owner',
+          constraint_type: 'FOREIGN KEY',
+          foreign_schema: 'public',
+          foreign_table: 'users',
+          foreign_column: 'id',
+        }),
+        makeColumn('text', { column_name: 'note' }),
+      ],
+      {},
+      20,
+      42,
+      query
+    );
+    expect(columns.map(({ column_name }) => column_name)).toEqual([
+      'owner',
+      'note',
+    ]);
+    const rows = [...(await nextRows(10)), ...(await nextRows(10))];
+    expect(rows).toHaveLength(20);
+    // referenced table is numbered once, and batches look keys up in it
+    const numbering = query.mock.calls.filter(([sql]) =>
+      sql.includes('row_number()')
+    );
+    expect(numbering).toHaveLength(1);
+    expect(numbering[0][0]).toContain('ON COMMIT DROP');
+    rows.forEach(([owner, note]) => {
+      expect(['key0', 'key1', 'key2']).toContain(owner);
+      expect(typeof note).toBe('string');
+    });
+  });
+
+  it('should generate unique keys unless their default fills them, and skip generated columns', async () => {
+    const identity = await generateDummyData(
+      [
+        makeColumn('integer', {
+          column_name: 'id',
+          constraint_type: 'PRIMARY KEY',
+          is_identity: 'YES',
+        }),
+        makeColumn('text', { column_name: 'note' }),
+      ],
+      {},
+      20,
+      42,
+      fakeQuery(0)
+    );
+    expect(identity.columns.map(({ column_name }) => column_name)).toEqual([
+      'note',
+    ]);
+
+    const generated = await generateDummyData(
+      [
+        makeColumn('text', { column_name: 'note' }),
+        makeColumn('integer', {
+          column_name: 'note_length',
+          is_generated: 'ALWAYS',
+        }),
+      ],
+      {},
+      20,
+      42,
+      fakeQuery(0)
+    );
+    expect(generated.columns.map(({ column_name }) => column_name)).toEqual([
+      'note',
+    ]);
+
+    const { columns, nextRows } = await generateDummyData(
+      [
+        makeColumn('uuid', {
+          column_name: 'id',
+          constraint_type: 'PRIMARY KEY',
+          is_nullable: 'NO',
+        }),
+        makeColumn('text', {
+          column_name: 'code',
+          constraint_type: 'UNIQUE',
+          is_nullable: 'NO',
+        }),
+      ],
+      { code: { unique: false } },
+      1000,
+      42,
+      fakeQuery(0)
+    );
+    expect(columns.map(({ column_name }) => column_name)).toEqual([
+      'id',
+      'code',
+    ]);
+    const rows = [...(await nextRows(500)), ...(await nextRows(500))];
+    expect(new Set(rows.map(([id]) => id)).size).toBe(1000);
+    expect(new Set(rows.map(([, code]) => code)).size).toBe(1000);
+    rows.forEach(([id]) =>
+      expect(id).toMatch(
+        /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+      )
+    );
+  });
+
+  // rows of a foreign key column that is also part of key constraintName
+  const keyedForeignKey = (column_name: string, constraintName: string) => [
+    makeColumn('integer', {
+      column_name,
+      constraint_name: constraintName,
+      constraint_type: constraintName === 'pk' ? 'PRIMARY KEY' : 'UNIQUE',
+      is_nullable: 'NO',
+    }),
+    makeColumn('integer', {
+      column_name,
+      constraint_name: `${column_name}_fkey`,
+      constraint_type: 'FOREIGN KEY',
+      is_nullable: 'NO',
+      foreign_schema: 'public',
+      foreign_table: 'users',
+      foreign_column: 'id',
+    }),
+  ];
+
+  it('should draw unique foreign keys without replacement', async () => {
+    const { nextRows } = await generateDummyData(
+      keyedForeignKey('owner', 'owner_key'),
+      {},
+      30,
+      42,
+      fakeQuery(30)
+    );
+    const rows = [...(await nextRows(10)), ...(await nextRows(20))];
+    expect(new Set(rows.map(([owner]) => owner)).size).toBe(30);
+  });
+
+  it('should draw distinct combinations for composite keys', async () => {
+    const { nextRows } = await generateDummyData(
+      [...keyedForeignKey('a', 'pk'), ...keyedForeignKey('b', 'pk')],
+      {},
+      12,
+      42,
+      fakeQuery(4)
+    );
+    const rows = await nextRows(12);
+    expect(new Set(rows.map((row) => row.join())).size).toBe(12);
+  });
+
+  it('should fail up front when unique keys run out', async () => {
+    const query = fakeQuery(3);
+    await expect(
+      generateDummyData(
+        [...keyedForeignKey('a', 'pk'), ...keyedForeignKey('b', 'pk')],
+        {},
+        10,
+        42,
+        query
+      )
+    ).rejects.toThrow('Unique a, b can only take 9 distinct keys');
+    // no keys were fetched for rows
+    query.mock.calls.forEach(([, values]) => expect(values).toBeUndefined());
+  });
+
+  it('should fill nullable self references of an empty table after insert', async () => {
+    let keyCount = 0;
+    const query = jest.fn(async (sql: string, values?: unknown[]) =>
+      values ? { rows: [] } : { rows: [{ count: String(keyCount) }] }
+    );
+    const { nextRows, fillSelfReferences } = await generateDummyData(
+      [
+        makeColumn('text', { column_name: 'name' }),
+        makeColumn('integer', {
+          column_name: 'parent_id',
+          constraint_type: 'FOREIGN KEY',
+          foreign_schema: 'public',
+          foreign_table: 'nodes',
+          foreign_column: 'id',
+        }),
+      ],
+      {},
+      5,
+      42,
+      query
+    );
+    (await nextRows(5)).forEach(([, parent]) => expect(parent).toBeNull());
+
+    // rows are inserted
+    keyCount = 5;
+    expect(await fillSelfReferences('public', 'users')).toEqual([]);
+    expect(await fillSelfReferences('public', 'nodes')).toEqual(['parent_id']);
+    const updates = query.mock.calls.filter(([sql]) => sql.includes('UPDATE'));
+    expect(updates).toHaveLength(1);
+    // first row is a root, others reference an earlier row
+    const [children, parents] = updates[0][1] as number[][];
+    expect(children).toEqual([1, 2, 3, 4]);
+    parents.forEach((parent, i) => {
+      expect(parent).toBeGreaterThanOrEqual(0);
+      expect(parent).toBeLessThan(children[i]);
+    });
+  });
+});
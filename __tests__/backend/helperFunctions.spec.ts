@@ -0,0 +1,54 @@
+import helperFunctions from '../../backend/helperFunctions';
+import type { ConnectionProfile } from '../../backend/BE_types';
+
+// helperFunctions pulls in credential store, which needs electron's app
+jest.mock('electron', () => ({}));
+
+const profile: ConnectionProfile = {
+  id: 'p1',
+  name: 'local',
+  host: 'db"; rm -rf ~; echo "',
+  port: 5432,
+  user: '$(whoami)',
+  database: 'postgres',
+  sslMode: 'disable',
+};
+
+describe('pg CLI commands', () => {
+  it('should pass profile fields and names as single arguments', () => {
+    const { program, args } = helperFunctions.runSQLFunc(
+      'my db; ls',
+      '/tmp/dump `x`.sql',
+      profile
+    );
+    expect(program).toBe('psql');
+    expect(args).toEqual([
+      '--host=db"; rm -rf ~; echo "',
+      '--port=5432',
+      '--username=$(whoami)',
+      '--dbname=my db; ls',
+      '--file=/tmp/dump `x`.sql',
+    ]);
+  });
+
+  it('should have pg_dump write the file instead of a shell redirect', () => {
+    const { program, args } = helperFunctions.runHollowCopyFunc(
+      'source',
+      '/tmp/copy.sql',
+      profile
+    );
+    expect(program).toBe('pg_dump');
+    expect(args).toContain('-s');
+    expect(args).toContain('--file=/tmp/copy.sql');
+    expect(args.join(' ')).not.toContain('>');
+  });
+
+  it('should end options before the archive pg_restore reads', () => {
+    const { args } = helperFunctions.runTARFunc(
+      'target',
+      '-archive.tar',
+      profile
+    );
+    expect(args.slice(-2)).toEqual(['--', '-archive.tar']);
+  });
+});
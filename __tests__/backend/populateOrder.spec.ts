@@ -0,0 +1,72 @@
+import orderTables from '../../backend/DummyD/populateOrder';
+import type { ForeignKeyEdge } from '../../backend/BE_types';
+
+const fk = (
+  table_name: string,
+  foreign_table: string,
+  nullable = false
+): ForeignKeyEdge => ({
+  table_name,
+  column_name: `${foreign_table}_id`,
+  foreign_table,
+  nullable,
+});
+
+describe('orderTables', () => {
+  it('should place referenced tables first', () => {
+    const plan = orderTables(
+      ['orders', 'items', 'customers', 'products'],
+      [
+        fk('orders', 'customers'),
+        fk('items', 'orders'),
+        fk('items', 'products'),
+      ]
+    );
+    expect(plan).toEqual({
+      order: ['customers', 'products', 'orders', 'items'],
+      brokenReferences: [],
+      cycles: [],
+    });
+  });
+
+  it('should ignore tables not being populated', () => {
+    expect(orderTables(['people'], [fk('people', 'species')]).order).toEqual([
+      'people',
+    ]);
+  });
+
+  it('should allow nullable self references', () => {
+    const plan = orderTables(
+      ['employees', 'teams'],
+      [fk('employees', 'employees', true), fk('employees', 'teams')]
+    );
+    expect(plan.order).toEqual(['teams', 'employees']);
+    expect(plan.cycles).toEqual([]);
+  });
+
+  it('should report NOT NULL self references', () => {
+    expect(orderTables(['nodes'], [fk('nodes', 'nodes')]).cycles).toEqual([
+      ['nodes'],
+    ]);
+  });
+
+  it('should break cycles at nullable foreign keys', () => {
+    const managerOf = fk('departments', 'employees', true);
+    const plan = orderTables(
+      ['departments', 'employees'],
+      [managerOf, fk('employees', 'departments')]
+    );
+    expect(plan.order).toEqual(['departments', 'employees']);
+    expect(plan.brokenReferences).toEqual([managerOf]);
+    expect(plan.cycles).toEqual([]);
+  });
+
+  it('should report cycles it cannot break', () => {
+    const plan = orderTables(
+      ['a', 'b', 'c', 'd'],
+      [fk('a', 'b'), fk('b', 'c'), fk('c', 'a'), fk('d', 'a')]
+    );
+    expect(plan.cycles).toEqual([['a', 'b', 'c']]);
+    expect(plan.order).toEqual(['a', 'c', 'd', 'b']);
+  });
+});
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  textValue,
+  toCsv,
+  toJsonLines,
+  toSqlInserts,
+  encodeText,
+  writeResults,
+} from '../../backend/resultExport';
+import { crc32, createXlsx } from '../../backend/xlsx';
+import type { ResultExportOptions } from '../../backend/BE_types';
+
+// helperFunctions pulls in credential store, which needs electron's app
+jest.mock('electron', () => ({}));
+
+const options: ResultExportOptions = {
+  format: 'csv',
+  delimiter: ',',
+  header: true,
+  nullText: '',
+  encoding: 'utf8',
+  tableName: 'public.people',
+};
+
+const rows = [
+  { id: 1, name: 'Ann, "Annie"', note: null },
+  { id: 2, name: '', note: 'line\nbreak' },
+];
+
+describe('textValue', () => {
+  it('should print values like Postgres', () => {
+    expect(textValue(null)).toBeNull();
+    expect(textValue(new Date('2021-03-04T05:06:07Z'))).toBe(
+      '2021-03-04T05:06:07.000Z'
+    );
+    expect(textValue({ a: 1 })).toBe('{"a":1}');
+    expect(textValue(Buffer.from([1, 255]))).toBe('\\x01ff');
+  });
+
+  it('should print arrays as array literals', () => {
+    expect(textValue(['a b', null, 'say "hi"'])).toBe(
+      '{"a b",NULL,"say \\"hi\\""}'
+    );
+    expect(textValue([[1, 2], [3]])).toBe('{{"1","2"},{"3"}}');
+  });
+});
+
+describe('toCsv', () => {
+  it('should quote fields that need it and leave NULL empty', () => {
+    expect(toCsv(rows, options)).toBe(
+      'id,name,note\r\n1,"Ann, ""Annie""",\r\n2,"","line\nbreak"\r\n'
+    );
+  });
+
+  it('should use delimiter and NULL text without header', () => {
+    expect(
+      toCsv(rows.slice(0, 1), {
+        ...options,
+        delimiter: ';',
+        header: false,
+        nullText: 'NULL',
+      })
+    ).toBe('1;"Ann, ""Annie""";NULL\r\n');
+  });
+});
+
+describe('toJsonLines', () => {
+  it('should write one object per line', () => {
+    expect(toJsonLines([{ a: 1 }, { a: null }])).toBe('{"a":1}\n{"a":null}\n');
+  });
+});
+
+describe('toSqlInserts', () => {
+  it('should insert every row into quoted table', () => {
+    expect(toSqlInserts([{ id: 1, "it's": "O'Neil", ok: true }], options)).toBe(
+      `INSERT INTO "public"."people" ("id", "it's", "ok") VALUES (1, 'O''Neil', TRUE);\n`
+    );
+    expect(toSqlInserts([{ note: null }], options)).toContain('VALUES (NULL)');
+  });
+});
+
+describe('encodeText', () => {
+  it('should prefix byte order marks', () => {
+    expect([...encodeText('a', 'utf8-bom')]).toEqual([0xef, 0xbb, 0xbf, 0x61]);
+    expect([...encodeText('a', 'utf16le')]).toEqual([0xff, 0xfe, 0x61, 0]);
+  });
+
+  it('should replace characters latin1 lacks', () => {
+    expect(encodeText('é€', 'latin1').toString('latin1')).toBe('é?');
+  });
+});
+
+describe('writeResults', () => {
+  it('should write header and byte order mark only once across chunks', async () => {
+    const chunks = [rows.slice(0, 1), rows.slice(1)];
+    const filePath = path.join(os.tmpdir(), `seeqr-export-${process.pid}.csv`);
+    try {
+      const rowCount = await writeResults(
+        filePath,
+        async () => chunks.shift(),
+        { ...options, encoding: 'utf8-bom' }
+      );
+      expect(rowCount).toBe(2);
+      expect(fs.readFileSync(filePath, 'utf8')).toBe(
+        '\ufeffid,name,note\r\n1,"Ann, ""Annie""",\r\n2,"","line\nbreak"\r\n'
+      );
+    } finally {
+      fs.unlinkSync(filePath);
+    }
+  });
+});
+
+describe('xlsx', () => {
+  it('should compute CRC-32 checksums', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('should build a zip archive', () => {
+    const workbook = createXlsx([['id'], [1]]);
+    expect(workbook.readUInt32LE(0)).toBe(0x04034b50);
+    expect(workbook.readUInt32LE(workbook.length - 22)).toBe(0x06054b50);
+    expect(workbook.readUInt16LE(workbook.length - 12)).toBe(5);
+  });
+});
@@ -0,0 +1,129 @@
+import { diffLists, diffCatalogs } from '../../backend/schemaDiff';
+import type { DbCatalog, CatalogTable } from '../../backend/BE_types';
+
+const usersTable: CatalogTable = {
+  schema: 'public',
+  name: 'users',
+  qualified_name: 'users',
+  columns: [
+    {
+      name: 'id',
+      type: 'integer',
+      nullable: false,
+      default: null,
+      identity: 'a',
+    },
+    { name: 'name', type: 'text', nullable: true, default: null, identity: '' },
+  ],
+  constraints: [
+    {
+      name: 'users_pkey',
+      type: 'PRIMARY KEY',
+      definition: 'PRIMARY KEY (id)',
+      referenced_table: null,
+    },
+  ],
+  indexes: [],
+};
+
+const catalog = (tables: CatalogTable[]): DbCatalog => ({
+  schemas: ['public'],
+  types: [],
+  tables,
+  views: [],
+});
+
+describe('diffLists', () => {
+  const byName = ({ name }: { name: string }) => name;
+
+  it('should mark objects only in right list as added and put them last', () => {
+    const result = diffLists(
+      [{ name: 'a' }],
+      [{ name: 'b' }, { name: 'a' }],
+      byName
+    );
+    expect(result.map(({ name, status }) => [name, status])).toEqual([
+      ['a', 'unchanged'],
+      ['b', 'added'],
+    ]);
+  });
+
+  it('should mark objects only in left list as removed', () => {
+    const [result] = diffLists([{ name: 'a' }], [], byName);
+    expect(result).toEqual({
+      name: 'a',
+      status: 'removed',
+      left: { name: 'a' },
+    });
+  });
+
+  it('should mark matched objects with different properties as changed', () => {
+    const [result] = diffLists(
+      [{ name: 'a', type: 'int' }],
+      [{ name: 'a', type: 'text' }],
+      byName
+    );
+    expect(result.status).toBe('changed');
+  });
+});
+
+describe('diffCatalogs', () => {
+  it('should report identical catalogs as unchanged', () => {
+    const diff = diffCatalogs(
+      'a',
+      catalog([usersTable]),
+      'b',
+      catalog([usersTable])
+    );
+    expect(diff.tables[0].status).toBe('unchanged');
+    expect(
+      diff.tables[0].columns.every(({ status }) => status === 'unchanged')
+    ).toBe(true);
+  });
+
+  it('should mark table as changed if any of its columns changed', () => {
+    const altered: CatalogTable = {
+      ...usersTable,
+      columns: [
+        usersTable.columns[0],
+        { ...usersTable.columns[1], type: 'character varying(50)' },
+      ],
+    };
+    const diff = diffCatalogs(
+      'a',
+      catalog([usersTable]),
+      'b',
+      catalog([altered])
+    );
+    expect(diff.tables[0].status).toBe('changed');
+    expect(diff.tables[0].columns.map(({ status }) => status)).toEqual([
+      'unchanged',
+      'changed',
+    ]);
+  });
+
+  it('should list columns of added tables as added', () => {
+    const diff = diffCatalogs('a', catalog([]), 'b', catalog([usersTable]));
+    expect(diff.tables[0].status).toBe('added');
+    expect(diff.tables[0].columns.map(({ status }) => status)).toEqual([
+      'added',
+      'added',
+    ]);
+  });
+
+  it('should ignore view dependencies when comparing views', () => {
+    const view = {
+      schema: 'public',
+      name: 'v',
+      qualified_name: 'v',
+      materialized: false,
+      definition: 'SELECT 1;',
+      dependencies: [],
+    };
+    const diff = diffCatalogs('a', { ...catalog([]), views: [view] }, 'b', {
+      ...catalog([]),
+      views: [{ ...view, dependencies: ['users'] }],
+    });
+    expect(diff.views[0].status).toBe('unchanged');
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  inferGenerator,
+  randomInRange,
+  dummyColumn,
+  createColumnGenerator,
+} from '../../backend/DummyD/semanticGenerators';
+import {
+  seedRandom,
+  random,
+  randomPermutation,
+} from '../../backend/DummyD/random';
+import type { ColumnObj } from '../../backend/BE_types';
+
+const makeColumn = (
+  column_name: string,
+  data_type: string,
+  other: Partial<ColumnObj> = {}
+): ColumnObj => ({
+  column_name,
+  data_type,
+  character_maximum_length: null,
+  numeric_precision: null,
+  numeric_scale: null,
+  is_nullable: 'YES',
+  column_default: null,
+  is_identity: 'NO',
+  identity_generation: null,
+  is_generated: 'NEVER',
+  is_serial: false,
+  element_type: null,
+  enum_labels: null,
+  constraint_name: null,
+  constraint_type: '',
+  foreign_schema: '',
+  foreign_table: '',
+  foreign_column: '',
+  ...other,
+});
+
+const byType = () => 'by type';
+
+describe('inferGenerator', () => {
+  it('should pick generator from column name', () => {
+    expect(inferGenerator(makeColumn('Email', 'text'))).toBe('email');
+    expect(inferGenerator(makeColumn('first_name', 'character varying'))).toBe(
+      'firstName'
+    );
+    expect(inferGenerator(makeColumn('home_city', 'text'))).toBe('city');
+    expect(inferGenerator(makeColumn('unit_price', 'numeric'))).toBe('price');
+    expect(
+      inferGenerator(makeColumn('created_at', 'timestamp with time zone'))
+    ).toBe('pastDate');
+  });
+
+  it('should match whole words of column name', () => {
+    expect(inferGenerator(makeColumn('ip_address', 'text'))).toBe('ip');
+    expect(inferGenerator(makeColumn('billing_address', 'text'))).toBe(
+      'streetAddress'
+    );
+    expect(inferGenerator(makeColumn('item_count', 'integer'))).toBe(
+      'quantity'
+    );
+    expect(
+      inferGenerator(makeColumn('account_number', 'integer'))
+    ).toBeUndefined();
+    expect(inferGenerator(makeColumn('country_code', 'text'))).toBeUndefined();
+    expect(inferGenerator(makeColumn('discount', 'numeric'))).toBeUndefined();
+  });
+
+  it('should skip generators not fitting column type', () => {
+    expect(inferGenerator(makeColumn('price', 'text'))).toBeUndefined();
+    expect(inferGenerator(makeColumn('email', 'integer'))).toBeUndefined();
+    expect(inferGenerator(makeColumn('x', 'text'))).toBeUndefined();
+  });
+});
+
+describe('randomInRange', () => {
+  it('should stay within bounds for every distribution', () => {
+    (['uniform', 'normal', 'skewed'] as const).forEach((distribution) => {
+      for (let i = 0; i < 500; i += 1) {
+        const n = randomInRange(10, 20, distribution);
+        expect(n).toBeGreaterThanOrEqual(10);
+        expect(n).toBeLessThanOrEqual(20);
+      }
+    });
+  });
+
+  it('should cluster skewed numbers near min', () => {
+    const values = Array.from({ length: 1000 }, () =>
+      randomInRange(0, 100, 'skewed')
+    );
+    const mean = values.reduce((sum, n) => sum + n, 0) / values.length;
+    expect(mean).toBeLessThan(40);
+  });
+});
+
+describe('dummyColumn', () => {
+  it('should list fitting generators and default options', () => {
+    const column = dummyColumn(
+      makeColumn('email', 'text', {
+        constraint_type: 'UNIQUE',
+        is_nullable: 'NO',
+      })
+    );
+    expect(column.generators).toContain('type');
+    expect(column.generators).toContain('city');
+    expect(column.generators).not.toContain('price');
+    expect(column).toMatchObject({
+      nullable: false,
+      numeric: false,
+      options: { generator: 'email', unique: true, nullPercent: 0 },
+    });
+  });
+});
+
+describe('createColumnGenerator', () => {
+  it('should fall back to generating values by type', () => {
+    const generate = createColumnGenerator(makeColumn('x', 'uuid'), {}, byType);
+    expect(generate(0)).toBe('by type');
+  });
+
+  it('should keep numbers in range and integers whole', () => {
+    const generate = createColumnGenerator(
+      makeColumn('age', 'integer'),
+      { min: 30, max: 40 },
+      byType
+    );
+    for (let i = 0; i < 100; i += 1) {
+      expect(generate(i)).toMatch(/^(3\d|40)$/);
+    }
+    const price = createColumnGenerator(
+      makeColumn('price', 'numeric', { numeric_scale: 2 }),
+      {},
+      byType
+    );
+    expect(price(0)).toMatch(/^\d+\.\d{2}$/);
+  });
+
+  it('should keep numbers within precision of column', () => {
+    const price = createColumnGenerator(
+      makeColumn('price', 'numeric', {
+        numeric_precision: 4,
+        numeric_scale: 2,
+      }),
+      {},
+      byType
+    );
+    const tiny = createColumnGenerator(
+      makeColumn('ratio', 'numeric', {
+        numeric_precision: 3,
+        numeric_scale: 2,
+      }),
+      { min: -50, max: 50 },
+      byType
+    );
+    const small = createColumnGenerator(
+      makeColumn('n', 'smallint'),
+      { min: 40000, max: 100000 },
+      byType
+    );
+    for (let i = 0; i < 100; i += 1) {
+      expect(Number(price(i))).toBeLessThanOrEqual(99.99);
+      expect(Math.abs(Number(tiny(i)))).toBeLessThanOrEqual(9.99);
+      expect(small(i)).toBe('32767');
+    }
+  });
+
+  it('should truncate text to column length', () => {
+    const generate = createColumnGenerator(
+      makeColumn('description', 'character varying', {
+        character_maximum_length: 5,
+      }),
+      {},
+      byType
+    );
+    expect((generate(0) as string).length).toBeLessThanOrEqual(5);
+  });
+
+  it('should only generate NULLs for nullable columns', () => {
+    const nullable = createColumnGenerator(
+      makeColumn('email', 'text'),
+      { nullPercent: 100 },
+      byType
+    );
+    expect(nullable(0)).toBeNull();
+    const notNull = createColumnGenerator(
+      makeColumn('email', 'text', { is_nullable: 'NO' }),
+      { nullPercent: 100 },
+      byType
+    );
+    expect(notNull(0)).not.toBeNull();
+  });
+
+  it('should not repeat unique values', () => {
+    const generate = createColumnGenerator(
+      makeColumn('n', 'integer'),
+      { generator: 'type', min: 1, max: 3, unique: true },
+      byType
+    );
+    expect(new Set([generate(0), generate(1), generate(2)])).toEqual(
+      new Set(['1', '2', '3'])
+    );
+    expect(() => generate(3)).toThrow('Ran out of unique values for n');
+  });
+
+  it('should build unique values of every kind from row index', () => {
+    const columns = [
+      makeColumn('email', 'character varying', {
+        character_maximum_length: 20,
+      }),
+      makeColumn('first_name', 'text'),
+      makeColumn('price', 'numeric', {
+        numeric_precision: 6,
+        numeric_scale: 2,
+      }),
+      makeColumn('created_at', 'timestamp with time zone'),
+      makeColumn('day', 'date'),
+      makeColumn('ip', 'inet'),
+    ];
+    columns.forEach((column) => {
+      const generate = createColumnGenerator(column, { unique: true }, byType);
+      const values = Array.from({ length: 2000 }, (_, i) => generate(i));
+      expect(new Set(values).size).toBe(2000);
+    });
+    const email = createColumnGenerator(
+      columns[0],
+      { unique: true },
+      byType
+    )(12) as string;
+    expect(email).toMatch(/_12@/);
+    expect(email.length).toBeLessThanOrEqual(20);
+  });
+
+  it('should build unique values of other types from row index', () => {
+    [
+      makeColumn('starts', 'time without time zone'),
+      makeColumn('ends', 'time with time zone'),
+      makeColumn('duration', 'interval'),
+      makeColumn('blob', 'bytea'),
+      makeColumn('mac', 'macaddr'),
+      makeColumn('network', 'cidr'),
+    ].forEach((column) => {
+      const generate = createColumnGenerator(column, { unique: true }, byType);
+      const values = Array.from({ length: 2000 }, (_, i) => generate(i));
+      expect(new Set(values).size).toBe(2000);
+    });
+    const json = createColumnGenerator(
+      makeColumn('payload', 'jsonb'),
+      { unique: true },
+      () => '{"a":1}'
+    );
+    expect(json(0)).not.toBe(json(1));
+  });
+
+  it('should run out of few unique values and refuse types it cannot vary', () => {
+    const flag = createColumnGenerator(
+      makeColumn('flag', 'boolean'),
+      { unique: true },
+      byType
+    );
+    expect(new Set([flag(0), flag(1)])).toEqual(new Set(['true', 'false']));
+    expect(() => flag(2)).toThrow('Ran out of unique values for flag');
+    const state = createColumnGenerator(
+      makeColumn('state', 'USER-DEFINED', { enum_labels: ['on', 'off'] }),
+      { unique: true },
+      byType
+    );
+    expect(new Set([state(0), state(1)])).toEqual(new Set(['on', 'off']));
+    expect(() =>
+      createColumnGenerator(
+        makeColumn('tags', 'ARRAY'),
+        { unique: true },
+        byType
+      )
+    ).toThrow("Unique values can't be generated for tags of type ARRAY");
+  });
+});
+
+describe('seedRandom', () => {
+  it('should repeat values generated after same seed', () => {
+    const run = () => {
+      seedRandom(42);
+      const columns = [
+        makeColumn('email', 'text', { constraint_type: 'UNIQUE' }),
+        makeColumn('price', 'numeric'),
+        makeColumn('created_at', 'timestamp without time zone'),
+        makeColumn('note', 'text'),
+      ];
+      const generators = columns.map((column) =>
+        createColumnGenerator(column, { nullPercent: 20 }, () =>
+          random().toString()
+        )
+      );
+      return Array.from({ length: 20 }, (_, i) =>
+        generators.map((generate) => generate(i))
+      );
+    };
+    expect(run()).toEqual(run());
+  });
+});
+
+describe('randomPermutation', () => {
+  it('should map indexes to distinct positions within size', () => {
+    [1, 7, 1000, 1024].forEach((size) => {
+      const position = randomPermutation(size);
+      const positions = Array.from({ length: size }, (_, i) => position(i));
+      expect(new Set(positions).size).toBe(size);
+      positions.forEach((n) => {
+        expect(n).toBeGreaterThanOrEqual(0);
+        expect(n).toBeLessThan(size);
+      });
+    });
+  });
+});
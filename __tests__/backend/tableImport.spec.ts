@@ -0,0 +1,127 @@
+import {
+  formatOf,
+  parseCsv,
+  parseJson,
+  inferType,
+  validateRows,
+  copyLine,
+  copyError,
+} from '../../backend/tableImport';
+import type { ImportColumn } from '../../backend/BE_types';
+
+const options = { delimiter: ',', quote: '"', header: true };
+
+describe('formatOf', () => {
+  it('should pick parser from extension', () => {
+    expect(formatOf('/data/people.JSONL')).toBe('json');
+    expect(formatOf('/data/people.tsv')).toBe('csv');
+  });
+});
+
+describe('parseCsv', () => {
+  it('should parse quoted fields, NULLs and line breaks', () => {
+    const csv = '\ufeffid,name,note\r\n1,"Ann, ""A""",\n2,"","multi\nline"\n\n';
+    expect(parseCsv(csv, options)).toEqual({
+      columns: ['id', 'name', 'note'],
+      rows: [
+        ['1', 'Ann, "A"', null],
+        ['2', '', 'multi\nline'],
+      ],
+    });
+  });
+
+  it('should number columns of files without header', () => {
+    expect(
+      parseCsv('1\tx\n2\ty', { ...options, delimiter: '\t', header: false })
+    ).toEqual({
+      columns: ['column1', 'column2'],
+      rows: [
+        ['1', 'x'],
+        ['2', 'y'],
+      ],
+    });
+  });
+
+  it('should reject unclosed quotes', () => {
+    expect(() => parseCsv('a\n"open', options)).toThrow('never closed');
+  });
+});
+
+describe('parseJson', () => {
+  it('should collect keys of all objects', () => {
+    expect(parseJson('[{"a": 1}, {"b": {"c": true}, "a": null}]')).toEqual({
+      columns: ['a', 'b'],
+      rows: [
+        ['1', null],
+        [null, '{"c":true}'],
+      ],
+    });
+  });
+
+  it('should parse JSON lines', () => {
+    expect(parseJson('{"a": "x"}\n\n{"a": "y"}\n').rows).toEqual([
+      ['x'],
+      ['y'],
+    ]);
+    expect(() => parseJson('{"a": 1}\n{oops')).toThrow('Line 2');
+    expect(() => parseJson('[1]')).toThrow("Row 1 isn't a JSON object");
+  });
+});
+
+describe('inferType', () => {
+  it('should infer narrowest type fitting every value', () => {
+    expect(inferType(['1', null, '-20'])).toBe('integer');
+    expect(inferType(['1', '12345678901'])).toBe('bigint');
+    expect(inferType(['1', '2.5e3'])).toBe('numeric');
+    expect(inferType(['TRUE', 'false'])).toBe('boolean');
+    expect(inferType(['2021-01-02'])).toBe('date');
+    expect(inferType(['2021-01-02T03:04:05Z'])).toBe('timestamptz');
+    expect(inferType(['{"a":1}', '[]'])).toBe('jsonb');
+    expect(inferType(['1', 'x'])).toBe('text');
+    expect(inferType([null])).toBe('text');
+  });
+});
+
+describe('validateRows', () => {
+  const columns: ImportColumn[] = [
+    { source: 0, target: 'id', type: 'integer' },
+    { source: 1, target: 'active', type: 'boolean' },
+  ];
+
+  it('should report every row that would fail', () => {
+    const file = {
+      columns: ['id', 'active'],
+      rows: [['1', 'yes'], ['x', 't'], ['2'], ['3', 'maybe'], [null, null]],
+    };
+    expect(validateRows(file, columns)).toEqual([
+      { row: 2, message: 'Invalid integer value for id: "x"' },
+      { row: 3, message: 'Expected 2 fields but found 1' },
+      { row: 4, message: 'Invalid boolean value for active: "maybe"' },
+    ]);
+  });
+});
+
+describe('copyLine', () => {
+  it('should escape values for COPY text format', () => {
+    const columns: ImportColumn[] = [
+      { source: 1, target: 'b', type: 'text' },
+      { source: 0, target: 'a', type: 'text' },
+    ];
+    expect(copyLine(['a\tb\\c', null], columns)).toBe('\\N\ta\\tb\\\\c\n');
+  });
+});
+
+describe('copyError', () => {
+  it('should read failing row from error', () => {
+    expect(
+      copyError({
+        message: 'invalid input syntax for type integer: "x"',
+        where: 'COPY people, line 3, column age: "x"',
+      })
+    ).toEqual({
+      row: 3,
+      message: 'invalid input syntax for type integer: "x"',
+    });
+    expect(copyError({ message: 'permission denied' }).row).toBe(0);
+  });
+});
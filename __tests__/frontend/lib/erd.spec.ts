@@ -0,0 +1,99 @@
+import * as erd from '../../../frontend/lib/erd';
+import type { TableInfo, TableColumn } from '../../../frontend/types';
+
+const column = (
+  name: string,
+  constraint?: Partial<TableColumn>
+): TableColumn => ({
+  column_name: name,
+  data_type: 'integer',
+  character_maximum_length: null,
+  is_nullable: 'no',
+  column_default: null,
+  is_identity: 'NO',
+  identity_generation: null,
+  is_serial: false,
+  constraint_type: null,
+  foreign_schema: null,
+  foreign_table: null,
+  foreign_column: null,
+  ...constraint,
+});
+
+const table = (name: string, columns: TableColumn[]) =>
+  (({
+    table_catalog: 'db',
+    table_schema: 'public',
+    table_name: name,
+    qualified_name: name,
+    is_insertable_into: 'YES',
+    columns,
+  } as unknown) as TableInfo);
+
+const users = table('users', [
+  column('id', { constraint_type: 'PRIMARY KEY' }),
+  column('name'),
+]);
+
+const posts = table('posts', [
+  column('id', { constraint_type: 'PRIMARY KEY' }),
+  column('author_id', {
+    constraint_type: 'FOREIGN KEY',
+    foreign_schema: 'public',
+    foreign_table: 'users',
+    foreign_column: 'id',
+  }),
+  column('author_id', { constraint_type: 'UNIQUE' }),
+]);
+
+describe('createErdLayout', () => {
+  const layout = erd.createErdLayout([posts, users]);
+
+  it('should create one node per table with one entry per column', () => {
+    expect(layout.tables.map(({ id }) => id)).toEqual([
+      'public.posts',
+      'public.users',
+    ]);
+    expect(layout.tables[0].columns.map(({ name }) => name)).toEqual([
+      'id',
+      'author_id',
+    ]);
+  });
+
+  it('should create relation from foreign key column to referenced column', () => {
+    expect(layout.relations).toHaveLength(1);
+    expect(layout.relations[0].from).toEqual({
+      table: 'public.posts',
+      column: 'author_id',
+    });
+    expect(layout.relations[0].to).toEqual({
+      table: 'public.users',
+      column: 'id',
+    });
+  });
+
+  it('should place referenced tables left of referencing tables', () => {
+    const [postsNode, usersNode] = layout.tables;
+    expect(usersNode.x).toBeLessThan(postsNode.x);
+  });
+
+  it('should drop relations to tables not in diagram', () => {
+    expect(erd.createErdLayout([posts]).relations).toHaveLength(0);
+  });
+});
+
+describe('erdToSvg', () => {
+  it('should draw every table and relation', () => {
+    const svg = erd.erdToSvg(erd.createErdLayout([posts, users]), {
+      background: 'black',
+      node: 'grey',
+      header: 'black',
+      text: 'white',
+      muted: 'grey',
+      edge: 'white',
+    });
+    expect(svg).toContain('public.users');
+    expect(svg).toContain('FK author_id');
+    expect(svg.match(/<path/g)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,54 @@
+import {
+  filterHistory,
+  historyDbs,
+  sqlPreview,
+} from '../../../frontend/lib/history';
+import type { HistoryEntry } from '../../../frontend/types';
+
+const entries: HistoryEntry[] = [
+  {
+    id: '1',
+    timestamp: 2,
+    db: 'prod',
+    sqlString: 'SELECT * FROM users',
+    duration: 5,
+    rowCount: 10,
+  },
+  {
+    id: '2',
+    timestamp: 1,
+    db: 'dev',
+    sqlString: 'select * from posts',
+    duration: 1,
+    error: 'error: relation "posts" does not exist',
+  },
+];
+
+describe('filterHistory', () => {
+  it('should return all entries without filters', () => {
+    expect(filterHistory(entries, '', '  ')).toEqual(entries);
+  });
+
+  it('should filter by database', () => {
+    expect(filterHistory(entries, 'dev', '')).toEqual([entries[1]]);
+  });
+
+  it('should search sql and errors ignoring case', () => {
+    expect(filterHistory(entries, '', 'users')).toEqual([entries[0]]);
+    expect(filterHistory(entries, '', 'DOES NOT')).toEqual([entries[1]]);
+    expect(filterHistory(entries, 'prod', 'posts')).toEqual([]);
+  });
+});
+
+describe('historyDbs', () => {
+  it('should list each database once, sorted', () => {
+    expect(historyDbs([...entries, ...entries])).toEqual(['dev', 'prod']);
+  });
+});
+
+describe('sqlPreview', () => {
+  it('should collapse whitespace and truncate long sql', () => {
+    expect(sqlPreview('select *\n  from users')).toBe('select * from users');
+    expect(sqlPreview('select * from users', 10)).toBe('select * …');
+  });
+});
@@ -0,0 +1,254 @@
+import generateMigration, {
+  generateEnumAdditions,
+  sortByDependencies,
+} from '../../../frontend/lib/migration';
+import type {
+  SchemaDiff,
+  TableDiff,
+  CatalogTable,
+  CatalogView,
+} from '../../../frontend/types';
+
+const emptyDiff: SchemaDiff = {
+  left: 'dev',
+  right: 'prod',
+  schemas: [],
+  types: [],
+  tables: [],
+  views: [],
+};
+
+const users: CatalogTable = {
+  schema: 'public',
+  name: 'users',
+  qualified_name: 'users',
+  columns: [
+    {
+      name: 'id',
+      type: 'integer',
+      nullable: false,
+      default: "nextval('users_id_seq'::regclass)",
+      identity: '',
+    },
+  ],
+  constraints: [
+    {
+      name: 'users_pkey',
+      type: 'PRIMARY KEY',
+      definition: 'PRIMARY KEY (id)',
+      referenced_table: null,
+    },
+  ],
+  indexes: [],
+};
+
+const addedTable = (table: CatalogTable): TableDiff => ({
+  name: table.qualified_name,
+  status: 'added',
+  right: table,
+  columns: table.columns.map((c) => ({
+    name: c.name,
+    status: 'added',
+    right: c,
+  })),
+  constraints: table.constraints.map((c) => ({
+    name: c.name,
+    status: 'added',
+    right: c,
+  })),
+  indexes: [],
+});
+
+const view = (name: string, dependencies: string[]): CatalogView => ({
+  schema: 'public',
+  name,
+  qualified_name: name,
+  materialized: false,
+  definition: ` SELECT 1;`,
+  dependencies,
+});
+
+// position of first line containing text
+const lineOf = (sql: string, text: string) =>
+  sql.split('\n').findIndex((line) => line.includes(text));
+
+describe('sortByDependencies', () => {
+  it('should place items after their dependencies', () => {
+    const sorted = sortByDependencies(
+      [view('c', ['b']), view('b', ['a']), view('a', [])],
+      ({ name }) => name,
+      ({ dependencies }) => dependencies
+    );
+    expect(sorted.map(({ name }) => name)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should not loop forever on cycles', () => {
+    const sorted = sortByDependencies(
+      [view('a', ['b']), view('b', ['a'])],
+      ({ name }) => name,
+      ({ dependencies }) => dependencies
+    );
+    expect(sorted).toHaveLength(2);
+  });
+});
+
+describe('generateMigration', () => {
+  it('should report matching schemas', () => {
+    expect(generateMigration(emptyDiff)).toContain('already match');
+  });
+
+  it('should create sequence before table using it and its constraints after', () => {
+    const sql = generateMigration({
+      ...emptyDiff,
+      tables: [addedTable(users)],
+    });
+    const sequence = lineOf(sql, 'CREATE SEQUENCE IF NOT EXISTS users_id_seq');
+    const table = lineOf(sql, 'CREATE TABLE users');
+    const pkey = lineOf(sql, 'ADD CONSTRAINT "users_pkey" PRIMARY KEY (id)');
+    expect(sequence).toBeGreaterThan(-1);
+    expect(table).toBeGreaterThan(sequence);
+    expect(pkey).toBeGreaterThan(table);
+  });
+
+  it('should alter changed columns', () => {
+    const column = users.columns[0];
+    const sql = generateMigration({
+      ...emptyDiff,
+      tables: [
+        {
+          name: 'users',
+          status: 'changed',
+          left: users,
+          right: users,
+          columns: [
+            {
+              name: 'id',
+              status: 'changed',
+              left: column,
+              right: { ...column, type: 'bigint', nullable: true },
+            },
+          ],
+          constraints: [],
+          indexes: [],
+        },
+      ],
+    });
+    expect(sql).toContain(
+      'ALTER TABLE users ALTER COLUMN "id" TYPE bigint USING "id"::bigint;'
+    );
+    expect(sql).toContain('ALTER TABLE users ALTER COLUMN "id" DROP NOT NULL;');
+  });
+
+  it('should drop dependent views first and create them last', () => {
+    const sql = generateMigration({
+      ...emptyDiff,
+      views: [
+        { name: 'a', status: 'removed', left: view('a', []) },
+        { name: 'b', status: 'removed', left: view('b', ['a']) },
+        { name: 'c', status: 'added', right: view('c', ['d']) },
+        { name: 'd', status: 'added', right: view('d', []) },
+      ],
+    });
+    expect(lineOf(sql, 'DROP VIEW b')).toBeLessThan(lineOf(sql, 'DROP VIEW a'));
+    expect(lineOf(sql, 'CREATE VIEW d')).toBeLessThan(
+      lineOf(sql, 'CREATE VIEW c')
+    );
+  });
+
+  it('should recreate unchanged views reading from retyped columns', () => {
+    const column = users.columns[0];
+    const unchanged = (name: string, dependencies: string[]) => ({
+      name,
+      status: 'unchanged' as const,
+      left: view(name, dependencies),
+      right: view(name, dependencies),
+    });
+    const sql = generateMigration({
+      ...emptyDiff,
+      tables: [
+        {
+          name: 'users',
+          status: 'changed',
+          left: users,
+          right: users,
+          columns: [
+            {
+              name: 'id',
+              status: 'changed',
+              left: column,
+              right: { ...column, type: 'bigint' },
+            },
+          ],
+          constraints: [],
+          indexes: [],
+        },
+      ],
+      views: [
+        unchanged('ids', ['users']),
+        unchanged('big_ids', ['ids']),
+        unchanged('other', ['posts']),
+      ],
+    });
+    const alter = lineOf(sql, 'ALTER COLUMN "id" TYPE bigint');
+    expect(lineOf(sql, 'DROP VIEW big_ids')).toBeLessThan(
+      lineOf(sql, 'DROP VIEW ids')
+    );
+    expect(lineOf(sql, 'DROP VIEW ids')).toBeLessThan(alter);
+    expect(lineOf(sql, 'CREATE VIEW ids')).toBeGreaterThan(alter);
+    expect(lineOf(sql, 'CREATE VIEW big_ids')).toBeGreaterThan(
+      lineOf(sql, 'CREATE VIEW ids')
+    );
+    expect(sql).not.toContain('VIEW other');
+  });
+
+  it('should add enum values before and outside of the migration', () => {
+    const status = {
+      schema: 'public',
+      name: 'status',
+      qualified_name: 'status',
+      labels: ['draft'],
+    };
+    const diff: SchemaDiff = {
+      ...emptyDiff,
+      types: [
+        {
+          name: 'status',
+          status: 'changed',
+          left: status,
+          right: { ...status, labels: ['draft', "won't"] },
+        },
+      ],
+    };
+    expect(generateMigration(diff)).not.toContain('ADD VALUE');
+    expect(generateMigration(diff)).not.toContain('already match');
+    expect(generateEnumAdditions(diff)).toContain(
+      "ALTER TYPE status ADD VALUE IF NOT EXISTS 'won''t';"
+    );
+    expect(generateEnumAdditions(emptyDiff)).toBe('');
+  });
+
+  it('should drop foreign keys before dropping tables', () => {
+    const fk = {
+      name: 'posts_user_fkey',
+      type: 'FOREIGN KEY' as const,
+      definition: 'FOREIGN KEY (user_id) REFERENCES users(id)',
+      referenced_table: 'users',
+    };
+    const sql = generateMigration({
+      ...emptyDiff,
+      tables: [
+        {
+          name: 'posts',
+          status: 'removed',
+          left: { ...users, name: 'posts', qualified_name: 'posts' },
+          columns: [],
+          constraints: [{ name: fk.name, status: 'removed', left: fk }],
+          indexes: [],
+        },
+      ],
+    });
+    expect(lineOf(sql, 'DROP CONSTRAINT "posts_user_fkey"')).toBeLessThan(
+      lineOf(sql, 'DROP TABLE posts')
+    );
+  });
+});
@@ -41,6 +41,17 @@ describe('getTotalTime', () => {
     };
     expect(queries.getTotalTime(dummy as QueryData)).toEqual(3000);
   });
+
+  it('should return median of benchmark runs when available', () => {
+    const dummy = {
+      executionPlan: {
+        'Execution Time': 1000,
+        'Planning Time': 2000,
+      },
+      timings: [5, 1, 3],
+    };
+    expect(queries.getTotalTime(dummy as QueryData)).toEqual(3);
+  });
 });
 
 describe('getPrettyTime', () => {
@@ -48,6 +59,11 @@ describe('getPrettyTime', () => {
     expect(queries.getPrettyTime(undefined)).toBeUndefined();
   });
 
+  it('should return undefined for plans without actual timings', () => {
+    const estimate = { executionPlan: { Plan: {} } };
+    expect(queries.getPrettyTime(estimate as QueryData)).toBeUndefined();
+  });
+
   it('should return pretty string with rounded result', () => {
     const fractional = {
       executionPlan: {
@@ -157,3 +173,40 @@ describe('setCompare', () => {
     expect(Object.keys(clearedCollection).length).toBe(0);
   });
 });
+
+describe('getParameters', () => {
+  it('should keep values of parameters still in sql and add new ones', () => {
+    const query: QueryData = {
+      label: 'params',
+      db: 'db',
+      sqlString: 'select * from t where a = :a and b = :b',
+      params: [
+        { name: ':a', type: 'integer', value: '1' },
+        { name: ':gone', type: 'text', value: 'x' },
+      ],
+    };
+    expect(queries.getParameters(query)).toEqual([
+      { name: ':a', type: 'integer', value: '1' },
+      { name: ':b', type: 'unknown', value: '' },
+    ]);
+  });
+});
+
+describe('capRows', () => {
+  it('should truncate rows of queries and their statements', () => {
+    const rows = [{ n: 1 }, { n: 2 }, { n: 3 }];
+    const query: QueryData = {
+      label: 'script',
+      db: 'db',
+      sqlString: 'select 1; select 2',
+      returnedRows: rows,
+      statements: [{ sqlString: 'select 1', returnedRows: rows }],
+    };
+    const capped = queries.capRows({ [queries.key(query)]: query }, 2)[
+      queries.key(query)
+    ];
+    expect(capped.returnedRows).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(capped.statements?.[0].returnedRows).toEqual([{ n: 1 }, { n: 2 }]);
+    expect(query.returnedRows).toHaveLength(3);
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  exportQueries,
+  findConflicts,
+  importQueries,
+  uniqueLabel,
+} from '../../../frontend/lib/queryFile';
+import { isQueryFile } from '../../../frontend/types';
+import type { QueryData, ExplainJson } from '../../../frontend/types';
+
+const users: QueryData = {
+  label: 'users',
+  db: 'dev',
+  sqlString: 'select * from users',
+  returnedRows: [{ id: 1 }],
+  executionPlan: {} as ExplainJson,
+};
+
+const posts: QueryData = {
+  label: 'posts',
+  db: 'dev',
+  sqlString: 'select * from posts',
+};
+
+const collection = {
+  'label:users db:dev': users,
+  'label:posts db:dev': posts,
+};
+
+describe('exportQueries', () => {
+  it('should create valid file without results by default', () => {
+    const file = exportQueries(collection, false);
+    expect(isQueryFile(file)).toBe(true);
+    expect(file.queries).toContainEqual({
+      label: 'users',
+      db: 'dev',
+      sqlString: 'select * from users',
+    });
+  });
+
+  it('should include results when requested', () => {
+    const file = exportQueries(collection, true);
+    expect(file.queries.find(({ label }) => label === 'users')).toEqual(users);
+  });
+});
+
+describe('isQueryFile', () => {
+  const file = exportQueries(collection, true);
+
+  it('should reject other formats and versions', () => {
+    expect(isQueryFile({ ...file, format: 'other' })).toBe(false);
+    expect(isQueryFile({ ...file, version: 99 })).toBe(false);
+    expect(isQueryFile(null)).toBe(false);
+  });
+
+  it('should reject malformed queries', () => {
+    expect(isQueryFile({ ...file, queries: [{ label: 'a', db: 'b' }] })).toBe(
+      false
+    );
+    expect(isQueryFile({ ...file, queries: [null] })).toBe(false);
+    expect(
+      isQueryFile({ ...file, queries: [{ ...posts, returnedRows: 'rows' }] })
+    ).toBe(false);
+  });
+});
+
+describe('importQueries', () => {
+  const imported = { ...users, sqlString: 'select id from users' };
+
+  it('should find conflicting queries', () => {
+    expect(
+      findConflicts(collection, [imported, { ...posts, db: 'prod' }])
+    ).toEqual([imported]);
+  });
+
+  it('should skip conflicting queries', () => {
+    const result = importQueries(collection, [imported], 'skip');
+    expect(result.skipped).toBe(1);
+    expect(result.queries).toEqual(collection);
+  });
+
+  it('should overwrite conflicting queries', () => {
+    const result = importQueries(collection, [imported], 'overwrite');
+    expect(result.queries['label:users db:dev']).toEqual(imported);
+  });
+
+  it('should rename conflicting queries', () => {
+    const result = importQueries(collection, [imported, imported], 'rename');
+    expect(result.queries['label:users (2) db:dev'].sqlString).toBe(
+      'select id from users'
+    );
+    expect(result.queries['label:users (3) db:dev']).toBeDefined();
+    expect(Object.keys(result.queries)).toHaveLength(4);
+  });
+
+  it('should pick the lowest unused suffix', () => {
+    expect(
+      uniqueLabel({ ...collection, 'label:users (2) db:dev': users }, users)
+    ).toBe('users (3)');
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  splitStatements,
+  modifiesData,
+  findParameters,
+  bindParameters,
+  canStream,
+} from '../../../frontend/lib/sqlStatements';
+
+describe('splitStatements', () => {
+  it('should split on semicolons and drop empty statements', () => {
+    expect(splitStatements('select 1; select 2;; ')).toEqual([
+      'select 1',
+      'select 2',
+    ]);
+  });
+
+  it('should ignore semicolons in strings, identifiers and comments', () => {
+    const sql = `select 'a;b', "c;d" -- e;f
+      from t /* g; /* nested; */ h; */; select E'\\';'`;
+    const statements = splitStatements(sql);
+    expect(statements).toHaveLength(2);
+    expect(statements[0]).toContain('nested; */ h; */');
+    expect(statements[1]).toBe("select E'\\';'");
+  });
+
+  it('should respect dollar quoting', () => {
+    const sql = `create function f() returns int as $body$ select 1; $body$ language sql; select $1`;
+    expect(splitStatements(sql)).toEqual([
+      'create function f() returns int as $body$ select 1; $body$ language sql',
+      'select $1',
+    ]);
+  });
+
+  it('should drop statements that only contain comments', () => {
+    expect(splitStatements('select 1; -- done')).toEqual(['select 1']);
+  });
+});
+
+describe('modifiesData', () => {
+  it('should treat plain reads as read only', () => {
+    expect(modifiesData('SELECT * FROM users FOR UPDATE')).toBe(false);
+    expect(modifiesData("select 'insert into x' from t")).toBe(false);
+    expect(modifiesData('with a as (select 1) select * from a')).toBe(false);
+  });
+
+  it('should detect modifying statements', () => {
+    expect(modifiesData('insert into t values (1)')).toBe(true);
+    expect(modifiesData('select 1; delete from t')).toBe(true);
+    expect(
+      modifiesData('with d as (delete from t returning *) select * from d')
+    ).toBe(true);
+    expect(modifiesData('select * into copy from t')).toBe(true);
+    expect(modifiesData("select nextval('seq')")).toBe(true);
+    expect(modifiesData('create table t (id int)')).toBe(true);
+  });
+});
+
+describe('findParameters', () => {
+  it('should include every position up to the highest one used', () => {
+    expect(findParameters('select $3, $1')).toEqual(['$1', '$2', '$3']);
+  });
+
+  it('should add named parameters once, after positional ones', () => {
+    expect(findParameters('select :a, $1, :b, :a')).toEqual(['$1', ':a', ':b']);
+  });
+
+  it('should ignore casts, literals, comments and identifiers', () => {
+    const sql = `select x::int, ':a', "$1", a$1, $$ :b $$ -- :c
+      from t /* $2 */`;
+    expect(findParameters(sql)).toEqual([]);
+  });
+});
+
+describe('bindParameters', () => {
+  it('should replace named parameters with their positions', () => {
+    expect(
+      bindParameters("select :id, $1, ':id' from t where id = :id or x = :x")
+    ).toBe("select $2, $1, ':id' from t where id = $2 or x = $3");
+  });
+});
+
+describe('canStream', () => {
+  it('should accept single statements that only read rows', () => {
+    expect(canStream('select * from t;')).toBe(true);
+    expect(canStream('with a as (select 1) select * from a')).toBe(true);
+  });
+
+  it('should reject scripts, writes and commands without rows', () => {
+    expect(canStream('select 1; select 2')).toBe(false);
+    expect(canStream('delete from t returning *')).toBe(false);
+    expect(canStream('select * into copy from t')).toBe(false);
+    expect(canStream('show search_path')).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import { percentile, summarize } from '../../../frontend/lib/stats';
+
+describe('percentile', () => {
+  it('should interpolate between ranks', () => {
+    expect(percentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(percentile([10, 20], 95)).toBeCloseTo(19.5);
+  });
+
+  it('should return the only value of single value lists', () => {
+    expect(percentile([7], 95)).toBe(7);
+  });
+});
+
+describe('summarize', () => {
+  it('should return undefined without timings', () => {
+    expect(summarize([])).toBeUndefined();
+  });
+
+  it('should summarize unsorted timings', () => {
+    const stats = summarize([4, 2, 8, 6]);
+    expect(stats).toMatchObject({
+      runs: 4,
+      min: 2,
+      median: 5,
+      mean: 5,
+    });
+    expect(stats?.p95).toBeCloseTo(7.7);
+    expect(stats?.stddev).toBeCloseTo(2.582, 3);
+  });
+
+  it('should have no deviation for a single run', () => {
+    expect(summarize([3])?.stddev).toBe(0);
+  });
+});
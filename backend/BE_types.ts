@@ -5,9 +5,51 @@
 export interface ColumnObj {
   column_name: string;
   data_type: string;
+  /**
+   * Of elements for array columns, like numeric_precision and numeric_scale
+   */
   character_maximum_length: number | null;
+  /**
+   * Digits of numeric columns. null if unconstrained
+   */
+  numeric_precision: number | null;
+  /**
+   * Digits after decimal point of numeric columns
+   */
+  numeric_scale: number | null;
   is_nullable: string;
+  column_default: string | null;
+  /**
+   * 'YES' for identity columns
+   */
+  is_identity: string;
+  /**
+   * 'ALWAYS' or 'BY DEFAULT' for identity columns. null otherwise
+   */
+  identity_generation: string | null;
+  /**
+   * 'ALWAYS' for generated columns, which can't be written to. 'NEVER' otherwise
+   */
+  is_generated: string;
+  /**
+   * true if column default draws from a sequence. i.e. serial columns
+   */
+  is_serial: boolean;
+  /**
+   * Type of elements of array columns. ex: integer. null otherwise
+   */
+  element_type: string | null;
+  /**
+   * Labels of enum columns and arrays of enums, in order. null otherwise
+   */
+  enum_labels: string[] | null;
+  /**
+   * Constraint this row of column comes from. Columns of a composite key share
+   * it. null if column has no constraint
+   */
+  constraint_name: string | null;
   constraint_type: string;
+  foreign_schema: string;
   foreign_table: string;
   foreign_column: string;
 }
@@ -19,12 +61,611 @@ export interface TableDetails {
   table_catalog: string;
   table_schema: string;
   table_name: string;
+  /**
+   * schema.table with each part quoted if needed. Safe to use in SQL statements
+   */
+  qualified_name: string;
   is_insertable_into: string;
   columns?: ColumnObj[];
 }
+export interface ConstraintDetails {
+  constraint_name: string;
+  constraint_type:
+    | 'PRIMARY KEY'
+    | 'UNIQUE'
+    | 'CHECK'
+    | 'EXCLUSION'
+    | 'FOREIGN KEY';
+  definition: string;
+  columns: string[];
+  foreign_table: string | null;
+  foreign_columns: string[];
+  on_update: string | null;
+  on_delete: string | null;
+}
+export interface IndexDetails {
+  index_name: string;
+  definition: string;
+  method: string;
+  is_unique: boolean;
+  is_primary: boolean;
+  size: string;
+  idx_scan: string | null;
+  idx_tup_read: string | null;
+  idx_tup_fetch: string | null;
+}
+export interface TableStats {
+  total_size: string;
+  table_size: string;
+  indexes_size: string;
+  estimated_rows: string;
+  n_live_tup: string | null;
+  n_dead_tup: string | null;
+  seq_scan: string | null;
+  idx_scan: string | null;
+  last_vacuum: string | null;
+  last_autovacuum: string | null;
+  last_analyze: string | null;
+  last_autoanalyze: string | null;
+}
+export interface TableInspection {
+  constraints: ConstraintDetails[];
+  indexes: IndexDetails[];
+  stats: TableStats | undefined;
+}
+export interface SchemaDetails {
+  schema_name: string;
+  tables: TableDetails[];
+}
 export interface DBList {
   databaseList: dbDetails[];
-  tableList: TableDetails[];
+  schemaList: SchemaDetails[];
+}
+
+export type DbObjectKind =
+  | 'view'
+  | 'materializedView'
+  | 'function'
+  | 'trigger'
+  | 'sequence'
+  | 'enum';
+
+export interface DbObject {
+  kind: DbObjectKind;
+  schema_name: string;
+  name: string;
+  /**
+   * Name used to identify object in SQL. ex: public.my_view, public.my_func(integer)
+   */
+  qualified_name: string;
+  /**
+   * SQL source of object. View query, function body, CREATE statement, etc.
+   */
+  definition: string | null;
+  /**
+   * Objects this object depends on
+   */
+  dependencies: string[];
+  /**
+   * Objects that depend on this object
+   */
+  dependents: string[];
+  /**
+   * Additional kind specific information. ex: function language, sequence increment
+   */
+  details: Record<string, string | number | boolean | null>;
+}
+
+export interface CatalogColumn {
+  name: string;
+  /**
+   * Full type including modifiers. ex: character varying(255), numeric(10,2)
+   */
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  /**
+   * 'a' for GENERATED ALWAYS, 'd' for GENERATED BY DEFAULT identity columns. Empty otherwise
+   */
+  identity: string;
+}
+
+export interface CatalogConstraint {
+  name: string;
+  type: ConstraintDetails['constraint_type'];
+  definition: string;
+  /**
+   * Table referenced by foreign keys. null for other constraints
+   */
+  referenced_table: string | null;
+}
+
+export interface CatalogIndex {
+  name: string;
+  definition: string;
+}
+
+export interface CatalogTable {
+  schema: string;
+  name: string;
+  qualified_name: string;
+  columns: CatalogColumn[];
+  constraints: CatalogConstraint[];
+  /**
+   * Indexes that don't back a constraint
+   */
+  indexes: CatalogIndex[];
+}
+
+export interface CatalogView {
+  schema: string;
+  name: string;
+  qualified_name: string;
+  materialized: boolean;
+  definition: string;
+  dependencies: string[];
+}
+
+export interface CatalogType {
+  schema: string;
+  name: string;
+  qualified_name: string;
+  /**
+   * Enum labels in sort order
+   */
+  labels: string[];
+}
+
+export interface DbCatalog {
+  schemas: string[];
+  types: CatalogType[];
+  tables: CatalogTable[];
+  views: CatalogView[];
+}
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * Object matched by name across both databases. left is undefined for added
+ * objects, right is undefined for removed objects
+ */
+export interface ObjectDiff<T> {
+  name: string;
+  status: DiffStatus;
+  left?: T;
+  right?: T;
+}
+
+export interface TableDiff extends ObjectDiff<CatalogTable> {
+  columns: ObjectDiff<CatalogColumn>[];
+  constraints: ObjectDiff<CatalogConstraint>[];
+  indexes: ObjectDiff<CatalogIndex>[];
+}
+
+export interface SchemaDiff {
+  left: string;
+  right: string;
+  schemas: ObjectDiff<string>[];
+  types: ObjectDiff<CatalogType>[];
+  tables: TableDiff[];
+  views: ObjectDiff<CatalogView>[];
+}
+
+export type SslMode = 'disable' | 'require' | 'verify-full';
+
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  host: string;
+  port: number;
+  user: string;
+  database: string;
+  sslMode: SslMode;
+}
+
+export interface ProfileList {
+  profiles: ConnectionProfile[];
+  selectedId: string;
+}
+
+export interface Thresholds {
+  percentDuration: number;
+  rowsAccuracy: number;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+}
+
+export interface WorkspaceList {
+  workspaces: Workspace[];
+  selectedId: string;
 }
 
-export type DummyRecords = [string[], ...Array<(string | number)[]>];
+/**
+ * Everything a workspace persists. Queries are stored as sent by the renderer
+ */
+export interface WorkspaceData {
+  queries: Record<string, unknown>;
+  /**
+   * Keys of queries selected for comparison
+   */
+  comparedKeys: string[];
+  thresholds: Thresholds;
+}
+
+/**
+ * How run-query executes a query:
+ * auto - analyzes read only queries in a rolled back transaction and then runs
+ *   them. Queries that modify data run once, inside EXPLAIN ANALYZE
+ * explain - only creates a plan with estimates. Query is not executed
+ * run - only runs query. No plan is created
+ * analyze-rollback - runs EXPLAIN ANALYZE in a transaction that is rolled back
+ */
+export type ExecutionMode = 'auto' | 'explain' | 'run' | 'analyze-rollback';
+
+export interface BenchmarkOptions {
+  /**
+   * Number of timed runs
+   */
+  iterations: number;
+  /**
+   * Number of runs before timed runs whose timings are discarded. Used to warm
+   * up caches
+   */
+  warmup: number;
+}
+
+/**
+ * State of the session transaction opened from query view
+ */
+export interface TransactionStatus {
+  open: boolean;
+  /**
+   * Database transaction was opened on. Undefined if no transaction is open
+   */
+  db?: string;
+  /**
+   * Savepoints of transaction, oldest first
+   */
+  savepoints: string[];
+}
+
+/**
+ * Type a bind parameter is declared as. unknown lets Postgres infer it from
+ * where the parameter is used
+ */
+export type ParameterType =
+  | 'unknown'
+  | 'text'
+  | 'integer'
+  | 'numeric'
+  | 'boolean'
+  | 'date'
+  | 'timestamptz'
+  | 'json';
+
+export interface QueryParameter {
+  /**
+   * Placeholder as written in sql. ex: $1 or :id
+   */
+  name: string;
+  type: ParameterType;
+  /**
+   * Value in Postgres' text format. null binds SQL NULL
+   */
+  value: string | null;
+}
+
+export interface ScriptOptions {
+  /**
+   * Skip remaining statements after one fails. Otherwise every statement runs
+   */
+  stopOnError: boolean;
+  /**
+   * Run all statements in one transaction. With stopOnError a failure rolls
+   * back the whole script, otherwise only the failed statement
+   */
+  transaction: boolean;
+}
+
+export type ResultFormat = 'csv' | 'jsonl' | 'sql' | 'xlsx';
+
+/**
+ * Character encoding of exported text files. utf8-bom prefixes a byte order
+ * mark, which Excel needs to detect UTF-8 in CSV files
+ */
+export type ResultEncoding = 'utf8' | 'utf8-bom' | 'utf16le' | 'latin1';
+
+export interface ResultExportOptions {
+  format: ResultFormat;
+  /**
+   * Separates CSV fields. ex: , or ; or a tab
+   */
+  delimiter: string;
+  /**
+   * Write column names as first CSV or Excel row
+   */
+  header: boolean;
+  /**
+   * Written in place of NULL in CSV files
+   */
+  nullText: string;
+  encoding: ResultEncoding;
+  /**
+   * Table INSERT statements target. May be schema qualified. ex: public.users
+   */
+  tableName: string;
+}
+
+export type ImportFormat = 'csv' | 'json';
+
+export interface ImportOptions {
+  /**
+   * Separates CSV fields
+   */
+  delimiter: string;
+  /**
+   * Encloses CSV fields that contain delimiter, quotes or line breaks
+   */
+  quote: string;
+  /**
+   * First CSV row holds column names
+   */
+  header: boolean;
+}
+
+/**
+ * First rows of file picked for import, with column types inferred from all
+ * of its rows
+ */
+export interface ImportPreview {
+  format: ImportFormat;
+  /**
+   * Names from header row or JSON keys. column1, column2, etc. without header
+   */
+  columns: string[];
+  /**
+   * Postgres type inferred for each column
+   */
+  types: string[];
+  rows: (string | null)[][];
+  /**
+   * Number of rows in whole file
+   */
+  rowCount: number;
+}
+
+/**
+ * Where values of a file column go
+ */
+export interface ImportColumn {
+  /**
+   * Index of column in file
+   */
+  source: number;
+  /**
+   * Name of table column
+   */
+  target: string;
+  /**
+   * Type of table column. Used to validate values and to create new tables
+   */
+  type: string;
+}
+
+export interface ImportRowError {
+  /**
+   * Number of data row in file, starting at 1. Header row isn't counted. 0 if
+   * error isn't about a single row
+   */
+  row: number;
+  message: string;
+}
+
+/**
+ * Outcome of import. Nothing is imported if there are errors
+ */
+export interface ImportResult {
+  rowCount: number;
+  errors: ImportRowError[];
+}
+
+/**
+ * Source of generated values of a column. auto picks a semantic generator
+ * from column's name, type generates any value of column's type
+ */
+export type DummyGenerator =
+  | 'auto'
+  | 'type'
+  | 'firstName'
+  | 'lastName'
+  | 'fullName'
+  | 'username'
+  | 'email'
+  | 'phone'
+  | 'streetAddress'
+  | 'city'
+  | 'country'
+  | 'zipCode'
+  | 'latitude'
+  | 'longitude'
+  | 'company'
+  | 'url'
+  | 'ip'
+  | 'color'
+  | 'word'
+  | 'sentence'
+  | 'paragraph'
+  | 'price'
+  | 'quantity'
+  | 'age'
+  | 'pastDate'
+  | 'futureDate'
+  | 'birthDate';
+
+/**
+ * How generated numbers spread over their range. skewed favors low numbers
+ */
+export type Distribution = 'uniform' | 'normal' | 'skewed';
+
+export interface DummyColumnOptions {
+  generator: DummyGenerator;
+  /**
+   * Bounds of generated numbers. Generator's defaults if undefined
+   */
+  min?: number;
+  max?: number;
+  distribution: Distribution;
+  /**
+   * Share of NULL values, from 0 to 100. Ignored for NOT NULL columns
+   */
+  nullPercent: number;
+  unique: boolean;
+}
+
+/**
+ * Column dummy data is generated for, with generators fitting its type and
+ * options picked for it
+ */
+export interface DummyColumn {
+  column_name: string;
+  data_type: string;
+  nullable: boolean;
+  /**
+   * Can generated values be bounded by min and max?
+   */
+  numeric: boolean;
+  generators: DummyGenerator[];
+  options: DummyColumnOptions;
+}
+
+/**
+ * Record of a dummy data generation, with everything needed to repeat it
+ */
+export interface DummyRun {
+  id: string;
+  /**
+   * Unix time in milliseconds when data was generated
+   */
+  timestamp: number;
+  db: string;
+  schemaName: string;
+  tableName: string;
+  rows: number;
+  seed: number;
+  columns?: Record<string, DummyColumnOptions>;
+}
+
+/**
+ * Progress of dummy data generation, sent while rows are streamed into table
+ */
+export interface DummyDataProgress {
+  rowCount: number;
+  total: number;
+  /**
+   * Table being filled while populating a whole database
+   */
+  table?: string;
+}
+
+/**
+ * Foreign key of a column referencing another table. Tables are qualified
+ * names, as in qualified_name of TableDetails
+ */
+export interface ForeignKeyEdge {
+  table_name: string;
+  column_name: string;
+  foreign_table: string;
+  nullable: boolean;
+}
+
+/**
+ * Order tables are populated in, so every table comes after tables it
+ * references
+ */
+export interface PopulatePlan {
+  order: string[];
+  /**
+   * Nullable foreign keys ignored to break cycles. Their columns are filled
+   * with NULL unless referenced table already has rows
+   */
+  brokenReferences: ForeignKeyEdge[];
+  /**
+   * Cycles of NOT NULL foreign keys. Their tables can only be populated if
+   * one of them already has rows
+   */
+  cycles: string[][];
+}
+
+export interface PopulateTable {
+  schemaName: string;
+  tableName: string;
+  qualifiedName: string;
+  rows: number;
+}
+
+/**
+ * Summary of populating a database
+ */
+export interface PopulateReport {
+  seed: number;
+  /**
+   * Tables in order they were filled. Empty if population failed.
+   * selfReferences are nullable columns referencing their own table, which had
+   * no rows, filled with inserted rows once they were all inserted
+   */
+  tables: {
+    qualifiedName: string;
+    rowCount: number;
+    duration: number;
+    selfReferences: string[];
+  }[];
+  brokenReferences: ForeignKeyEdge[];
+  /**
+   * Error population failed with, and table it failed on. Every insert is
+   * rolled back if population fails
+   */
+  error?: string;
+  failedTable?: string;
+}
+
+/**
+ * Outcome of one statement of a multi statement script
+ */
+export interface StatementResult {
+  sqlString: string;
+  returnedRows?: Record<string, unknown>[];
+  explainResults?: Record<string, any>[];
+  error?: string;
+}
+
+/**
+ * Record of a single query execution kept in query history
+ */
+export interface HistoryEntry {
+  id: string;
+  /**
+   * Unix time in milliseconds when execution started
+   */
+  timestamp: number;
+  db: string;
+  /**
+   * SQL as user wrote it, with :name placeholders
+   */
+  sqlString: string;
+  /**
+   * Values bound to placeholders of sqlString, if any
+   */
+  params?: QueryParameter[];
+  /**
+   * Wall clock duration of execution in milliseconds
+   */
+  duration: number;
+  /**
+   * Number of rows returned. Undefined if query failed
+   */
+  rowCount?: number;
+  error?: string;
+}
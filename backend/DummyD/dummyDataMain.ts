@@ -1,16 +1,17 @@
 import faker from 'faker';
-import { ColumnObj, DummyRecords } from '../BE_types';
-
-const db = require('../models');
+import { ColumnObj, DummyColumnOptions } from '../BE_types';
+import helperFunctions from '../helperFunctions';
+import { createColumnGenerator } from './semanticGenerators';
+import { random, randomPermutation, seedRandom } from './random';
 
 /*   THIS FILE CONTAINS THE ALGORITHMS THAT GENERATE DUMMY DATA    */
 /*                                                                 */
 /* - The async function below is called in channels.ts             */
 /* - This process runs for each table where data is requested      */
-/* - generateDummyData creates dummy data values in a table matrix */
-/* - This matrix is returned inside the resolved promise, and is   */
-/*     subsequently concatenated into the INSERT query generated   */
-/*     in channels.ts to generate the dummy records for the table  */
+/* - generateDummyData creates a function that generates a batch  */
+/*     of rows of dummy data values at a time                      */
+/* - channels.ts streams the rows in batches into the table with   */
+/*     COPY, so memory stays flat regardless of the row count      */
 
 
 // *************************************************** Helper Functions *************************************************** //
@@ -20,31 +21,79 @@ const getRandomInt = (min: number, max: number) => {
   const minInt = Math.ceil(min);
   const maxInt = Math.floor(max);
   // The maximum is exclusive and the minimum is inclusive
-  return Math.floor(Math.random() * (maxInt - minInt) + minInt); 
+  return Math.floor(random() * (maxInt - minInt) + minInt); 
+};
+
+
+// pads number to two digits. ex: 7 -> 07
+const twoDigits = (n: number) => n.toString().padStart(2, '0');
+
+// random time of day. ex: 13:05:59
+const randomTime = () =>
+  `${twoDigits(getRandomInt(0, 24))}:${twoDigits(
+    getRandomInt(0, 60)
+  )}:${twoDigits(getRandomInt(0, 60))}`;
+
+// random number that fits numeric(precision, scale). Whole part is kept to at
+// most 6 digits so values stay readable
+const randomNumeric = (precision: number, scale: number) => {
+  const wholeDigits = Math.min(precision - scale, 6);
+  const whole = wholeDigits > 0 ? getRandomInt(0, 10 ** wholeDigits) : 0;
+  const fraction = Array.from({ length: scale }, () =>
+    getRandomInt(0, 10)
+  ).join('');
+  const sign = faker.random.boolean() ? '-' : '';
+  return `${sign}${whole}${scale > 0 ? `.${fraction}` : ''}`;
 };
 
+// a few words, cut to fit columns of limited length
+const randomText = (maxLength: number | null) => {
+  const text = faker.lorem.words(getRandomInt(1, 6));
+  return maxLength ? text.slice(0, maxLength) : text;
+};
+
+// Postgres array literal of values. ex: {"a","b"}
+const arrayLiteral = (values: string[]) =>
+  `{${values
+    .map((value) => `"${value.replace(/["\\]/g, '\\$&')}"`)
+    .join(',')}}`;
 
-// helper function to generate random data based on a given column's data type
-const generateDataByType = (columnObj: ColumnObj): string | number => {
-  let length;
+// helper function to generate random data based on a given column's data type.
+// Returns value in Postgres' text format, so it can be quoted as a literal of any type
+export const generateDataByType = (columnObj: ColumnObj): string => {
   // faker.js method to generate data by type
   switch (columnObj.data_type) {
     case 'smallint':
-      return faker.random.number({ min: -32768, max: 32767 });
+      return faker.random.number({ min: -32768, max: 32767 }).toString();
     case 'integer':
-      return faker.random.number({ min: -2147483648, max: 2147483647 });
+      return faker.random
+        .number({ min: -2147483648, max: 2147483647 })
+        .toString();
     case 'bigint':
-      return faker.random.number({
-        min: -9223372036854775808,
-        max: 9223372036854775807,
-      });
+      // doubles can't represent the whole bigint range exactly
+      return faker.random
+        .number({
+          min: Number.MIN_SAFE_INTEGER,
+          max: Number.MAX_SAFE_INTEGER,
+        })
+        .toString();
+    case 'numeric':
+      // unconstrained numeric columns get a money-like scale
+      return randomNumeric(
+        columnObj.numeric_precision ?? 10,
+        columnObj.numeric_scale ?? 2
+      );
+    case 'real':
+    case 'double precision':
+      return faker.random
+        .number({ min: -1000000, max: 1000000, precision: 0.001 })
+        .toString();
+    case 'money':
+      return randomNumeric(8, 2);
     case 'character varying':
-      // defaulting length to 3 because faker.lorem defaults to a length of 3 if no length is specified
-
-      length = columnObj.character_maximum_length && columnObj.character_maximum_length < 3
-        ? Math.floor(Math.random() * columnObj.character_maximum_length)
-        : 3;
-      return '\''.concat(faker.random.alphaNumeric(length)).concat('\'');
+    case 'character':
+    case 'text':
+      return randomText(columnObj.character_maximum_length);
     case 'date': {
       // generating a random date between 1500 and 2020
       const year = getRandomInt(1500, 2020).toString();
@@ -52,62 +101,428 @@ const generateDataByType = (columnObj: ColumnObj): string | number => {
       if (month.length === 1) month = `0${month}`;
       let day = getRandomInt(1, 29).toString();
       if (day.length === 1) day = `0${day}`;
-      const result = `${year}/${month}/${day}`;
-      return '\''.concat(result).concat('\'');
+      return `${year}/${month}/${day}`;
     }
-    case 'boolean': {
-      return '\''.concat(faker.random.boolean()).concat('\'');
+    case 'timestamp without time zone':
+    case 'timestamp with time zone':
+      return faker.date.between('2000-01-01', '2030-12-31').toISOString();
+    case 'time without time zone':
+      return randomTime();
+    case 'time with time zone':
+      return `${randomTime()}+00`;
+    case 'interval':
+      return `${getRandomInt(0, 365)} days ${randomTime()}`;
+    case 'boolean':
+      return faker.random.boolean().toString();
+    case 'uuid':
+      return faker.random.uuid();
+    case 'json':
+    case 'jsonb':
+      return JSON.stringify({
+        [faker.lorem.word()]: faker.lorem.words(),
+        count: faker.random.number(100),
+      });
+    case 'inet':
+      return faker.internet.ip();
+    case 'cidr':
+      // host bits of cidr values must be zero
+      return `${faker.internet.ip().replace(/\.\d+$/, '.0')}/24`;
+    case 'macaddr':
+      return faker.internet.mac();
+    case 'bytea':
+      // hex format. ex: \x1f8b
+      return `\\x${faker.random.hexaDecimal(16).slice(2)}`;
+    case 'USER-DEFINED':
+      // enums. Other user defined types can't be generated
+      if (columnObj.enum_labels?.length)
+        return faker.random.arrayElement(columnObj.enum_labels);
+      throw new Error(`unhandled data type ${columnObj.data_type}`);
+    case 'ARRAY': {
+      // length, precision and scale of array columns are of their elements
+      const element: ColumnObj = {
+        ...columnObj,
+        data_type: columnObj.enum_labels
+          ? 'USER-DEFINED'
+          : columnObj.element_type ?? '',
+      };
+      return arrayLiteral(
+        Array.from({ length: getRandomInt(0, 4) }, () =>
+          generateDataByType(element)
+        )
+      );
     }
     default:
       // console.log('Error generating dummy data by type');
-      throw new Error('unhandled data type');
+      throw new Error(`unhandled data type ${columnObj.data_type}`);
   }
 };
 
 // *************************************************** Main Function to Generate Dummy Data *************************************************** //
 
-type GenerateDummyData = (tableInfo: ColumnObj[], numRows: number) => Promise<DummyRecords>;
-
-const generateDummyData: GenerateDummyData = async (tableInfo: ColumnObj[], numRows: number) => {
-  // assuming primary key is serial, get all the column names except for the column with the primary key
-  const columnNames = tableInfo.reduce((acc: string[], curr: ColumnObj) => {
-    if (curr.constraint_type !== 'PRIMARY KEY') acc.push(curr.column_name);
-    return acc;
-  }, []);
-  const dummyRecords: DummyRecords = [columnNames];
-
-  // generate dummy records for each row
-  for (let i = 0; i < numRows; i += 1) {
-    const row: (string | number)[] = [];
-    // at each row, check the columns of the table and generate dummy data accordingly
-    for (let j = 0; j < tableInfo.length; j += 1) {
-      // if column has no foreign key constraint, then generate dummy data based on data type
+// runs a query on the client rows are inserted with, so rows inserted earlier
+// in the same transaction can be referenced
+type Query = (sql: string, values?: unknown[]) => Promise<any>;
+
+// distinct keys of table referenced by columnObj, as text like generated
+// values, numbered from 0 in a stable order, so seeded runs draw the same keys
+const numberedKeysQuery = (columnObj: ColumnObj) => {
+  const foreignColumn = helperFunctions.quoteIdent(columnObj.foreign_column);
+  const foreignTable = helperFunctions.qualifiedName(
+    columnObj.foreign_schema,
+    columnObj.foreign_table
+  );
+  return `
+    SELECT value, row_number() OVER (ORDER BY value COLLATE "C") - 1 AS n
+    FROM (
+      SELECT DISTINCT ${foreignColumn}::text AS value
+      FROM ${foreignTable}
+      WHERE ${foreignColumn} IS NOT NULL
+    ) distinct_keys
+  `;
+};
+
+// temporary table holding numbered keys of foreign key column at given index
+const keysTable = (index: number) => `seeqr_dummy_keys_${index}`;
+
+// Numbers keys of table referenced by columnObj into a temporary table indexed
+// on n, so the referenced table is read and sorted once rather than once per
+// batch. It is dropped at the end of the transaction rows are inserted in.
+// Resolves to number of keys foreign key values of column are drawn from.
+// Nullable columns referencing empty tables are filled with NULL
+const numberForeignKeys = async (
+  columnObj: ColumnObj,
+  table: string,
+  query: Query
+): Promise<number> => {
+  // table of an earlier run in the same session transaction
+  await query(`DROP TABLE IF EXISTS pg_temp.${table}`);
+  await query(
+    `CREATE TEMP TABLE ${table} ON COMMIT DROP AS ${numberedKeysQuery(
+      columnObj
+    )}`
+  );
+  await query(`CREATE UNIQUE INDEX ON pg_temp.${table} (n)`);
+  const result = await query(
+    `SELECT count(*) AS count FROM pg_temp.${table}`
+  );
+  const count = Number(result.rows[0].count);
+  if (!count && columnObj.is_nullable !== 'YES')
+    throw new Error(
+      `${columnObj.foreign_table} has no rows for ${columnObj.column_name} to reference`
+    );
+  return count;
+};
+
+// keys at given positions of table filled by numberForeignKeys, in order of
+// positions. Only keys drawn for one batch of rows are fetched, so memory
+// stays flat however many rows referenced table has
+const fetchForeignKeys = async (
+  table: string,
+  positions: number[],
+  query: Query
+): Promise<string[]> => {
+  const result = await query(
+    `
+    SELECT keys.value
+    FROM unnest($1::bigint[]) WITH ORDINALITY AS pick(n, ord)
+    JOIN pg_temp.${table} keys USING (n)
+    ORDER BY pick.ord
+  `,
+    [positions]
+  );
+  return result.rows.map(({ value }: { value: string }) => value);
+};
+
+// rows whose self reference is set by one UPDATE of fillSelfReference
+const SELF_REFERENCE_BATCH = 10000;
+
+// Sets nullable foreign key column referencing its own table, which was NULL
+// since table had no rows to reference, once rows are inserted. Rows are
+// numbered by their key in referenced column, which only the inserted rows
+// have. Every row but the first references a random earlier one, so references
+// form trees instead of cycles. Unique columns reference the row right before.
+// Resolves to number of rows set
+const fillSelfReference = async (
+  columnObj: ColumnObj,
+  unique: boolean,
+  table: string,
+  query: Query
+): Promise<number> => {
+  const foreignColumn = helperFunctions.quoteIdent(columnObj.foreign_column);
+  const foreignTable = helperFunctions.qualifiedName(
+    columnObj.foreign_schema,
+    columnObj.foreign_table
+  );
+  await query(`DROP TABLE IF EXISTS pg_temp.${table}`);
+  await query(`
+    CREATE TEMP TABLE ${table} ON COMMIT DROP AS
+    SELECT ${foreignColumn} AS key,
+      row_number() OVER (ORDER BY ${foreignColumn}::text COLLATE "C") - 1 AS n
+    FROM ${foreignTable}
+    WHERE ${foreignColumn} IS NOT NULL
+  `);
+  await query(`CREATE UNIQUE INDEX ON pg_temp.${table} (n)`);
+  const result = await query(
+    `SELECT count(*) AS count FROM pg_temp.${table}`
+  );
+  const count = Number(result.rows[0].count);
+
+  for (let first = 1; first < count; first += SELF_REFERENCE_BATCH) {
+    const children = Array.from(
+      { length: Math.min(SELF_REFERENCE_BATCH, count - first) },
+      (_, i) => first + i
+    );
+    const parents = children.map((n) =>
+      unique ? n - 1 : Math.floor(random() * n)
+    );
+    // batches are updated one after the other on the same client
+    // eslint-disable-next-line no-await-in-loop
+    await query(
+      `
+      UPDATE ${foreignTable} AS child
+      SET ${helperFunctions.quoteIdent(columnObj.column_name)} = parent.key
+      FROM unnest($1::bigint[], $2::bigint[]) AS pick(child_n, parent_n)
+      JOIN pg_temp.${table} own ON own.n = pick.child_n
+      JOIN pg_temp.${table} parent ON parent.n = pick.parent_n
+      WHERE child.${foreignColumn} = own.key
+    `,
+      [children, parents]
+    );
+  }
+  return Math.max(count - 1, 0);
+};
+
+// constraints a column row can come from, in order of preference when merging
+const constraintPreference = ['FOREIGN KEY', 'PRIMARY KEY', 'UNIQUE'];
+
+// getTableInfo returns a row per constraint of each column. Merges them into
+// one row per column, keeping the foreign key row, since its value must come
+// from referenced table
+export const mergeColumns = (tableInfo: ColumnObj[]): ColumnObj[] => {
+  const rank = ({ constraint_type }: ColumnObj) => {
+    const index = constraintPreference.indexOf(constraint_type);
+    return index === -1 ? constraintPreference.length : index;
+  };
+  const merged = new Map<string, ColumnObj>();
+  tableInfo.forEach((column) => {
+    const kept = merged.get(column.column_name);
+    if (!kept || rank(column) < rank(kept))
+      merged.set(column.column_name, column);
+  });
+  return [...merged.values()];
+};
+
+// primary keys and unique columns. Their generated values must not repeat
+const isKey = ({ constraint_type }: ColumnObj) =>
+  constraint_type === 'PRIMARY KEY' || constraint_type === 'UNIQUE';
+
+// Columns dummy data is generated for, one row per column. Generated columns,
+// which COPY can't write, and primary keys filled by their default, like
+// serial and identity columns, are left out
+export const filledColumns = (tableInfo: ColumnObj[]): ColumnObj[] => {
+  const primaryKey = tableInfo
+    .filter(({ constraint_type }) => constraint_type === 'PRIMARY KEY')
+    .map(({ column_name }) => column_name);
+  return mergeColumns(tableInfo).filter(
+    (column) =>
+      column.is_generated !== 'ALWAYS' &&
+      (!primaryKey.includes(column.column_name) ||
+        !(
+          column.is_serial ||
+          column.is_identity === 'YES' ||
+          column.column_default !== null
+        ))
+  );
+};
+
+const isForeignKey = ({ constraint_type }: ColumnObj) =>
+  constraint_type === 'FOREIGN KEY';
+
+// Primary and unique keys made only of foreign key columns, as indexes into
+// columns, smallest first. Random draws of foreign keys would repeat them.
+// Keys with any other column are unique already, since that column gets
+// unique values or is filled by its default
+const foreignKeyKeys = (tableInfo: ColumnObj[], columns: ColumnObj[]) => {
+  const keys = new Map<string, number[]>();
+  tableInfo.forEach((column) => {
+    if (!isKey(column) || !column.constraint_name) return;
+    keys.set(column.constraint_name, [
+      ...(keys.get(column.constraint_name) ?? []),
+      columns.findIndex(
+        ({ column_name }) => column_name === column.column_name
+      ),
+    ]);
+  });
+  return [...keys.values()]
+    .filter((key) => key.every((j) => j !== -1 && isForeignKey(columns[j])))
+    .sort((a, b) => a.length - b.length);
+};
+
+// Positions of foreign keys at each row index, for columns of keys from
+// foreignKeyKeys. Each key's columns draw a distinct combination of
+// positions per row. Throws before anything is inserted if referenced
+// tables have fewer combinations than rows requested
+const distinctKeyPositions = (
+  keys: number[][],
+  columns: ColumnObj[],
+  keyCounts: number[],
+  rows: number
+) => {
+  const positions = new Map<number, (index: number) => number>();
+  keys.forEach((key) => {
+    // a NULL column never repeats a key. Keys sharing a column with a smaller
+    // key keep its draws, which already make them distinct if they contain it
+    if (key.some((j) => positions.has(j) || !keyCounts[j])) return;
+    const counts = key.map((j) => keyCounts[j]);
+    const combinations = counts.reduce((product, count) => product * count, 1);
+    if (combinations < rows) {
+      const names = key.map((j) => columns[j].column_name).join(', ');
+      throw new Error(
+        `Unique ${names} can only take ${combinations} distinct keys from referenced tables, fewer than the ${rows} rows requested`
+      );
+    }
+    const combination = randomPermutation(combinations);
+    // combination is split into a position per column, like digits of a
+    // number whose digit k counts up to counts[k]
+    key.forEach((j, k) => {
+      const below = counts
+        .slice(0, k)
+        .reduce((product, count) => product * count, 1);
+      positions.set(
+        j,
+        (index) => Math.floor(combination(index) / below) % counts[k]
+      );
+    });
+  });
+  return positions;
+};
+
+interface DummyRows {
+  /**
+   * Columns values are generated for, in order. Primary keys filled by their
+   * default are left out
+   */
+  columns: ColumnObj[];
+  /**
+   * Generates values of next count rows as text, or null. Foreign keys are
+   * looked up with query, so it must not run while a COPY is in progress
+   */
+  nextRows: (count: number) => Promise<(string | null)[][]>;  /**
+   * Fills nullable foreign keys referencing table itself, given by schema and
+   * name, that were generated as NULL since it had no rows. Call once all rows
+   * are inserted. Resolves to names of columns filled
+   */
+  fillSelfReferences: (
+    schemaName: string,
+    tableName: string
+  ) => Promise<string[]>;
+}
+
+type GenerateDummyData = (
+  tableInfo: ColumnObj[],
+  columnOptions: Record<string, Partial<DummyColumnOptions>> | undefined,
+  rows: number,
+  seed: number,
+  query: Query
+) => Promise<DummyRows>;
+
+const generateDummyData: GenerateDummyData = async (
+  tableInfo: ColumnObj[],
+  columnOptions = {},
+  rows,
+  seed,
+  query
+) => {
+  // same seed generates same records
+  seedRandom(seed);
+
+  // serial and identity keys fill themselves, other keys get unique values
+  const columns = filledColumns(tableInfo);
+
+  // semantic generators picked from column names, or generators overridden by user
+  const generators = columns.map((column) =>
+    createColumnGenerator(
+      column,
+      isKey(column)
+        ? { ...columnOptions[column.column_name], unique: true }
+        : columnOptions[column.column_name],
+      generateDataByType
+    )
+  );
+
+  // number of keys of foreign tables, for columns with a foreign key constraint
+  const keyCounts = await Promise.all(
+    columns.map((column, j) =>
+      isForeignKey(column)
+        ? numberForeignKeys(column, keysTable(j), query)
+        : 0
+    )
+  );
+  // foreign keys that are part of unique keys are drawn without replacement
+  const keyPositions = distinctKeyPositions(
+    foreignKeyKeys(tableInfo, columns),
+    columns,
+    keyCounts,
+    rows
+  );
+
+  // index of next row, which unique values are built from
+  let rowIndex = 0;
+
+  // at each row, check the columns of the table and generate dummy data accordingly
+  const nextRows = async (count: number) => {
+    const first = rowIndex;
+    rowIndex += count;
+    // if there is a foreign key constraint, grab random keys from foreign table
+    const foreignKeys = await Promise.all(
+      columns.map((column, j) =>
+        isForeignKey(column) && keyCounts[j]
+          ? fetchForeignKeys(
+              keysTable(j),
+              Array.from({ length: count }, (_, i) => {
+                const position = keyPositions.get(j);
+                return position
+                  ? position(first + i)
+                  : Math.floor(random() * keyCounts[j]);
+              }),
+              query
+            )
+          : []
+      )
+    );
+    return Array.from({ length: count }, (_, i) =>
+      columns.map((column, j) => {
+        if (isForeignKey(column)) return foreignKeys[j][i] ?? null;
+        // otherwise generate dummy data based on column's name and data type
+        return generators[j](first + i);
+      })
+    );
+  };
+
+  const fillSelfReferences = async (schemaName: string, tableName: string) => {
+    const filled: string[] = [];
+    for (let j = 0; j < columns.length; j += 1) {
+      const column = columns[j];
       if (
-        tableInfo[j].constraint_type !== 'FOREIGN KEY' &&
-        tableInfo[j].constraint_type !== 'PRIMARY KEY'
-      ) row.push(generateDataByType(tableInfo[j]));
-      
-      // if there is a foreign key constraint, grab random key from foreign table 
-      else if (tableInfo[j].constraint_type === 'FOREIGN KEY') {
-        try {
-          const foreignColumn = tableInfo[j].foreign_column;
-          const foreignTable = tableInfo[j].foreign_table;
-          const getForeignKeyQuery = `
-            SELECT ${foreignColumn}
-            FROM ${foreignTable} TABLESAMPLE BERNOULLI(50)
-            LIMIT 1
-          `;
-          const foreignKey = await db.query(getForeignKeyQuery);
-          if (foreignKey.rows.length) row.push(foreignKey.rows[0]['_id']);
-          else return new Error('There was an error while retrieving a valid foreign key.');
-        } catch(err) {
-          return err;
-        }
+        isForeignKey(column) &&
+        !keyCounts[j] &&
+        column.foreign_schema === schemaName &&
+        column.foreign_table === tableName
+      ) {
+        // a column may be in a unique key through another of its rows
+        const unique = tableInfo.some(
+          (info) => info.column_name === column.column_name && isKey(info)
+        );
+        // each column reuses temporary table of its keys, one after the other
+        // eslint-disable-next-line no-await-in-loop
+        if (await fillSelfReference(column, unique, keysTable(j), query))
+          filled.push(column.column_name);
       }
     }
-    dummyRecords.push(row);
-  }
-  return dummyRecords;
+    return filled;
+  };
+
+  return { columns, nextRows, fillSelfReferences };
 };
 
 export default generateDummyData;
@@ -0,0 +1,23 @@
+import { DummyRun } from '../BE_types';
+import { appendToLog, readStore } from '../storage';
+
+/**
+ * Log of dummy data generations, newest first, so a run can be repeated with
+ * the same seed. Oldest runs are dropped once the log is full
+ */
+
+const RUNS_FILE = 'dummy-runs.json';
+
+const MAX_RUNS = 200;
+
+/**
+ * Returns all runs, newest first
+ */
+export const getDummyRuns = (): DummyRun[] =>
+  readStore<DummyRun[]>(RUNS_FILE, []);
+
+/**
+ * Adds run to log and returns the stored run
+ */
+export const addDummyRun = (run: Omit<DummyRun, 'id'>): DummyRun =>
+  appendToLog(RUNS_FILE, run, MAX_RUNS);
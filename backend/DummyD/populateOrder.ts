@@ -0,0 +1,99 @@
+import { ForeignKeyEdge, PopulatePlan } from '../BE_types';
+
+/**
+ * Orders tables of a database so each one is populated after the tables its
+ * foreign keys reference
+ */
+
+/**
+ * Finds a cycle among unplaced tables by following their foreign keys until a
+ * table repeats. Every unplaced table references another unplaced one, or it
+ * would have been placed, so the walk always finds one
+ */
+const findCycle = (start: string, edges: ForeignKeyEdge[]) => {
+  // first foreign key of each table
+  const next = new Map<string, ForeignKeyEdge>();
+  edges.forEach((edge) => {
+    if (!next.has(edge.table_name)) next.set(edge.table_name, edge);
+  });
+  const path: ForeignKeyEdge[] = [];
+  const visited = [start];
+  let table = start;
+  for (;;) {
+    const edge = next.get(table);
+    if (!edge) return [];
+    path.push(edge);
+    const seenAt = visited.indexOf(edge.foreign_table);
+    if (seenAt !== -1) return path.slice(seenAt);
+    visited.push(edge.foreign_table);
+    table = edge.foreign_table;
+  }
+};
+
+/**
+ * Topologically orders tables by their foreign keys. Tables are placed in
+ * given order whenever nothing forces otherwise. Cycles are broken at a
+ * nullable foreign key. Cycles of NOT NULL foreign keys, including NOT NULL
+ * self references, are reported and their tables placed anyway
+ */
+const orderTables = (
+  tables: string[],
+  edges: ForeignKeyEdge[]
+): PopulatePlan => {
+  const included = new Set(tables);
+  // self references are filled from rows table already has, or nullable ones
+  // from its own rows once they're inserted, so they never hold a table back
+  let remaining = edges.filter(
+    ({ table_name, foreign_table }) =>
+      included.has(table_name) &&
+      included.has(foreign_table) &&
+      table_name !== foreign_table
+  );
+  const cycles: string[][] = edges
+    .filter(
+      ({ table_name, foreign_table, nullable }) =>
+        included.has(table_name) && table_name === foreign_table && !nullable
+    )
+    .map(({ table_name }) => [table_name]);
+  const brokenReferences: ForeignKeyEdge[] = [];
+  const order: string[] = [];
+  const placed = new Set<string>();
+
+  // tables whose referenced tables are all placed
+  const isReady = (table: string) =>
+    !placed.has(table) &&
+    remaining.every(
+      ({ table_name, foreign_table }) =>
+        table_name !== table || placed.has(foreign_table)
+    );
+
+  const place = (table: string) => {
+    order.push(table);
+    placed.add(table);
+    remaining = remaining.filter(({ table_name }) => table_name !== table);
+  };
+
+  while (order.length < tables.length) {
+    const ready = tables.filter(isReady);
+    if (ready.length) {
+      ready.forEach(place);
+    } else {
+      const start = tables.find((table) => !placed.has(table)) as string;
+      const cycle = findCycle(
+        start,
+        remaining.filter(({ foreign_table }) => !placed.has(foreign_table))
+      );
+      const breakable = cycle.find(({ nullable }) => nullable);
+      if (breakable) {
+        brokenReferences.push(breakable);
+        remaining = remaining.filter((edge) => edge !== breakable);
+      } else {
+        cycles.push(cycle.map(({ table_name }) => table_name));
+        place(cycle[0]?.table_name ?? start);
+      }
+    }
+  }
+  return { order, brokenReferences, cycles };
+};
+
+export default orderTables;
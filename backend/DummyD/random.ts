@@ -0,0 +1,73 @@
+import faker from 'faker';
+
+/**
+ * Seedable source of randomness for dummy data. Generators use random and
+ * faker instead of Math.random, so seeding both makes a run repeatable
+ */
+
+/**
+ * Dates generated relative to now, like created_at, are relative to this date
+ * instead, so a seed gives the same dates on any day
+ */
+export const REFERENCE_DATE = new Date('2021-01-01T00:00:00Z');
+
+let state = 0;
+
+/**
+ * Random seed for runs not given one
+ */
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+/**
+ * Resets random and faker to sequences determined by seed
+ */
+export const seedRandom = (seed: number) => {
+  state = seed;
+  faker.seed(seed);
+};
+
+/* eslint-disable no-bitwise */
+/**
+ * Number from 0 up to but not including 1, like Math.random. Uses mulberry32
+ */
+export const random = () => {
+  state = (state + 0x6d2b79f5) | 0;
+  let t = Math.imul(state ^ (state >>> 15), 1 | state);
+  t ^= t + Math.imul(t ^ (t >>> 7), 61 | t);
+  return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+};
+/* eslint-enable no-bitwise */
+
+// largest size of randomPermutation. Sums of positions stay exact below it
+const MAX_PERMUTATION = 2 ** 52;
+
+const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : a);
+
+// a * b % m without losing precision to doubles, by adding up doublings of a
+const mulMod = (a: number, b: number, m: number) => {
+  let result = 0;
+  let doubled = a % m;
+  let rest = b;
+  while (rest > 0) {
+    if (rest % 2 === 1) result = (result + doubled) % m;
+    doubled = (doubled * 2) % m;
+    rest = Math.floor(rest / 2);
+  }
+  return result;
+};
+
+/**
+ * Seeded shuffle of positions 0 to size - 1, returned as a function from
+ * index to position. Different indexes always get different positions, so
+ * distinct values can be drawn without remembering the ones drawn before.
+ * Sizes beyond 2^52 are cut to it
+ */
+export const randomPermutation = (size: number) => {
+  const positions = Math.max(1, Math.min(Math.floor(size), MAX_PERMUTATION));
+  // stepping by a stride coprime with size visits every position once
+  let stride = 1 + Math.floor(random() * (positions - 1));
+  while (gcd(stride, positions) !== 1) stride -= 1;
+  const offset = Math.floor(random() * positions);
+  return (index: number) =>
+    (offset + mulMod(index % positions, stride, positions)) % positions;
+};
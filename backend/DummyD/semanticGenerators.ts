@@ -0,0 +1,418 @@
+import faker from 'faker';
+import {
+  ColumnObj,
+  DummyColumn,
+  DummyColumnOptions,
+  DummyGenerator,
+  Distribution,
+} from '../BE_types';
+import { random, randomPermutation, REFERENCE_DATE } from './random';
+
+/**
+ * Generators of realistic values picked from column names, ex: email or
+ * created_at, plus the per column options users can override them with
+ */
+
+type ColumnKind = 'text' | 'number' | 'date' | 'inet';
+
+// kind of values a column of given type holds
+const kindOf = (dataType: string): ColumnKind | undefined => {
+  if (/^(text|character varying|character|citext)$/.test(dataType))
+    return 'text';
+  if (
+    /^(smallint|integer|bigint|numeric|real|double precision|money)$/.test(
+      dataType
+    )
+  )
+    return 'number';
+  if (/^(date|timestamp)/.test(dataType)) return 'date';
+  if (dataType === 'inet') return 'inet';
+  return undefined;
+};
+
+const integerTypes = ['smallint', 'integer', 'bigint'];
+
+// largest absolute value column holds when written with given decimals.
+// numeric(4,2) holds up to 99.99. Infinity when type has no practical limit
+const largestValue = (
+  { data_type, numeric_precision, numeric_scale }: ColumnObj,
+  decimals: number
+) => {
+  if (data_type === 'smallint') return 32767;
+  if (data_type === 'integer') return 2147483647;
+  if (data_type === 'bigint') return Number.MAX_SAFE_INTEGER;
+  if (data_type === 'numeric' && numeric_precision !== null)
+    return 10 ** (numeric_precision - (numeric_scale ?? 0)) - 10 ** -decimals;
+  return Infinity;
+};
+
+type SemanticName = Exclude<DummyGenerator, 'auto' | 'type'>;
+
+interface SemanticGenerator {
+  /**
+   * Kinds of columns generator's values fit in
+   */
+  kinds: ColumnKind[];
+  /**
+   * Generates value as text. Number generators use range instead
+   */
+  generate?: () => string;
+  /**
+   * Default bounds and decimals of number generators
+   */
+  range?: [number, number];
+  decimals?: number;
+}
+
+const past = () => faker.date.past(5, REFERENCE_DATE).toISOString();
+
+export const semanticGenerators: Record<SemanticName, SemanticGenerator> = {
+  firstName: { kinds: ['text'], generate: () => faker.name.firstName() },
+  lastName: { kinds: ['text'], generate: () => faker.name.lastName() },
+  fullName: { kinds: ['text'], generate: () => faker.name.findName() },
+  username: { kinds: ['text'], generate: () => faker.internet.userName() },
+  email: { kinds: ['text'], generate: () => faker.internet.email() },
+  phone: { kinds: ['text'], generate: () => faker.phone.phoneNumber() },
+  streetAddress: {
+    kinds: ['text'],
+    generate: () => faker.address.streetAddress(),
+  },
+  city: { kinds: ['text'], generate: () => faker.address.city() },
+  country: { kinds: ['text'], generate: () => faker.address.country() },
+  zipCode: { kinds: ['text'], generate: () => faker.address.zipCode() },
+  company: { kinds: ['text'], generate: () => faker.company.companyName() },
+  url: { kinds: ['text'], generate: () => faker.internet.url() },
+  ip: { kinds: ['text', 'inet'], generate: () => faker.internet.ip() },
+  color: { kinds: ['text'], generate: () => faker.commerce.color() },
+  word: { kinds: ['text'], generate: () => faker.lorem.word() },
+  sentence: { kinds: ['text'], generate: () => faker.lorem.sentence() },
+  paragraph: { kinds: ['text'], generate: () => faker.lorem.paragraph() },
+  price: { kinds: ['number'], range: [1, 1000], decimals: 2 },
+  quantity: { kinds: ['number'], range: [0, 100], decimals: 0 },
+  age: { kinds: ['number'], range: [18, 90], decimals: 0 },
+  latitude: { kinds: ['number'], range: [-90, 90], decimals: 6 },
+  longitude: { kinds: ['number'], range: [-180, 180], decimals: 6 },
+  pastDate: { kinds: ['date'], generate: past },
+  futureDate: {
+    kinds: ['date'],
+    generate: () => faker.date.future(5, REFERENCE_DATE).toISOString(),
+  },
+  birthDate: {
+    kinds: ['date'],
+    generate: () =>
+      faker.date.between('1940-01-01', '2005-12-31').toISOString(),
+  },
+};
+
+// column name patterns and generator they suggest, most specific first. Words
+// are matched whole between underscores, so count doesn't match account_number
+const namePatterns: [RegExp, SemanticName][] = [
+  [/(^|_)e_?mail(_|$)/, 'email'],
+  [/^(first|given)_?name$/, 'firstName'],
+  [/^(last|family|sur)_?name$/, 'lastName'],
+  [/^(user_?name|login|handle)$/, 'username'],
+  [/^(full_?)?name$/, 'fullName'],
+  [/(^|_)(phone|mobile|fax)(_|$)/, 'phone'],
+  [/(^|_)(zip|postal)(_?code)?$/, 'zipCode'],
+  [/(^|_)city$/, 'city'],
+  [/(^|_)country$/, 'country'],
+  [/(^|_)ip(_?address)?$/, 'ip'],
+  [/(^|_)(street|address)(_|\d|$)/, 'streetAddress'],
+  [/(^|_)(company|organi[sz]ation|employer)(_|$)/, 'company'],
+  [/(^|_)(url|website|homepage|link)(_|$)/, 'url'],
+  [/(^|_)colou?r(_|$)/, 'color'],
+  [/(^|_)lat(itude)?$/, 'latitude'],
+  [/(^|_)(lng|lon|long|longitude)$/, 'longitude'],
+  [/(^|_)(price|cost|amount|total|salary|balance|fee)(_|$)/, 'price'],
+  [/(^|_)(quantity|qty|count|stock)(_|$)/, 'quantity'],
+  [/(^|_)age$/, 'age'],
+  [/(^|_)(birth(day|_?date)?|dob)(_|$)/, 'birthDate'],
+  [/(^|_)(due|expires?|expiry|ends?)(_|$)/, 'futureDate'],
+  [
+    /(^|_)(created|updated|modified|deleted|posted)(_?(at|on|date))?$|(^|_)(date|time|timestamp)(_|$)/,
+    'pastDate',
+  ],
+  [
+    /(^|_)(description|bio|comments?|summary|notes?|body|content)(_|$)/,
+    'paragraph',
+  ],
+  [/(^|_)(title|subject|headline)(_|$)/, 'sentence'],
+  [/(^|_)(tag|category|type|status|slug)$/, 'word'],
+];
+
+/**
+ * Semantic generator suggested by column's name that fits column's type, if
+ * there is one
+ */
+export const inferGenerator = ({ column_name, data_type }: ColumnObj) => {
+  const kind = kindOf(data_type);
+  const name = column_name.toLowerCase();
+  return namePatterns.find(
+    ([pattern, generator]) =>
+      pattern.test(name) &&
+      !!kind &&
+      semanticGenerators[generator].kinds.includes(kind)
+  )?.[1];
+};
+
+/**
+ * Random number between min and max. normal clusters numbers around the
+ * middle, skewed clusters them near min
+ */
+export const randomInRange = (
+  min: number,
+  max: number,
+  distribution: Distribution
+) => {
+  let share = random();
+  if (distribution === 'normal') {
+    // Box-Muller transform, with 3 standard deviations on each side of middle
+    const gaussian =
+      Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    share = Math.min(1, Math.max(0, 0.5 + gaussian / 6));
+  } else if (distribution === 'skewed') {
+    share **= 3;
+  }
+  return min + share * (max - min);
+};
+
+/**
+ * Options generated values of column get unless overridden
+ */
+export const defaultColumnOptions = (
+  column: ColumnObj
+): DummyColumnOptions => ({
+  generator: inferGenerator(column) ?? 'type',
+  distribution: 'uniform',
+  nullPercent: 0,
+  unique:
+    column.constraint_type === 'UNIQUE' ||
+    column.constraint_type === 'PRIMARY KEY',
+});
+
+/**
+ * Column as shown in options of dummy data, with generators that fit it
+ */
+export const dummyColumn = (column: ColumnObj): DummyColumn => {
+  const kind = kindOf(column.data_type);
+  const fitting = (Object.keys(semanticGenerators) as SemanticName[]).filter(
+    (name) => !!kind && semanticGenerators[name].kinds.includes(kind)
+  );
+  return {
+    column_name: column.column_name,
+    data_type: column.data_type,
+    nullable: column.is_nullable === 'YES',
+    numeric: kind === 'number',
+    generators: ['type', ...fitting],
+    options: defaultColumnOptions(column),
+  };
+};
+
+// unique text gets row index folded in, before the domain of e-mails. Text
+// is cut to make room for it in columns of limited length
+const textWithIndex = (
+  text: string,
+  index: number,
+  maxLength: number | null
+) => {
+  const at = text.lastIndexOf('@');
+  const head = at === -1 ? text : text.slice(0, at);
+  const tail = at === -1 ? '' : text.slice(at);
+  const suffix = `_${index}`;
+  if (!maxLength) return `${head}${suffix}${tail}`;
+  const withIndex = `${head.slice(
+    0,
+    Math.max(0, maxLength - suffix.length - tail.length)
+  )}${suffix}${tail}`;
+  if (withIndex.length <= maxLength) return withIndex;
+  return String(index).length <= maxLength ? String(index) : undefined;
+};
+
+// span unique dates are spread over, back from REFERENCE_DATE. date columns
+// get a day per row, timestamps a second
+const DATE_SPAN_DAYS = 36500;
+const DAY = 24 * 60 * 60 * 1000;
+
+// pads number to given digits. ex: 7 -> 07
+const pad = (n: number, digits = 2) => String(n).padStart(digits, '0');
+
+// address number n of 10.0.0.0/8, a private network
+const privateAddress = (n: number) =>
+  `10.${Math.floor(n / 65536)}.${Math.floor(n / 256) % 256}.${n % 256}`;
+
+/**
+ * Generates unique values from row index for types without a unique kind of
+ * their own. value generates a value of column as if it weren't unique.
+ * Throws right away for types whose values can't be made distinct, so COPY
+ * doesn't fail on a duplicate partway through
+ */
+const uniqueByType = (
+  column: ColumnObj,
+  value: (index: number) => string,
+  ranOut: () => Error
+): ((index: number) => string) => {
+  // distinct positions among size values, by row index
+  const positions = (size: number) => {
+    const position = randomPermutation(size);
+    return (index: number) => {
+      if (index >= size) throw ranOut();
+      return position(index);
+    };
+  };
+  switch (column.data_type) {
+    case 'boolean': {
+      const position = positions(2);
+      return (index) => String(position(index) === 1);
+    }
+    case 'time without time zone':
+    case 'time with time zone': {
+      // a millisecond of the day per row
+      const position = positions(DAY);
+      const zone = column.data_type === 'time with time zone' ? '+00' : '';
+      return (index) => {
+        const ms = position(index);
+        return `${pad(Math.floor(ms / 3600000))}:${pad(
+          Math.floor(ms / 60000) % 60
+        )}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}${zone}`;
+      };
+    }
+    case 'interval': {
+      // whole seconds with hours below a day, so no two intervals are equal
+      // once Postgres normalizes them
+      const position = positions((DATE_SPAN_DAYS * DAY) / 1000);
+      return (index) => {
+        const seconds = position(index);
+        return `${Math.floor(seconds / 86400)} days ${pad(
+          Math.floor(seconds / 3600) % 24
+        )}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+      };
+    }
+    case 'bytea': {
+      const position = positions(2 ** 52);
+      return (index) => `\\x${position(index).toString(16).padStart(14, '0')}`;
+    }
+    case 'macaddr': {
+      const position = positions(2 ** 48);
+      return (index) =>
+        (
+          position(index).toString(16).padStart(12, '0').match(/../g) ?? []
+        ).join(':');
+    }
+    case 'cidr': {
+      // single addresses, so host bits are never set
+      const position = positions(2 ** 24);
+      return (index) => `${privateAddress(position(index))}/32`;
+    }
+    case 'json':
+    case 'jsonb':
+      return (index) =>
+        JSON.stringify({ id: index, value: JSON.parse(value(index)) });
+    case 'USER-DEFINED':
+      if (column.enum_labels?.length) {
+        const labels = column.enum_labels;
+        const position = positions(labels.length);
+        return (index) => labels[position(index)];
+      }
+    // falls through
+    default:
+      throw new Error(
+        `Unique values can't be generated for ${column.column_name} of type ${column.data_type}`
+      );
+  }
+};
+
+/**
+ * Creates function that generates values of column in Postgres' text format,
+ * or null, given index of the row they're for. Columns without a fitting
+ * semantic generator get values from byType, unless a number range is given.
+ * Unique values are built from row index, so they're distinct without
+ * remembering the ones generated before
+ */
+export const createColumnGenerator = (
+  column: ColumnObj,
+  options: Partial<DummyColumnOptions> = {},
+  byType: (columnObj: ColumnObj) => string
+) => {
+  const { generator, min, max, distribution, nullPercent, unique } = {
+    ...defaultColumnOptions(column),
+    ...options,
+  };
+  const name = generator === 'auto' ? inferGenerator(column) : generator;
+  const semantic =
+    name && name !== 'type' ? semanticGenerators[name] : undefined;
+  const kind = kindOf(column.data_type);
+  const maxLength = column.character_maximum_length;
+  const ranOut = () =>
+    new Error(`Ran out of unique values for ${column.column_name}`);
+
+  let generate: (index: number) => string = () => byType(column);
+  if (semantic?.generate) {
+    const text = semantic.generate;
+    generate = () => (maxLength ? text().slice(0, maxLength) : text());
+  }
+
+  if (
+    kind === 'number' &&
+    (unique || semantic?.range || min !== undefined || max !== undefined)
+  ) {
+    const decimals = integerTypes.includes(column.data_type)
+      ? 0
+      : Math.min(semantic?.decimals ?? 2, column.numeric_scale ?? 6);
+    // bounds are kept within what column holds, so values never overflow it
+    const largest = largestValue(column, decimals);
+    const clamp = (n: number) => Math.min(largest, Math.max(-largest, n));
+    const [low, high] = semantic?.range ?? [0, unique ? largest : 1000];
+    const from = clamp(min ?? low);
+    const to = clamp(max ?? high);
+    if (unique) {
+      // every step of 10^-decimals in range is a distinct value
+      const scale = 10 ** decimals;
+      const first = Math.ceil(from * scale);
+      const size = Math.min(Math.floor(to * scale) - first + 1, 2 ** 52);
+      const position = randomPermutation(size);
+      generate = (index) => {
+        if (index >= size) throw ranOut();
+        return ((first + position(index)) / scale).toFixed(decimals);
+      };
+    } else {
+      generate = () => randomInRange(from, to, distribution).toFixed(decimals);
+    }
+  } else if (unique && kind === 'text') {
+    const text = generate;
+    generate = (index) => {
+      const value = textWithIndex(text(index), index, maxLength);
+      if (value === undefined) throw ranOut();
+      return value;
+    };
+  } else if (unique && column.data_type === 'uuid') {
+    // last group of random uuid is row index, in hex
+    const uuid = generate;
+    generate = (index) =>
+      `${uuid(index).slice(0, 24)}${index.toString(16).padStart(12, '0')}`;
+  } else if (unique && kind === 'inet') {
+    const size = 2 ** 24;
+    const position = randomPermutation(size);
+    generate = (index) => {
+      if (index >= size) throw ranOut();
+      return privateAddress(position(index));
+    };
+  } else if (unique && kind === 'date') {
+    const step = column.data_type === 'date' ? DAY : 1000;
+    const size = (DATE_SPAN_DAYS * DAY) / step;
+    const position = randomPermutation(size);
+    generate = (index) => {
+      if (index >= size) throw ranOut();
+      return new Date(
+        REFERENCE_DATE.getTime() - position(index) * step
+      ).toISOString();
+    };
+  } else if (unique) {
+    generate = uniqueByType(column, generate, ranOut);
+  }
+
+  return (index: number): string | null => {
+    if (column.is_nullable === 'YES' && random() * 100 < nullPercent)
+      return null;
+    return generate(index);
+  };
+};
@@ -1,10 +1,70 @@
-import { ipcMain } from 'electron'; // IPCMain: Communicate asynchronously from the main process to renderer processes
+import { ipcMain, IpcMainInvokeEvent } from 'electron'; // IPCMain: Communicate asynchronously from the main process to renderer processes
 import path from 'path';
 import fs from 'fs';
 import os from 'os';
 import helperFunctions from './helperFunctions';
-import generateDummyData from './DummyD/dummyDataMain';
-import { ColumnObj, DBList, DummyRecords } from './BE_types';
+import generateDummyData, { filledColumns } from './DummyD/dummyDataMain';
+import { dummyColumn } from './DummyD/semanticGenerators';
+import { randomSeed } from './DummyD/random';
+import { getDummyRuns, addDummyRun } from './DummyD/dummyRuns';
+import orderTables from './DummyD/populateOrder';
+import {
+  ColumnObj,
+  DBList,
+  DummyColumn,
+  DummyDataProgress,
+  DummyColumnOptions,
+  DummyRun,
+  PopulatePlan,
+  PopulateTable,
+  PopulateReport,
+  DbObject,
+  TableInspection,
+  ConnectionProfile,
+  ProfileList,
+  SchemaDiff,
+  WorkspaceList,
+  WorkspaceData,
+  HistoryEntry,
+  BenchmarkOptions,
+  ExecutionMode,
+  ScriptOptions,
+  StatementResult,
+  QueryParameter,
+  TransactionStatus,
+  ResultExportOptions,
+  ImportOptions,
+  ImportPreview,
+  ImportColumn,
+  ImportResult,
+} from './BE_types';
+import {
+  getProfiles,
+  saveProfile,
+  deleteProfile,
+  selectProfile,
+} from './profiles';
+import { hasCredential, setCredential, deleteCredential } from './credentials';
+import { diffCatalogs } from './schemaDiff';
+import {
+  getWorkspaces,
+  loadWorkspace,
+  saveWorkspace,
+  selectWorkspace,
+  createWorkspace,
+  renameWorkspace,
+  deleteWorkspace,
+} from './workspaces';
+import { getHistory, addHistoryEntry, clearHistory } from './history';
+import { writeResults } from './resultExport';
+import {
+  formatOf,
+  parseImportFile,
+  inferType,
+  validateRows,
+  copyLine,
+  copyError,
+} from './tableImport';
 
 const db = require('./models');
 
@@ -12,10 +72,21 @@ const {
   createDBFunc,
   dropDBFunc,
   explainQuery,
+  explainReadOnlyQuery,
+  explainSavepointQuery,
+  explainReadOnlySavepointQuery,
+  explainAnalyzeQuery,
+  explainPlanQuery,
+  prepareQuery,
+  executePreparedQuery,
+  createTableQuery,
+  copyFromQuery,
   runSQLFunc,
   runTARFunc,
   runFullCopyFunc,
   runHollowCopyFunc,
+  qualifiedName,
+  connectionEnv,
   promExecute,
 } = helperFunctions;
 
@@ -40,42 +111,420 @@ ipcMain.on('return-db-list', (event) => {
     });
 });
 
+/**
+ * Closes cursor run-query left open for fetching more rows. Outside a session
+ * transaction it keeps a transaction of its own open, whose locks block
+ * changes to tables the query read, like refreshing a materialized view. Tells
+ * the renderer, so it stops offering to fetch more rows of the result
+ */
+const releaseCursor = async (event: IpcMainInvokeEvent) => {
+  if (await db.closeCursor()) event.sender.send('cursor-closed');
+};
+
 // Listen for database changes sent from the renderer upon changing tabs
 // and send back an updated DB List
 ipcMain.handle(
   'select-db',
-  async (event, dbName: string): Promise<void> => {
+  async (event, dbName: string): Promise<boolean> => {
+    // switching would end pool the transaction's client belongs to
+    if (db.getTransaction().open) {
+      const feedback: Feedback = {
+        type: 'warning',
+        message: `Commit or roll back the open transaction before switching to ${dbName}`,
+      };
+      event.sender.send('feedback', feedback);
+      return false;
+    }
     event.sender.send('async-started');
     try {
+      await releaseCursor(event);
       await db.connectToDB(dbName);
 
       // send updated db info
       const dbsAndTables: DBList = await db.getLists();
       event.sender.send('db-lists', dbsAndTables);
+      return true;
     } finally {
       event.sender.send('async-complete');
     }
   }
 );
 
+// Returns views, materialized views, functions, triggers, sequences and enum
+// types of the currently selected database
+ipcMain.handle('get-db-objects', (): Promise<DbObject[]> => db.getDbObjects());
+
+interface TablePayload {
+  schemaName: string;
+  tableName: string;
+}
+
+// Returns constraints, indexes and statistics for a table in current database
+ipcMain.handle(
+  'get-table-details',
+  (event, { schemaName, tableName }: TablePayload): Promise<TableInspection> =>
+    db.getTableDetails(schemaName, tableName)
+);
+
+interface RefreshPayload {
+  schemaName: string;
+  viewName: string;
+}
+
+// Refreshes given materialized view and returns updated database objects
+ipcMain.handle(
+  'refresh-materialized-view',
+  async (
+    event,
+    { schemaName, viewName }: RefreshPayload
+  ): Promise<DbObject[]> => {
+    event.sender.send('async-started');
+    try {
+      await releaseCursor(event);
+      await db.query(
+        `REFRESH MATERIALIZED VIEW ${qualifiedName(schemaName, viewName)}`
+      );
+      return await db.getDbObjects();
+    } finally {
+      event.sender.send('async-complete');
+    }
+  }
+);
+
+interface DiffPayload {
+  left: string;
+  right: string;
+}
+
+// Compares schemas, types, tables and views of two databases
+ipcMain.handle(
+  'diff-schemas',
+  async (event, { left, right }: DiffPayload): Promise<SchemaDiff> => {
+    event.sender.send('async-started');
+    try {
+      const [leftCatalog, rightCatalog] = await Promise.all([
+        db.getCatalog(left),
+        db.getCatalog(right),
+      ]);
+      return diffCatalogs(left, leftCatalog, right, rightCatalog);
+    } finally {
+      event.sender.send('async-complete');
+    }
+  }
+);
+
+interface ExportPayload {
+  filePath: string;
+  data: string;
+  encoding: 'utf8' | 'base64';
+}
+
+// Writes diagram exported by the renderer to the file chosen by the user
+ipcMain.handle(
+  'export-diagram',
+  (event, { filePath, data, encoding }: ExportPayload): Promise<void> =>
+    fs.promises.writeFile(filePath, Buffer.from(data, encoding))
+);
+
+// Returns logged query executions, newest first
+ipcMain.handle('get-history', (): HistoryEntry[] => getHistory());
+
+ipcMain.handle('clear-history', (): void => clearHistory());
+
+interface ExportQueriesPayload {
+  filePath: string;
+  file: Record<string, unknown>;
+}
+
+// Writes query collection exported by the renderer to the file chosen by the user
+ipcMain.handle(
+  'export-queries',
+  (event, { filePath, file }: ExportQueriesPayload): Promise<void> =>
+    fs.promises.writeFile(filePath, JSON.stringify(file, null, 2))
+);
+
+interface ExportResultsPayload {
+  filePath: string;
+  /**
+   * Rows shown by the renderer. Written first
+   */
+  rows: Record<string, unknown>[];
+  /**
+   * Fetch and write rows left in cursor run-query opened, after rows
+   */
+  drainCursor?: boolean;
+  /**
+   * Statement timeout of each fetch in ms
+   */
+  timeout?: number;
+  options: ResultExportOptions;
+}
+
+// rows read from the cursor at a time while exporting
+const EXPORT_CHUNK = 1000;
+
+// Writes query results to the file chosen by the user in the chosen format.
+// Rows left in the cursor of results are fetched and written after the ones
+// shown, so the file holds exactly the rows of the run that's shown. Resolves
+// to number of rows written
+ipcMain.handle(
+  'export-results',
+  async (
+    event,
+    { filePath, rows, drainCursor, timeout, options }: ExportResultsPayload
+  ): Promise<number> => {
+    event.sender.send('async-started');
+    try {
+      let pending: typeof rows | undefined = rows;
+      let done = !drainCursor;
+      return await writeResults(
+        filePath,
+        async () => {
+          if (pending) {
+            const shown = pending;
+            pending = undefined;
+            return shown;
+          }
+          // fetchFromCursor closes cursor once it runs out of rows
+          while (!done) {
+            // eslint-disable-next-line no-await-in-loop
+            const chunk = await db.fetchFromCursor(EXPORT_CHUNK, timeout);
+            done = chunk.done;
+            if (chunk.rows.length) return chunk.rows;
+          }
+          return undefined;
+        },
+        options
+      );
+    } finally {
+      event.sender.send('async-complete');
+    }
+  }
+);
+
+// Reads and parses a query file. Contents are validated by the renderer
+ipcMain.handle(
+  'import-queries',
+  async (event, filePath: string): Promise<unknown> =>
+    JSON.parse(await fs.promises.readFile(filePath, 'utf8'))
+);
+
 // Deletes the DB that is passed from the front end and returns an updated DB List
-ipcMain.handle('drop-db', async (event, dbName: string, currDB: boolean): Promise<void> => {
-  event.sender.send('async-started');
-  try {
-    // if deleting currently connected db, disconnect from db
-    if (currDB) await db.connectToDB('');
+ipcMain.handle(
+  'drop-db',
+  async (event, dbName: string, currDB: boolean): Promise<void> => {
+    event.sender.send('async-started');
+    try {
+      // if deleting currently connected db, disconnect from db
+      if (currDB) await db.connectToDB('');
+
+      // drop db
+      const dropDBScript = dropDBFunc(dbName);
+      await db.query(dropDBScript);
+
+      // send updated db info
+      const dbsAndTables: DBList = await db.getLists();
+      event.sender.send('db-lists', dbsAndTables);
+    } finally {
+      event.sender.send('async-complete');
+    }
+  }
+);
 
-    // drop db
-    const dropDBScript = dropDBFunc(dbName);
-    await db.query(dropDBScript);
+// Returns saved connection profiles and the currently selected one
+ipcMain.handle('get-profiles', (): ProfileList => getProfiles());
 
-    // send updated db info
+/**
+ * Reconnecting would end pool the open transaction's client belongs to. Warns
+ * and returns true if one is open. Checked before anything is saved, so saved
+ * profiles and credentials keep matching current connection
+ */
+const blockedByTransaction = (event: IpcMainInvokeEvent) => {
+  if (!db.getTransaction().open) return false;
+  const feedback: Feedback = {
+    type: 'warning',
+    message:
+      'Commit or roll back the open transaction before changing the current connection',
+  };
+  event.sender.send('feedback', feedback);
+  return true;
+};
+
+/**
+ * Reconnect with given profile if it is the one currently in use, so changed
+ * settings or credentials take effect immediately
+ */
+const reconnectIfCurrent = async (
+  event: IpcMainInvokeEvent,
+  profile: ConnectionProfile
+) => {
+  if (db.getProfile().id !== profile.id) return;
+  event.sender.send('async-started');
+  try {
+    await releaseCursor(event);
+    await db.setProfile(profile);
     const dbsAndTables: DBList = await db.getLists();
     event.sender.send('db-lists', dbsAndTables);
   } finally {
     event.sender.send('async-complete');
   }
-});
+};
+
+// Creates or updates a connection profile and returns updated profile list.
+// If a password is given it is saved in the credential store, never in the profile.
+// Resolves to undefined without saving if it is current profile and a
+// transaction is open
+ipcMain.handle(
+  'save-profile',
+  async (
+    event,
+    profile: ConnectionProfile,
+    password?: string
+  ): Promise<ProfileList | undefined> => {
+    if (profile.id === db.getProfile().id && blockedByTransaction(event))
+      return undefined;
+    const saved = saveProfile(profile);
+    if (password !== undefined) setCredential(saved.id, password);
+    await reconnectIfCurrent(event, saved);
+    return getProfiles();
+  }
+);
+
+// Credential store. Renderer can only learn whether a password is stored for
+// a profile. Plain text passwords are never sent back to it
+ipcMain.handle('get-credential', (event, profileId: string): boolean =>
+  hasCredential(profileId)
+);
+
+// Credential changes resolve to false without saving if they're for current
+// profile and a transaction is open
+ipcMain.handle(
+  'set-credential',
+  async (event, profileId: string, password: string): Promise<boolean> => {
+    if (profileId === db.getProfile().id && blockedByTransaction(event))
+      return false;
+    setCredential(profileId, password);
+    const profile = getProfiles().profiles.find(({ id }) => id === profileId);
+    if (profile) await reconnectIfCurrent(event, profile);
+    return true;
+  }
+);
+
+ipcMain.handle(
+  'delete-credential',
+  async (event, profileId: string): Promise<boolean> => {
+    if (profileId === db.getProfile().id && blockedByTransaction(event))
+      return false;
+    deleteCredential(profileId);
+    const profile = getProfiles().profiles.find(({ id }) => id === profileId);
+    if (profile) await reconnectIfCurrent(event, profile);
+    return true;
+  }
+);
+
+// Deletes a connection profile. If it was in use, reconnects with the profile
+// that replaced it as selected. Current profile isn't deleted while a
+// transaction is open, which resolves to undefined
+ipcMain.handle(
+  'delete-profile',
+  async (event, profileId: string): Promise<ProfileList | undefined> => {
+    const wasCurrent = db.getProfile().id === profileId;
+    if (wasCurrent && blockedByTransaction(event)) return undefined;
+    deleteProfile(profileId);
+    const list = getProfiles();
+    if (wasCurrent) {
+      event.sender.send('async-started');
+      try {
+        await releaseCursor(event);
+        await db.setProfile(selectProfile(list.selectedId));
+        const dbsAndTables: DBList = await db.getLists();
+        event.sender.send('db-lists', dbsAndTables);
+      } finally {
+        event.sender.send('async-complete');
+      }
+    }
+    return list;
+  }
+);
+
+// Switches connection profile. Reconnects pool to profile's default database
+// and sends back an updated DB List. Resolves to false without switching while
+// a transaction is open
+ipcMain.handle(
+  'select-profile',
+  async (event, profileId: string): Promise<boolean> => {
+    if (blockedByTransaction(event)) return false;
+    event.sender.send('async-started');
+    try {
+      await releaseCursor(event);
+      await db.setProfile(selectProfile(profileId));
+
+      const dbsAndTables: DBList = await db.getLists();
+      event.sender.send('db-lists', dbsAndTables);
+      return true;
+    } finally {
+      event.sender.send('async-complete');
+    }
+  }
+);
+
+// Returns saved workspaces and the currently selected one
+ipcMain.handle('get-workspaces', (): WorkspaceList => getWorkspaces());
+
+// Returns saved queries, compared queries and thresholds of a workspace
+ipcMain.handle(
+  'load-workspace',
+  (event, workspaceId: string): WorkspaceData => loadWorkspace(workspaceId)
+);
+
+interface SaveWorkspacePayload {
+  workspaceId: string;
+  data: WorkspaceData;
+}
+
+ipcMain.handle(
+  'save-workspace',
+  (event, { workspaceId, data }: SaveWorkspacePayload): Promise<void> =>
+    saveWorkspace(workspaceId, data)
+);
+
+// Switches workspace and returns its data
+ipcMain.handle(
+  'select-workspace',
+  (event, workspaceId: string): WorkspaceData => selectWorkspace(workspaceId)
+);
+
+// Creates an empty workspace and returns updated workspace list
+ipcMain.handle(
+  'create-workspace',
+  (event, name: string): WorkspaceList => {
+    createWorkspace(name);
+    return getWorkspaces();
+  }
+);
+
+interface RenameWorkspacePayload {
+  workspaceId: string;
+  name: string;
+}
+
+ipcMain.handle(
+  'rename-workspace',
+  (event, { workspaceId, name }: RenameWorkspacePayload): WorkspaceList => {
+    renameWorkspace(workspaceId, name);
+    return getWorkspaces();
+  }
+);
+
+// Deletes a workspace and returns updated workspace list. If it was selected,
+// the first remaining workspace becomes selected
+ipcMain.handle(
+  'delete-workspace',
+  (event, workspaceId: string): WorkspaceList => {
+    deleteWorkspace(workspaceId);
+    return getWorkspaces();
+  }
+);
 
 interface DuplicatePayload {
   newName: string;
@@ -101,11 +550,12 @@ ipcMain.handle(
 
     try {
       // dump database to temp file
+      const profile: ConnectionProfile = db.getProfile();
       const dumpCmd = withData
-        ? runFullCopyFunc(sourceDb, tempFilePath)
-        : runHollowCopyFunc(sourceDb, tempFilePath);
+        ? runFullCopyFunc(sourceDb, tempFilePath, profile)
+        : runHollowCopyFunc(sourceDb, tempFilePath, profile);
       try {
-        await promExecute(dumpCmd);
+        await promExecute(dumpCmd, connectionEnv(profile));
       } catch (e) {
         throw new Error(
           `Failed to dump ${sourceDb} to temp file at ${tempFilePath}`
@@ -121,7 +571,10 @@ ipcMain.handle(
 
       // run temp sql file on new database
       try {
-        await promExecute(runSQLFunc(newName, tempFilePath));
+        await promExecute(
+          runSQLFunc(newName, tempFilePath, profile),
+          connectionEnv(profile)
+        );
       } catch (e) {
         // cleanup: drop created db
         const dropDBScript = dropDBFunc(newName);
@@ -170,14 +623,15 @@ ipcMain.handle(
       if (ext !== '.sql' && ext !== '.tar')
         throw new Error('Invalid file extension');
 
+      const profile: ConnectionProfile = db.getProfile();
       const restoreCmd =
         ext === '.sql'
-          ? runSQLFunc(newDbName, filePath)
-          : runTARFunc(newDbName, filePath);
+          ? runSQLFunc(newDbName, filePath, profile)
+          : runTARFunc(newDbName, filePath, profile);
 
       try {
         // populate new db with data from file
-        await promExecute(restoreCmd);
+        await promExecute(restoreCmd, connectionEnv(profile));
       } catch (e) {
         // cleanup: drop created db
         const dropDBScript = dropDBFunc(newDbName);
@@ -195,46 +649,650 @@ ipcMain.handle(
   }
 );
 
+interface PreviewImportPayload {
+  filePath: string;
+  options: ImportOptions;
+}
+
+// number of rows of import file shown in preview
+const PREVIEW_ROWS = 10;
+
+// Parses file picked for table import. Returns its first rows and the types
+// inferred for its columns
+ipcMain.handle(
+  'preview-import',
+  async (
+    event,
+    { filePath, options }: PreviewImportPayload
+  ): Promise<ImportPreview> => {
+    const format = formatOf(filePath);
+    const { columns, rows } = parseImportFile(
+      await fs.promises.readFile(filePath, 'utf8'),
+      format,
+      options
+    );
+    return {
+      format,
+      columns,
+      types: columns.map((_, i) =>
+        inferType(rows.map((row) => row[i] ?? null))
+      ),
+      rows: rows.slice(0, PREVIEW_ROWS),
+      rowCount: rows.length,
+    };
+  }
+);
+
+interface ImportTablePayload {
+  filePath: string;
+  options: ImportOptions;
+  schemaName: string;
+  tableName: string;
+  /**
+   * Create table with given columns before importing into it
+   */
+  createTable: boolean;
+  columns: ImportColumn[];
+}
+
+// number of rows sent to COPY at a time
+const COPY_BATCH = 1000;
+
+/**
+ * Imports rows of a CSV or JSON file into a table with COPY, creating the table
+ * first if asked to. Rows are checked before anything is imported. If any row
+ * fails, the import is rolled back and errors of failed rows are returned
+ */
+ipcMain.handle(
+  'import-table',
+  async (
+    event,
+    {
+      filePath,
+      options,
+      schemaName,
+      tableName,
+      createTable,
+      columns,
+    }: ImportTablePayload
+  ): Promise<ImportResult> => {
+    event.sender.send('async-started');
+    try {
+      const file = parseImportFile(
+        await fs.promises.readFile(filePath, 'utf8'),
+        formatOf(filePath),
+        options
+      );
+      const errors = validateRows(file, columns);
+      if (errors.length) return { rowCount: 0, errors };
+
+      let result: ImportResult;
+      try {
+        await releaseCursor(event);
+        result = await db.runAtomically(async (query, copy) => {
+          if (createTable)
+            await query(createTableQuery(schemaName, tableName, columns));
+          let next = 0;
+          const rowCount = await copy(
+            copyFromQuery(schemaName, tableName, columns),
+            async () => {
+              if (next >= file.rows.length) return undefined;
+              const batch = file.rows.slice(next, next + COPY_BATCH);
+              next += COPY_BATCH;
+              return batch.map((row) => copyLine(row, columns)).join('');
+            }
+          );
+          return { rowCount, errors: [] };
+        });
+      } catch (e) {
+        result = { rowCount: 0, errors: [copyError(e)] };
+      }
+
+      // send updated db info, since table may be new or have more rows
+      const dbsAndTables: DBList = await db.getLists();
+      event.sender.send('db-lists', dbsAndTables);
+      return result;
+    } finally {
+      event.sender.send('async-complete');
+    }
+  }
+);
+
 interface QueryPayload {
   targetDb: string;
   sqlString: string;
+  /**
+   * sqlString as user wrote it, before :name placeholders were replaced with
+   * $1 style ones. Logged to history along with params. Defaults to sqlString
+   */
+  sourceSql?: string;
+  /**
+   * Statements of sqlString. When there is more than one, they run one after
+   * the other as a script and each gets its own result
+   */
+  statements?: string[];
+  scriptOptions?: ScriptOptions;
   selectedDb: string;
+  /**
+   * Run all statements in a single transaction without an execution plan.
+   * Used for migrations
+   */
+  transaction?: boolean;
+  /**
+   * How query is executed. Defaults to auto. Ignored for transactions
+   */
+  mode?: ExecutionMode;
+  /**
+   * Time query over multiple runs after running it once. Ignored for scripts.
+   * Only in auto and analyze-rollback modes, which run query with a plan
+   */
+  benchmark?: BenchmarkOptions;
+  /**
+   * statement_timeout in ms applied to every run. 0 or undefined disables it
+   */
+  timeout?: number;
+  /**
+   * Values for $1 style placeholders in sqlString. Not supported in scripts
+   */
+  params?: QueryParameter[];
+  /**
+   * Stream rows through a cursor as query-rows events, fetching at most this
+   * many. More can be fetched with fetch-rows. Only for single statements that
+   * return rows, like SELECT
+   */
+  rowLimit?: number;
 }
 
-// Run query passed from the front-end, and send back an updated DB List 
+// SQLSTATE query_canceled. Raised both by pg_cancel_backend and statement_timeout
+const QUERY_CANCELED = '57014';
+
+// SQLSTATE read_only_sql_transaction. Raised by statements that modify data
+// inside a read only transaction
+const READ_ONLY_TRANSACTION = '25006';
+
+/**
+ * Returns user facing message if error was raised by cancelling query or by
+ * statement timeout. Returns undefined for any other error
+ */
+const cancelMessage = (e: { code?: string; message?: string }, timeout = 0) => {
+  if (e.code !== QUERY_CANCELED) return undefined;
+  if (e.message?.includes('statement timeout'))
+    return `Query exceeded statement timeout of ${timeout} ms and was stopped`;
+  return 'Query was cancelled';
+};
+
+// rows of the EXPLAIN statement among results of a multi statement query
+const explainRows = (results) =>
+  [results].flat().find(({ command }) => command === 'EXPLAIN')?.rows;
+
+// multiple statements return one result each. Rows of the last one are shown
+const lastRows = (results) => [results].flat().pop()?.rows;
+
+type Query = (sql: string, values?: unknown[]) => Promise<any>;
+
+/**
+ * Runs sql and resolves to pg's result. commit runs sql in a transaction of its
+ * own, so all of its statements are rolled back if one fails. Runners that are
+ * already inside a transaction ignore it. values are bound to $1 style
+ * placeholders
+ */
+type Runner = (
+  sql: string,
+  commit?: boolean,
+  values?: unknown[]
+) => Promise<any>;
+
+// runs sql on a client of db.runOnClient. Any open transaction is rolled back
+// on failure, including ones opened by sql itself, so the client stays usable
+const sessionRunner = (query: Query): Runner => async (sql, commit, values) => {
+  try {
+    if (commit) await query('BEGIN');
+    const result = await query(sql, values);
+    if (commit) await query('COMMIT');
+    return result;
+  } catch (e) {
+    await query('ROLLBACK');
+    throw e;
+  }
+};
+
+// runs sql inside an open transaction. A failed sql is rolled back to a
+// savepoint, so the transaction can go on
+const savepointRunner = (query: Query): Runner => async (
+  sql,
+  commit,
+  values
+) => {
+  await query('SAVEPOINT seeqr_statement');
+  try {
+    const result = await query(sql, values);
+    await query('RELEASE SAVEPOINT seeqr_statement');
+    return result;
+  } catch (e) {
+    await query('ROLLBACK TO SAVEPOINT seeqr_statement');
+    throw e;
+  }
+};
+
+// rows are sent in chunks so no single IPC message holds a huge result
+const CHUNK_SIZE = 1000;
+
+interface StreamedRows {
+  rowCount: number;
+  /**
+   * Cursor has rows left to fetch
+   */
+  hasMore: boolean;
+}
+
+/**
+ * Fetches up to limit rows from cursor opened by db.openCursor, passing them to
+ * onRows a chunk at a time
+ */
+const fetchChunks = async (
+  limit: number,
+  onRows: (rows: Record<string, unknown>[]) => void,
+  timeout?: number
+): Promise<StreamedRows> => {
+  let rowCount = 0;
+  let done = false;
+  while (!done && rowCount < limit) {
+    // chunks must arrive in order
+    // eslint-disable-next-line no-await-in-loop
+    const chunk = await db.fetchFromCursor(
+      Math.min(CHUNK_SIZE, limit - rowCount),
+      timeout
+    );
+    onRows(chunk.rows);
+    rowCount += chunk.rows.length;
+    done = chunk.done;
+  }
+  return { rowCount, hasMore: !done };
+};
+
+// true while a transaction opened by begin-transaction is open. Queries then
+// run inside it and must not end it, so they are run with savepointRunner
+const inSession = (): boolean => db.getTransaction().open;
+
+interface Execution {
+  explainResults?: Record<string, any>[];
+  returnedRows?: Record<string, unknown>[];
+  /**
+   * Message shown to user. Also set when query ran but couldn't be explained
+   */
+  error?: string;
+  /**
+   * Set only if query itself failed
+   */
+  queryError?: string;
+  /**
+   * Query was stopped by user or by statement timeout
+   */
+  canceled?: boolean;
+  /**
+   * Set instead of returnedRows when rows were streamed
+   */
+  streamed?: StreamedRows;
+}
+
+const failedExecution = (e, timeout?: number): Execution => {
+  const queryError = cancelMessage(e, timeout) ?? e.toString();
+  return { error: queryError, queryError, canceled: e.code === QUERY_CANCELED };
+};
+
+interface ExecuteOptions {
+  /**
+   * Commit query in a transaction of its own. Only used in run mode
+   */
+  transaction?: boolean;
+  /**
+   * runner is inside a transaction, which analyzing must not end
+   */
+  nested?: boolean;
+  timeout?: number;
+  /**
+   * Values for $1 style placeholders in query
+   */
+  params?: QueryParameter[];
+  /**
+   * Stream rows of query through a cursor instead of returning them
+   */
+  stream?: {
+    limit: number;
+    onRows: (rows: Record<string, unknown>[]) => void;
+  };
+}
+
+/**
+ * Runs query according to execution mode. Queries that modify data are only
+ * ever executed once: either EXPLAIN ANALYZE is rolled back or its execution
+ * is the one that's kept. explainable is what goes after EXPLAIN. It differs
+ * from query when query has bind parameters
+ */
+const executeWithPlan = async (
+  sqlString: string,
+  explainable: string,
+  mode: ExecutionMode,
+  run: Runner,
+  { transaction, nested, timeout, params = [], stream }: ExecuteOptions
+): Promise<Execution> => {
+  const values = params.map(({ value }) => value);
+
+  const runForRows = async (): Promise<Execution> => {
+    if (!stream)
+      return {
+        returnedRows: lastRows(await run(sqlString, transaction, values)),
+      };
+    await db.openCursor(sqlString, values);
+    return {
+      streamed: await fetchChunks(stream.limit, stream.onRows, timeout),
+    };
+  };
+
+  if (mode !== 'auto') {
+    try {
+      if (mode === 'explain')
+        return {
+          explainResults: explainRows(await run(explainPlanQuery(explainable))),
+        };
+      if (mode === 'analyze-rollback') {
+        const explain = nested ? explainSavepointQuery : explainQuery;
+        return {
+          explainResults: explainRows(await run(explain(explainable))),
+        };
+      }
+      return await runForRows();
+    } catch (e) {
+      return failedExecution(e, timeout);
+    }
+  }
+
+  let explainResults;
+  try {
+    const explain = nested
+      ? explainReadOnlySavepointQuery
+      : explainReadOnlyQuery;
+    explainResults = explainRows(await run(explain(explainable)));
+  } catch (e) {
+    // running again after a cancel or timeout would only take as long again
+    if (e.code === QUERY_CANCELED) return failedExecution(e, timeout);
+    try {
+      // query modifies data, so its analyzed execution is committed
+      if (e.code === READ_ONLY_TRANSACTION)
+        return {
+          explainResults: explainRows(
+            await run(explainAnalyzeQuery(explainable), true)
+          ),
+        };
+      // EXPLAIN doesn't support every statement. ex: CREATE TABLE
+      return {
+        returnedRows: lastRows(await run(sqlString, false, values)),
+        error: `Failed to get Execution Plan. EXPLAIN might not support this query.`,
+      };
+    } catch (err) {
+      return failedExecution(err, timeout);
+    }
+  }
+
+  // query only reads data, so running it again after analyzing is safe
+  try {
+    return { explainResults, ...(await runForRows()) };
+  } catch (e) {
+    return failedExecution(e, timeout);
+  }
+};
+
+/**
+ * Runs query according to execution mode, binding params if it has any. As
+ * EXPLAIN can't take bind parameters, query is prepared and EXECUTE of the
+ * prepared statement is explained instead
+ */
+const executeQuery = async (
+  sqlString: string,
+  mode: ExecutionMode,
+  run: Runner,
+  options: ExecuteOptions = {}
+): Promise<Execution> => {
+  const { params = [], timeout } = options;
+  if (!params.length)
+    return executeWithPlan(sqlString, sqlString, mode, run, options);
+
+  try {
+    await run(prepareQuery(sqlString, params));
+  } catch (e) {
+    return failedExecution(e, timeout);
+  }
+  try {
+    const explainable = executePreparedQuery(params);
+    return await executeWithPlan(sqlString, explainable, mode, run, options);
+  } finally {
+    await run('DEALLOCATE seeqr_params');
+  }
+};
+
+/**
+ * Runs statements of a script in order on one client, so session state like
+ * temporary tables and settings carries over between them. onExecuted is
+ * called after each statement with the time it started. A cancel always stops
+ * the script. Inside a session transaction, the script's transaction is a
+ * savepoint
+ */
+const executeScript = (
+  statements: string[],
+  mode: ExecutionMode,
+  { stopOnError, transaction }: ScriptOptions,
+  timeout: number | undefined,
+  onExecuted: (sqlString: string, execution: Execution, start: number) => void
+): Promise<StatementResult[]> =>
+  db.runOnClient(timeout, async (query: Query) => {
+    const session = inSession();
+    const nested = transaction || session;
+    const run = nested ? savepointRunner(query) : sessionRunner(query);
+    const [begin, commit, rollback] = session
+      ? [
+          'SAVEPOINT seeqr_script',
+          'RELEASE SAVEPOINT seeqr_script',
+          'ROLLBACK TO SAVEPOINT seeqr_script',
+        ]
+      : ['BEGIN', 'COMMIT', 'ROLLBACK'];
+    const results: StatementResult[] = [];
+    let stopped = false;
+
+    if (transaction) await query(begin);
+    try {
+      for (let i = 0; i < statements.length && !stopped; i += 1) {
+        const start = Date.now();
+        // statements may depend on the ones before them
+        // eslint-disable-next-line no-await-in-loop
+        const execution = await executeQuery(statements[i], mode, run, {
+          nested,
+          timeout,
+        });
+        onExecuted(statements[i], execution, start);
+
+        const { explainResults, returnedRows, error, queryError } = execution;
+        stopped = !!queryError && (stopOnError || !!execution.canceled);
+        results.push({
+          sqlString: statements[i],
+          explainResults,
+          returnedRows,
+          error:
+            stopped && transaction
+              ? `${error}. All statements were rolled back.`
+              : error,
+        });
+      }
+      if (transaction) await query(stopped ? rollback : commit);
+    } catch (e) {
+      if (transaction) await query(rollback);
+      throw e;
+    }
+    return results;
+  });
+
+/**
+ * Runs EXPLAIN ANALYZE of query warmup + iterations times, one after the other,
+ * and returns Planning + Execution time of each timed run. Every run is rolled
+ * back, so queries that modify data can be benchmarked too
+ */
+const benchmarkQuery = (
+  sqlString: string,
+  { iterations, warmup }: BenchmarkOptions,
+  timeout?: number,
+  params: QueryParameter[] = []
+): Promise<number[]> =>
+  db.runOnClient(timeout, async (query: Query) => {
+    const session = inSession();
+    const run = session ? savepointRunner(query) : sessionRunner(query);
+    const explain = session ? explainSavepointQuery : explainQuery;
+    if (params.length) await run(prepareQuery(sqlString, params));
+    const explainable = params.length
+      ? executePreparedQuery(params)
+      : sqlString;
+    try {
+      const timings: number[] = [];
+      for (let i = 0; i < warmup + iterations; i += 1) {
+        // runs must not overlap or they would compete for the same resources
+        // eslint-disable-next-line no-await-in-loop
+        const results = await run(explain(explainable));
+        const plan = explainRows(results)[0]['QUERY PLAN'][0];
+        if (i >= warmup)
+          timings.push(plan['Planning Time'] + plan['Execution Time']);
+      }
+      return timings;
+    } finally {
+      if (params.length) await run('DEALLOCATE seeqr_params');
+    }
+  });
+
+// Run query passed from the front-end, and send back an updated DB List
 // DB will rollback if query is unsuccessful
 ipcMain.handle(
   'run-query',
-  async (event, { targetDb, sqlString, selectedDb }: QueryPayload) => {
+  async (
+    event,
+    {
+      targetDb,
+      sqlString,
+      sourceSql = sqlString,
+      statements = [sqlString],
+      scriptOptions = { stopOnError: true, transaction: false },
+      selectedDb,
+      transaction,
+      mode = 'auto',
+      benchmark,
+      timeout,
+      params,
+      rowLimit,
+    }: QueryPayload
+  ) => {
     event.sender.send('async-started');
+    const { open, db: transactionDb } = db.getTransaction();
+    if (open && transactionDb !== targetDb) {
+      event.sender.send('async-complete');
+      return {
+        error: `A transaction is open on ${transactionDb}. Commit or roll back before running queries on ${targetDb}`,
+      };
+    }
+    // benchmark times EXPLAIN ANALYZE runs, which these modes don't make
+    if (
+      benchmark &&
+      statements.length === 1 &&
+      (mode === 'run' || mode === 'explain')
+    ) {
+      event.sender.send('async-complete');
+      return {
+        error:
+          "Queries can't be benchmarked without a plan. Choose Run and analyze or Analyze and roll back execution",
+      };
+    }
     try {
-      let error: string | undefined;
+      // result of previous query is replaced
+      await db.closeCursor();
+
       // connect to db to run query
       if (selectedDb !== targetDb) await db.connectToDB(targetDb);
 
-      // Run Explain
-      let explainResults;
-      try {
-        const results = await db.query(explainQuery(sqlString));
-        explainResults = results[1].rows;
-      } catch (e) {
-        error = `Failed to get Execution Plan. EXPLAIN might not support this query.`;
+      // every execution is logged, including failed and unlabeled ones
+      const logExecution = (
+        sql: string,
+        { returnedRows, streamed, queryError }: Execution,
+        start: number,
+        sqlParams?: QueryParameter[]
+      ) => {
+        const entry = addHistoryEntry({
+          timestamp: start,
+          db: targetDb,
+          sqlString: sql,
+          params: sqlParams,
+          duration: Date.now() - start,
+          rowCount: returnedRows?.length ?? streamed?.rowCount,
+          error: queryError,
+        });
+        event.sender.send('history-entry', entry);
+      };
+
+      if (statements.length > 1 && !transaction) {
+        const results = await executeScript(
+          statements,
+          mode,
+          scriptOptions,
+          timeout,
+          logExecution
+        );
+        const last = results[results.length - 1];
+        return {
+          db: targetDb,
+          sqlString,
+          statements: results,
+          returnedRows: last.returnedRows,
+          explainResults: last.explainResults,
+        };
       }
 
-      // Run Query
-      let returnedRows;
-      try {
-        const results = await db.query(sqlString);
-        returnedRows = results.rows;
-      } catch (e) {
-        error = e.toString();
+      // cursor would be closed when connecting back to selectedDb
+      const stream =
+        rowLimit && !transaction && selectedDb === targetDb
+          ? {
+              limit: rowLimit,
+              onRows: (rows) => event.sender.send('query-rows', rows),
+            }
+          : undefined;
+
+      const start = Date.now();
+      const session = inSession();
+      // transactions are used by migrations, which don't need a plan
+      const execution: Execution = await db.runOnClient(
+        timeout,
+        (query: Query) =>
+          executeQuery(
+            sqlString,
+            transaction ? 'run' : mode,
+            session ? savepointRunner(query) : sessionRunner(query),
+            { transaction, timeout, params, nested: session, stream }
+          )
+      );
+      logExecution(sourceSql, execution, start, params);
+      const { explainResults, returnedRows, streamed } = execution;
+      let { error } = execution;
+
+      let timings: number[] | undefined;
+      if (benchmark && explainResults && !error) {
+        try {
+          timings = await benchmarkQuery(sqlString, benchmark, timeout, params);
+        } catch (e) {
+          error = cancelMessage(e, timeout) ?? `Benchmark failed. ${e}`;
+        }
       }
 
       return {
         db: targetDb,
         sqlString,
         returnedRows,
+        // cursor is closed when connecting back to selected db
+        hasMoreRows: streamed && selectedDb === targetDb && streamed.hasMore,
         explainResults,
+        timings,
         error,
       };
     } finally {
@@ -251,59 +1309,250 @@ ipcMain.handle(
   }
 );
 
+interface FetchRowsPayload {
+  limit: number;
+  timeout?: number;
+}
+
+// Streams next rows of result left open by run-query as query-rows events.
+// Resolves to whether there are more
+ipcMain.handle(
+  'fetch-rows',
+  async (event, { limit, timeout }: FetchRowsPayload): Promise<boolean> => {
+    event.sender.send('async-started');
+    try {
+      const { hasMore } = await fetchChunks(
+        limit,
+        (rows) => event.sender.send('query-rows', rows),
+        timeout
+      );
+      return hasMore;
+    } finally {
+      event.sender.send('async-complete');
+    }
+  }
+);
+
+// Session transaction. Queries from run-query execute inside it, on a client
+// pinned until it's committed or rolled back
+ipcMain.handle('get-transaction', (): TransactionStatus => db.getTransaction());
+
+ipcMain.handle(
+  'begin-transaction',
+  (): Promise<TransactionStatus> => db.beginTransaction()
+);
+
+ipcMain.handle(
+  'create-savepoint',
+  (): Promise<TransactionStatus> => db.createSavepoint()
+);
+
+// Ending transaction may change tables, so an updated DB List is sent back
+ipcMain.handle(
+  'commit-transaction',
+  async (event): Promise<TransactionStatus> => {
+    try {
+      return await db.commitTransaction();
+    } finally {
+      event.sender.send('db-lists', await db.getLists());
+    }
+  }
+);
+
+// Rolls back to savepoint if one is given, otherwise the whole transaction
+ipcMain.handle(
+  'rollback-transaction',
+  async (event, savepoint?: string): Promise<TransactionStatus> => {
+    try {
+      return await db.rollbackTransaction(savepoint);
+    } finally {
+      event.sender.send('db-lists', await db.getLists());
+    }
+  }
+);
+
+// Cancels query currently run by run-query. Resolves to false if nothing was
+// running
+ipcMain.handle('cancel-query', (): Promise<boolean> => db.cancelQuery());
+
+interface DummyColumnsPayload {
+  schemaName: string;
+  tableName: string;
+}
+
+// Columns of table dummy data is generated for, with generators inferred from
+// their names. Serial and identity keys fill themselves and foreign keys come
+// from referenced tables, so they're left out
+ipcMain.handle(
+  'dummy-data-columns',
+  async (
+    event,
+    { schemaName, tableName }: DummyColumnsPayload
+  ): Promise<DummyColumn[]> => {
+    const tableInfo: ColumnObj[] = await db.getTableInfo(schemaName, tableName);
+    return filledColumns(tableInfo)
+      .filter(({ constraint_type }) => constraint_type !== 'FOREIGN KEY')
+      .map(dummyColumn);
+  }
+);
+
+ipcMain.handle('get-dummy-runs', (): DummyRun[] => getDummyRuns());
+
+// set by cancel-dummy-data. Generation stops before its next batch of rows
+let dummyDataCancelled = false;
+
+// minimum ms between progress events of dummy data generation
+const PROGRESS_INTERVAL = 200;
+
+// rows of dummy data generated and copied at a time
+const DUMMY_DATA_BATCH = 10000;
+
+// Stops running dummy data generation. Rows inserted so far are rolled back
+ipcMain.handle('cancel-dummy-data', (): void => {
+  dummyDataCancelled = true;
+});
+
 interface dummyDataRequestPayload {
   dbName: string;
+  schemaName: string;
   tableName: string;
   rows: number;
+  /**
+   * Options of columns overriding generators inferred for them, by column name
+   */
+  columns?: Record<string, DummyColumnOptions>;
+  /**
+   * Seed of random values. Same seed and options generate same data. Random
+   * if undefined
+   */
+  seed?: number;
 }
 
+/**
+ * Generates rows of dummy data for table one batch at a time, streaming each
+ * into table with COPY. Values are generated as text, so Postgres casts them
+ * to column types. Calls onProgress with number of rows generated so far.
+ * Nullable references to an empty table itself are filled after the insert.
+ * Resolves to number of rows inserted and names of those columns. Stops with
+ * an error if cancel-dummy-data is called
+ */
+const copyDummyData = async (
+  query: (sql: string, values?: unknown[]) => Promise<any>,
+  copy: (
+    sql: string,
+    nextChunk: () => Promise<string | undefined>
+  ) => Promise<number>,
+  {
+    schemaName,
+    tableName,
+    rows,
+    columns: columnOptions,
+  }: Pick<
+    dummyDataRequestPayload,
+    'schemaName' | 'tableName' | 'rows' | 'columns'
+  >,
+  seed: number,
+  onProgress: (rowCount: number) => void
+) => {
+  // Retrieves the Primary Keys and Foreign Keys for all the tables
+  const tableInfo: ColumnObj[] = await db.getTableInfo(schemaName, tableName);
+  const { columns, nextRows, fillSelfReferences } = await generateDummyData(
+    tableInfo,
+    columnOptions,
+    rows,
+    seed,
+    query
+  );
+  const copyColumns: ImportColumn[] = columns.map(
+    ({ column_name, data_type }, source) => ({
+      source,
+      target: column_name,
+      type: data_type,
+    })
+  );
+
+  let generated = 0;
+  let progressSent = 0;
+  while (generated < rows) {
+    // let cancel-dummy-data through between batches
+    // eslint-disable-next-line no-await-in-loop
+    await new Promise((resolve) => setImmediate(resolve));
+    if (dummyDataCancelled)
+      throw new Error('Dummy data generation was cancelled');
+
+    // each batch is copied on its own, since foreign keys of the next batch
+    // are looked up on the same client
+    // eslint-disable-next-line no-await-in-loop
+    const batch = await nextRows(Math.min(DUMMY_DATA_BATCH, rows - generated));
+    let chunk: string | undefined = batch
+      .map((row) => copyLine(row, copyColumns))
+      .join('');
+    // eslint-disable-next-line no-await-in-loop
+    await copy(copyFromQuery(schemaName, tableName, copyColumns), async () => {
+      const next = chunk;
+      chunk = undefined;
+      return next;
+    });
+    generated += batch.length;
+
+    if (generated === rows || Date.now() - progressSent > PROGRESS_INTERVAL) {
+      progressSent = Date.now();
+      onProgress(generated);
+    }
+  }
+  // rows can only reference rows of their own table once they're inserted
+  const selfReferences = await fillSelfReferences(schemaName, tableName);
+  return { rowCount: generated, selfReferences };
+};
+
 ipcMain.handle(
   'generate-dummy-data',
   async (event, data: dummyDataRequestPayload) => {
     // send notice to front end that DD generation has been started
     event.sender.send('async-started');
+    dummyDataCancelled = false;
     let feedback: Feedback = {
       type: '',
       message: '',
     };
     try {
-      // Retrieves the Primary Keys and Foreign Keys for all the tables
-      const tableInfo: ColumnObj[] = await db.getTableInfo(data.tableName);
-
-      // generate dummy data
-      const dummyArray: DummyRecords = await generateDummyData(tableInfo, data.rows);
-
-      // generate insert query string to insert dummy records
-      const columnsStringified = '('
-        .concat(dummyArray[0].join(', '))
-        .concat(')');
-      let insertQuery = `INSERT INTO ${data.tableName} ${columnsStringified} VALUES `;
-      for (let i = 1; i < dummyArray.length - 1; i += 1) {
-        const recordStringified = '('
-          .concat(dummyArray[i].join(', '))
-          .concat('), ');
-        insertQuery = insertQuery.concat(recordStringified);
-      }
-      const lastRecordStringified = '('
-        .concat(dummyArray[dummyArray.length - 1].join(', '))
-        .concat(');');
-      insertQuery = insertQuery.concat(lastRecordStringified);
-
-      // insert dummy records into DB
-      await db.query('Begin;');
-      await db.query(insertQuery);
-      await db.query('Commit;');
+      const seed = data.seed ?? randomSeed();
+      await releaseCursor(event);
+      const { selfReferences } = await db.runAtomically((query, copy) =>
+        copyDummyData(query, copy, data, seed, (rowCount) => {
+          const progress: DummyDataProgress = { rowCount, total: data.rows };
+          event.sender.send('dummy-data-progress', progress);
+        })
+      );
+
+      // record seed so run can be repeated
+      addDummyRun({
+        timestamp: Date.now(),
+        db: data.dbName,
+        schemaName: data.schemaName,
+        tableName: data.tableName,
+        rows: data.rows,
+        seed,
+        columns: data.columns,
+      });
+      const selfFilled = selfReferences.length
+        ? ` ${selfReferences.join(', ')} reference generated rows.`
+        : '';
       feedback = {
         type: 'success',
-        message: 'Dummy data successfully generated.',
+        message: `Dummy data successfully generated with seed ${seed}.${selfFilled}`,
       };
     } catch (err) {
-      // rollback transaction if there's an error in insertion and send back feedback to FE
-      await db.query('Rollback;');
-      feedback = {
-        type: 'error',
-        message: err,
-      };
+      // inserted rows were already rolled back. Send back feedback to FE
+      feedback = dummyDataCancelled
+        ? {
+            type: 'info',
+            message: 'Dummy data generation cancelled. No rows were inserted.',
+          }
+        : {
+            type: 'error',
+            message: err,
+          };
     } finally {
       // send updated db info in case query affected table or database information
       const dbsAndTables: DBList = await db.getLists();
@@ -311,9 +1560,119 @@ ipcMain.handle(
 
       // send feedback back to FE
       event.sender.send('feedback', feedback);
-      
+
       // send notice to FE that DD generation has been completed
       event.sender.send('async-complete');
     }
   }
 );
+
+interface PopulatePlanPayload {
+  /**
+   * Qualified names of tables to order
+   */
+  tables: string[];
+}
+
+// Orders given tables of current database so each one is populated after the
+// tables it references
+ipcMain.handle(
+  'populate-plan',
+  async (event, { tables }: PopulatePlanPayload): Promise<PopulatePlan> =>
+    orderTables(tables, await db.getForeignKeyEdges())
+);
+
+interface PopulateDatabasePayload {
+  dbName: string;
+  /**
+   * Tables to fill and number of rows for each. Tables without rows are skipped
+   */
+  tables: PopulateTable[];
+  seed?: number;
+}
+
+/**
+ * Fills tables of current database with dummy data in foreign key order. All
+ * tables are filled in a single transaction, so a failure leaves database
+ * unchanged. Returns number of rows inserted into each table
+ */
+ipcMain.handle(
+  'populate-database',
+  async (
+    event,
+    { dbName, tables, seed: givenSeed }: PopulateDatabasePayload
+  ): Promise<PopulateReport> => {
+    event.sender.send('async-started');
+    dummyDataCancelled = false;
+    const seed = givenSeed ?? randomSeed();
+    const report: PopulateReport = { seed, tables: [], brokenReferences: [] };
+    let failedTable: string | undefined;
+    try {
+      const filled = tables.filter(({ rows }) => rows > 0);
+      const plan = orderTables(
+        filled.map((table) => table.qualifiedName),
+        await db.getForeignKeyEdges()
+      );
+      report.brokenReferences = plan.brokenReferences;
+
+      await releaseCursor(event);
+      await db.runAtomically(async (query, copy) => {
+        for (let i = 0; i < plan.order.length; i += 1) {
+          const table = filled.find(
+            (populated) => populated.qualifiedName === plan.order[i]
+          ) as PopulateTable;
+          failedTable = table.qualifiedName;
+          const started = Date.now();
+          // tables are filled one after the other, since later ones
+          // reference rows of earlier ones
+          // eslint-disable-next-line no-await-in-loop
+          const { rowCount, selfReferences } = await copyDummyData(
+            query,
+            copy,
+            table,
+            seed,
+            (generated) => {
+              const progress: DummyDataProgress = {
+                rowCount: generated,
+                total: table.rows,
+                table: table.qualifiedName,
+              };
+              event.sender.send('dummy-data-progress', progress);
+            }
+          );
+          report.tables.push({
+            qualifiedName: table.qualifiedName,
+            rowCount,
+            duration: Date.now() - started,
+            selfReferences,
+          });
+        }
+        failedTable = undefined;
+      });
+
+      // record seed so run can be repeated one table at a time
+      filled.forEach(({ schemaName, tableName, rows }) =>
+        addDummyRun({
+          timestamp: Date.now(),
+          db: dbName,
+          schemaName,
+          tableName,
+          rows,
+          seed,
+        })
+      );
+    } catch (err) {
+      report.tables = [];
+      report.error = dummyDataCancelled
+        ? 'Population was cancelled'
+        : err.message;
+      report.failedTable = failedTable;
+    } finally {
+      // send updated db info, since tables have more rows
+      const dbsAndTables: DBList = await db.getLists();
+      event.sender.send('db-lists', dbsAndTables);
+      event.sender.send('async-complete');
+    }
+    return report;
+  }
+);
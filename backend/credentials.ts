@@ -0,0 +1,108 @@
+import { app } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { readStore, writeStore } from './storage';
+
+/**
+ * Credential store for connection profile passwords. Secrets are encrypted at
+ * rest with AES-256-GCM using a random key kept in a separate file that only the
+ * current OS user can read. Works on any platform, including headless Linux
+ * boxes without a keyring daemon
+ */
+
+const CREDENTIALS_FILE = 'credentials.json';
+const KEY_FILE = 'credentials.key';
+const ALGORITHM = 'aes-256-gcm';
+
+interface EncryptedSecret {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+type CredentialRecords = Record<string, EncryptedSecret>;
+
+/**
+ * Read encryption key from key file, creating a new random key on first use.
+ * Any other read error is thrown, so an unreadable key file is never replaced
+ * and the secrets encrypted with it stay recoverable
+ */
+const getKey = (): Buffer => {
+  const keyPath = path.join(app.getPath('userData'), KEY_FILE);
+  try {
+    return fs.readFileSync(keyPath);
+  } catch (e) {
+    if (e.code !== 'ENOENT') throw e;
+    const key = crypto.randomBytes(32);
+    fs.mkdirSync(app.getPath('userData'), { recursive: true });
+    fs.writeFileSync(keyPath, key, { mode: 0o600 });
+    return key;
+  }
+};
+
+const encrypt = (secret: string): EncryptedSecret => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const data = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+};
+
+const decrypt = ({ iv, tag, data }: EncryptedSecret): string => {
+  const decipher = crypto.createDecipheriv(
+    ALGORITHM,
+    getKey(),
+    Buffer.from(iv, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(data, 'base64')),
+    decipher.final(),
+  ]).toString('utf8');
+};
+
+/**
+ * Returns decrypted secret for given id or undefined if there is none. Throws
+ * if stored secret can't be decrypted (e.g. key file was removed), instead of
+ * connecting without a password
+ */
+export const getCredential = (id: string): string | undefined => {
+  const record = readStore<CredentialRecords>(CREDENTIALS_FILE, {})[id];
+  if (!record) return undefined;
+  try {
+    return decrypt(record);
+  } catch (e) {
+    throw new Error(
+      `Saved password can't be decrypted (${e.message}). Enter it again in the connection profile`
+    );
+  }
+};
+
+/**
+ * Returns true if a secret is stored for given id, even one that can't be
+ * decrypted anymore
+ */
+export const hasCredential = (id: string) =>
+  readStore<CredentialRecords>(CREDENTIALS_FILE, {})[id] !== undefined;
+
+/**
+ * Encrypts and stores secret under given id, replacing any existing one
+ */
+export const setCredential = (id: string, secret: string) => {
+  const records = readStore<CredentialRecords>(CREDENTIALS_FILE, {});
+  records[id] = encrypt(secret);
+  writeStore(CREDENTIALS_FILE, records);
+};
+
+/**
+ * Removes secret stored under given id
+ */
+export const deleteCredential = (id: string) => {
+  const records = readStore<CredentialRecords>(CREDENTIALS_FILE, {});
+  delete records[id];
+  writeStore(CREDENTIALS_FILE, records);
+};
@@ -1,4 +1,7 @@
-const { exec } = require('child_process'); // Child_Process: Importing Node.js' child_process API
+import { ConnectionProfile, QueryParameter, ImportColumn } from './BE_types';
+import { getCredential } from './credentials';
+
+const { execFile } = require('child_process'); // Child_Process: Importing Node.js' child_process API
 const { dialog } = require('electron'); // Dialog: display native system dialogs for opening and saving files, alerting, etc
 
 // ************************************** CLI COMMANDS & SQL Queries TO CREATE, DELETE, COPY DB SCHEMA, etc. ************************************** //
@@ -9,20 +12,59 @@ const { dialog } = require('electron'); // Dialog: display native system dialogs
 interface CreateSQLQuery {
   (string: string): string;
 }
+// program and arguments of a pg CLI command. It runs without a shell, so
+// names and paths are passed as they are and never interpreted by one
+interface Command {
+  program: string;
+  args: string[];
+}
 interface CreateCommand {
-  (dbName: string, file: string): string;
+  (dbName: string, file: string, profile: ConnectionProfile): Command;
 }
 interface HelperFunctions {
+  quoteIdent: CreateSQLQuery;
+  qualifiedName: (schemaName: string, tableName: string) => string;
   createDBFunc: CreateSQLQuery;
   dropDBFunc: CreateSQLQuery;
   explainQuery: CreateSQLQuery;
+  explainReadOnlyQuery: CreateSQLQuery;
+  explainSavepointQuery: CreateSQLQuery;
+  explainReadOnlySavepointQuery: CreateSQLQuery;
+  explainAnalyzeQuery: CreateSQLQuery;
+  explainPlanQuery: CreateSQLQuery;
+  quoteLiteral: (value: string | null) => string;
+  prepareQuery: (sqlString: string, params: QueryParameter[]) => string;
+  executePreparedQuery: (params: QueryParameter[]) => string;
+  createTableQuery: (schemaName: string, tableName: string, columns: ImportColumn[]) => string;
+  copyFromQuery: (schemaName: string, tableName: string, columns: ImportColumn[]) => string;
   runSQLFunc: CreateCommand;
   runTARFunc: CreateCommand;
   runFullCopyFunc: CreateCommand;
   runHollowCopyFunc: CreateCommand;
-  promExecute: (cmd: string) => Promise<{ stdout: string; stderr: string }>;
+  connectionEnv: (profile: ConnectionProfile) => Record<string, string>;
+  promExecute: (
+    cmd: Command,
+    env?: Record<string, string>
+  ) => Promise<{ stdout: string; stderr: string }>;
 }
+
+// host, port, user and database flags shared by psql, pg_dump and pg_restore.
+// Values are joined to their flag, so one starting with - isn't taken as a flag
+const connectionFlags = ({ host, port, user }: ConnectionProfile, dbName: string) => [
+  `--host=${host}`,
+  `--port=${port}`,
+  `--username=${user}`,
+  `--dbname=${dbName}`,
+];
+
 const helperFunctions:HelperFunctions = {
+  // quote identifier so names with uppercase letters, spaces or quotes are valid in SQL
+  quoteIdent: (name) => `"${name.replace(/"/g, '""')}"`,
+
+  // schema qualified and quoted table name
+  qualifiedName: (schemaName, tableName) =>
+    `${helperFunctions.quoteIdent(schemaName)}.${helperFunctions.quoteIdent(tableName)}`,
+
   // create a database
   createDBFunc: (name) => `CREATE DATABASE "${name}"`,
 
@@ -32,22 +74,77 @@ const helperFunctions:HelperFunctions = {
   // run explain on query
   explainQuery: (sqlString) => `BEGIN; EXPLAIN (FORMAT JSON, ANALYZE, VERBOSE, BUFFERS) ${sqlString}; ROLLBACK;`,
 
+  // run explain on query in a read only transaction. Postgres refuses to run
+  // queries that modify data, raising error 25006
+  explainReadOnlyQuery: (sqlString) => `BEGIN READ ONLY; EXPLAIN (FORMAT JSON, ANALYZE, VERBOSE, BUFFERS) ${sqlString}; ROLLBACK;`,
+
+  // versions of the two above for use inside an open transaction, where BEGIN
+  // and ROLLBACK would end it. Rolling back to a savepoint also reverts READ ONLY
+  explainSavepointQuery: (sqlString) => `SAVEPOINT seeqr_explain; EXPLAIN (FORMAT JSON, ANALYZE, VERBOSE, BUFFERS) ${sqlString}; ROLLBACK TO SAVEPOINT seeqr_explain;`,
+
+  explainReadOnlySavepointQuery: (sqlString) => `SAVEPOINT seeqr_explain; SET TRANSACTION READ ONLY; EXPLAIN (FORMAT JSON, ANALYZE, VERBOSE, BUFFERS) ${sqlString}; ROLLBACK TO SAVEPOINT seeqr_explain;`,
+
+  // run explain on query, keeping its effects
+  explainAnalyzeQuery: (sqlString) => `EXPLAIN (FORMAT JSON, ANALYZE, VERBOSE, BUFFERS) ${sqlString}`,
+
+  // plan query without running it
+  explainPlanQuery: (sqlString) => `EXPLAIN (FORMAT JSON, VERBOSE) ${sqlString}`,
+
+  // quote value as a string literal, or NULL
+  quoteLiteral: (value) => (value === null ? 'NULL' : `'${value.replace(/'/g, "''")}'`),
+
+  // prepare query with $1 style placeholders, declaring the type of each parameter.
+  // EXPLAIN can't take bind parameters, but it can explain EXECUTE of a prepared statement
+  prepareQuery: (sqlString, params) => `PREPARE seeqr_params (${params.map(({ type }) => type).join(', ')}) AS ${sqlString}`,
+
+  // execute statement created by prepareQuery with values of params
+  executePreparedQuery: (params) => `EXECUTE seeqr_params (${params.map(({ value }) => helperFunctions.quoteLiteral(value)).join(', ')})`,
+
+  // create table for imported columns, with the types chosen for them
+  createTableQuery: (schemaName, tableName, columns) => `CREATE TABLE ${helperFunctions.qualifiedName(schemaName, tableName)} (${columns.map(({ target, type }) => `${helperFunctions.quoteIdent(target)} ${type}`).join(', ')})`,
+
+  // copy rows in COPY's text format into imported columns of table
+  copyFromQuery: (schemaName, tableName, columns) => `COPY ${helperFunctions.qualifiedName(schemaName, tableName)} (${columns.map(({ target }) => helperFunctions.quoteIdent(target)).join(', ')}) FROM STDIN`,
+
   // import SQL file into new DB created
-  runSQLFunc: (dbName, file) => `psql -U postgres -d ${dbName} -f "${file}"`,
+  runSQLFunc: (dbName, file, profile) => ({
+    program: 'psql',
+    args: [...connectionFlags(profile, dbName), `--file=${file}`],
+  }),
 
   // import TAR file into new DB created
-  runTARFunc: (dbName, file) => `pg_restore -U postgres -d ${dbName} "${file}"`,
+  runTARFunc: (dbName, file, profile) => ({
+    program: 'pg_restore',
+    args: [...connectionFlags(profile, dbName), '--', file],
+  }),
 
-  // make a full copy of the schema
-  runFullCopyFunc: (dbCopyName, newFile) => `pg_dump -U postgres -F p -d ${dbCopyName} > "${newFile}"`,
+  // make a full copy of the schema. pg_dump writes the file itself, so no
+  // shell redirect is needed
+  runFullCopyFunc: (dbCopyName, newFile, profile) => ({
+    program: 'pg_dump',
+    args: [...connectionFlags(profile, dbCopyName), '-F', 'p', `--file=${newFile}`],
+  }),
 
   // make a hollow copy of the schema
-  runHollowCopyFunc: (dbCopyName, file) => `pg_dump -s -U postgres -F p -d ${dbCopyName} > "${file}"`,
+  runHollowCopyFunc: (dbCopyName, file, profile) => ({
+    program: 'pg_dump',
+    args: ['-s', ...connectionFlags(profile, dbCopyName), '-F', 'p', `--file=${file}`],
+  }),
+
+  // environment variables used by pg CLI tools to authenticate with profile.
+  // Password comes from the credential store and is passed through env to keep
+  // it out of the command line
+  connectionEnv: ({ id, sslMode }) => {
+    const env: Record<string, string> = { PGSSLMODE: sslMode };
+    const password = getCredential(id);
+    if (password !== undefined) env.PGPASSWORD = password;
+    return env;
+  },
 
-  // promisified execute to execute commands in the child process
-  promExecute: (cmd: string) =>
+  // promisified execFile to execute commands in the child process
+  promExecute: ({ program, args }, env) =>
     new Promise((resolve, reject) => {
-      exec(cmd, (error, stdout, stderr) => {
+      execFile(program, args, { env: { ...process.env, ...env } }, (error, stdout, stderr) => {
         if (error) return reject(error);
         if (stderr) return reject(new Error(stderr));
         return resolve({ stdout, stderr });
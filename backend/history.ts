@@ -0,0 +1,26 @@
+import { HistoryEntry } from './BE_types';
+import { appendToLog, readStore, writeStore } from './storage';
+
+/**
+ * Log of every query run through run-query, newest first. Oldest entries are
+ * dropped once the log is full
+ */
+
+const HISTORY_FILE = 'history.json';
+
+const MAX_ENTRIES = 1000;
+
+/**
+ * Returns all history entries, newest first
+ */
+export const getHistory = (): HistoryEntry[] =>
+  readStore<HistoryEntry[]>(HISTORY_FILE, []);
+
+/**
+ * Adds execution to history and returns the stored entry
+ */
+export const addHistoryEntry = (
+  execution: Omit<HistoryEntry, 'id'>
+): HistoryEntry => appendToLog(HISTORY_FILE, execution, MAX_ENTRIES);
+
+export const clearHistory = () => writeStore(HISTORY_FILE, []);
@@ -1,5 +1,5 @@
 // eslint-disable-next-line import/no-extraneous-dependencies
-import { app, BrowserWindow, Menu } from 'electron';
+import { app, BrowserWindow, Menu, dialog } from 'electron';
 
 const path = require('path');
 const url = require('url');
@@ -13,6 +13,8 @@ const MainMenu = require('./mainMenu');
 // requiring channels file to initialize event listeners
 require('./channels');
 
+const db = require('./models');
+
 fixPath();
 // Keep a global reference of the window objects, if you don't, the window will be closed automatically when the JavaScript object is garbage collected.
 let mainWindow: BrowserWindow | null;
@@ -61,6 +63,23 @@ function createWindow() {
   mainWindow.once('ready-to-show', () => {
     if (mainWindow) mainWindow.show();
   });
+
+  // Warn before closing with an open transaction. It's rolled back explicitly,
+  // since on macOS the app keeps running after its window is closed
+  mainWindow.on('close', (event) => {
+    const { open, db: transactionDb } = db.getTransaction();
+    if (!open || !mainWindow) return;
+    const choice = dialog.showMessageBoxSync(mainWindow, {
+      type: 'warning',
+      buttons: ['Cancel', 'Close and Roll Back'],
+      defaultId: 0,
+      cancelId: 0,
+      message: `A transaction is open on ${transactionDb}`,
+      detail: 'Closing SeeQR rolls back every uncommitted change',
+    });
+    if (choice === 0) event.preventDefault();
+    else db.rollbackTransaction().catch(() => {});
+  });
 }
 
 // Install React Dev Tools Extension
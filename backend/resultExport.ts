@@ -0,0 +1,215 @@
+import fs from 'fs';
+import helperFunctions from './helperFunctions';
+import { ResultEncoding, ResultExportOptions } from './BE_types';
+import { createXlsx, SheetCell } from './xlsx';
+
+/**
+ * Converts query results to the file formats they can be exported as. Rows
+ * are read a chunk at a time and each chunk is formatted and written before
+ * the next is read, so results of any size can be exported
+ */
+
+type Row = Record<string, unknown>;
+
+// element of Postgres array literal. ex: "a b" or NULL
+const arrayElement = (value: unknown): string => {
+  if (value === null || value === undefined) return 'NULL';
+  if (Array.isArray(value)) return `{${value.map(arrayElement).join(',')}}`;
+  // eslint-disable-next-line @typescript-eslint/no-use-before-define
+  const text = textValue(value) as string;
+  return `"${text.replace(/["\\]/g, '\\$&')}"`;
+};
+
+/**
+ * Value as Postgres would print it, or null for NULL. pg parses some types
+ * into objects, which are turned back into text here
+ */
+export const textValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `\\x${value.toString('hex')}`;
+  if (Array.isArray(value)) return `{${value.map(arrayElement).join(',')}}`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// names of columns in rows, in order of first row
+const columnsOf = (rows: Row[]) => Object.keys(rows[0] ?? {});
+
+/**
+ * Formats rows as CSV. Fields are quoted when they contain the delimiter,
+ * quotes or line breaks, or would otherwise read as NULL
+ */
+export const toCsv = (
+  rows: Row[],
+  { delimiter, header, nullText }: ResultExportOptions,
+  columns = columnsOf(rows)
+) => {
+  const field = (text: string | null) => {
+    if (text === null) return nullText;
+    const needsQuotes =
+      text === nullText || text.includes(delimiter) || /["\r\n]/.test(text);
+    return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = rows.map((row) =>
+    columns.map((column) => field(textValue(row[column]))).join(delimiter)
+  );
+  if (header) lines.unshift(columns.map(field).join(delimiter));
+  return lines.map((line) => `${line}\r\n`).join('');
+};
+
+/**
+ * Formats rows as JSON lines, one object per row
+ */
+export const toJsonLines = (rows: Row[]) =>
+  rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+
+const sqlValue = (value: unknown) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return helperFunctions.quoteLiteral(textValue(value));
+};
+
+/**
+ * Formats rows as INSERT statements into given table. Table name may be schema
+ * qualified
+ */
+export const toSqlInserts = (
+  rows: Row[],
+  { tableName }: ResultExportOptions,
+  columns = columnsOf(rows)
+) => {
+  const table = tableName
+    .split('.')
+    .map((part) => helperFunctions.quoteIdent(part.trim()))
+    .join('.');
+  const columnList = columns.map(helperFunctions.quoteIdent).join(', ');
+  return rows
+    .map(
+      (row) =>
+        `INSERT INTO ${table} (${columnList}) VALUES (${columns
+          .map((column) => sqlValue(row[column]))
+          .join(', ')});\n`
+    )
+    .join('');
+};
+
+// cell of Excel sheet. bigint and numeric values stay text, since pg returns
+// them as strings to keep precision Excel's numbers would lose
+const sheetCell = (value: unknown): SheetCell => {
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  return textValue(value);
+};
+
+/**
+ * Builds Excel workbook of rows
+ */
+export const toXlsx = (rows: Row[], { header }: ResultExportOptions) => {
+  const columns = columnsOf(rows);
+  const cells = rows.map((row) =>
+    columns.map((column) => sheetCell(row[column]))
+  );
+  if (header) cells.unshift(columns);
+  return createXlsx(cells);
+};
+
+/**
+ * Encodes text in chosen encoding. Characters latin1 can't represent become ?.
+ * Byte order marks are only prefixed to the start of a file
+ */
+export const encodeText = (
+  text: string,
+  encoding: ResultEncoding,
+  start = true
+) => {
+  const bom = start ? '\ufeff' : '';
+  switch (encoding) {
+    case 'utf8-bom':
+      return Buffer.from(`${bom}${text}`, 'utf8');
+    case 'utf16le':
+      return Buffer.from(`${bom}${text}`, 'utf16le');
+    case 'latin1':
+      return Buffer.from(text.replace(/[\u0100-\u{10ffff}]/gu, '?'), 'latin1');
+    default:
+      return Buffer.from(text, 'utf8');
+  }
+};
+
+/**
+ * Resolves to the next chunk of rows to export, or undefined once there are no
+ * more
+ */
+export type NextRows = () => Promise<Row[] | undefined>;
+
+/**
+ * Formats rows read from nextRows according to options and writes them to
+ * filePath. Resolves to number of rows written. Text formats are streamed to
+ * the file a chunk at a time. Excel workbooks are built in memory, since zip
+ * entries need their size up front
+ */
+export const writeResults = async (
+  filePath: string,
+  nextRows: NextRows,
+  options: ResultExportOptions
+): Promise<number> => {
+  if (options.format === 'xlsx') {
+    const rows: Row[] = [];
+    let chunk = await nextRows();
+    while (chunk) {
+      rows.push(...chunk);
+      // chunks are read in order
+      // eslint-disable-next-line no-await-in-loop
+      chunk = await nextRows();
+    }
+    await fs.promises.writeFile(filePath, toXlsx(rows, options));
+    return rows.length;
+  }
+
+  const formatters = {
+    csv: toCsv,
+    jsonl: toJsonLines,
+    sql: toSqlInserts,
+  };
+  const format = formatters[options.format];
+  const out = fs.createWriteStream(filePath);
+  // rejects as soon as file can't be written
+  const failed = new Promise<never>((resolve, reject) =>
+    out.on('error', reject)
+  );
+  failed.catch(() => undefined);
+  // resolves once data is flushed, so only one chunk is held in memory
+  const write = (data: Buffer) =>
+    Promise.race([
+      failed,
+      new Promise<void>((resolve) => out.write(data, () => resolve())),
+    ]);
+
+  let rowCount = 0;
+  try {
+    // columns of first chunk, so every row has the same fields
+    let columns: string[] | undefined;
+    let chunk = await nextRows();
+    while (chunk) {
+      const start = !columns;
+      columns = columns ?? columnsOf(chunk);
+      const text = format(
+        chunk,
+        { ...options, header: options.header && start },
+        columns
+      );
+      // eslint-disable-next-line no-await-in-loop
+      await write(encodeText(text, options.encoding, start));
+      rowCount += chunk.length;
+      // eslint-disable-next-line no-await-in-loop
+      chunk = await nextRows();
+    }
+  } catch (e) {
+    out.destroy();
+    throw e;
+  }
+  await Promise.race([
+    failed,
+    new Promise<void>((resolve) => out.end(() => resolve())),
+  ]);
+  return rowCount;
+};
@@ -0,0 +1,116 @@
+import {
+  DbCatalog,
+  CatalogTable,
+  ObjectDiff,
+  TableDiff,
+  SchemaDiff,
+} from './BE_types';
+
+// deep equality for plain catalog rows. Keys of catalog rows always come in
+// the same order since they are built from the same queries
+const isEqual = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Matches objects of both lists by name. Objects only in right list are added,
+ * objects only in left list are removed. Matched objects are compared with
+ * given function. Order of left list is kept, added objects come last
+ */
+export const diffLists = <T>(
+  left: T[],
+  right: T[],
+  getName: (item: T) => string,
+  equals: (a: T, b: T) => boolean = isEqual
+): ObjectDiff<T>[] => {
+  const rightByName = new Map(right.map((item) => [getName(item), item]));
+  const leftNames = new Set(left.map(getName));
+
+  const matched = left.map(
+    (item): ObjectDiff<T> => {
+      const name = getName(item);
+      const other = rightByName.get(name);
+      if (!other) return { name, status: 'removed', left: item };
+      return {
+        name,
+        status: equals(item, other) ? 'unchanged' : 'changed',
+        left: item,
+        right: other,
+      };
+    }
+  );
+  const added = right
+    .filter((item) => !leftNames.has(getName(item)))
+    .map(
+      (item): ObjectDiff<T> => ({
+        name: getName(item),
+        status: 'added',
+        right: item,
+      })
+    );
+  return matched.concat(added);
+};
+
+const isModified = ({ status }: ObjectDiff<unknown>) => status !== 'unchanged';
+
+/**
+ * Compares columns, constraints and indexes of tables in both databases. A
+ * table is changed if any of them differs
+ */
+const diffTables = (left: CatalogTable[], right: CatalogTable[]): TableDiff[] =>
+  diffLists(
+    left,
+    right,
+    ({ qualified_name }) => qualified_name,
+    () => true
+  ).map((table) => {
+    const columns = diffLists(
+      table.left?.columns ?? [],
+      table.right?.columns ?? [],
+      ({ name }) => name
+    );
+    const constraints = diffLists(
+      table.left?.constraints ?? [],
+      table.right?.constraints ?? [],
+      ({ name }) => name
+    );
+    const indexes = diffLists(
+      table.left?.indexes ?? [],
+      table.right?.indexes ?? [],
+      ({ name }) => name
+    );
+    let { status } = table;
+    if (
+      status === 'unchanged' &&
+      [...columns, ...constraints, ...indexes].some(isModified)
+    )
+      status = 'changed';
+    return { ...table, status, columns, constraints, indexes };
+  });
+
+/**
+ * Compares catalogs of two databases. Left is the database compared from,
+ * right the one compared to
+ */
+export const diffCatalogs = (
+  leftName: string,
+  left: DbCatalog,
+  rightName: string,
+  right: DbCatalog
+): SchemaDiff => ({
+  left: leftName,
+  right: rightName,
+  schemas: diffLists(left.schemas, right.schemas, (schema) => schema),
+  types: diffLists(
+    left.types,
+    right.types,
+    ({ qualified_name }) => qualified_name
+  ),
+  tables: diffTables(left.tables, right.tables),
+  // dependencies are derived from definition so they're left out of comparison
+  views: diffLists(
+    left.views,
+    right.views,
+    ({ qualified_name }) => qualified_name,
+    (a, b) => a.materialized === b.materialized && a.definition === b.definition
+  ),
+});
@@ -0,0 +1,87 @@
+import { app } from 'electron';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Helpers to persist small JSON documents inside the Electron user data
+ * directory (e.g. ~/.config/SeeQR App on Linux)
+ */
+
+const storePath = (fileName: string) =>
+  path.join(app.getPath('userData'), fileName);
+
+/**
+ * Read and parse a JSON document. Returns fallback if file doesn't exist yet or
+ * can't be parsed
+ */
+export const readStore = <T>(fileName: string, fallback: T): T => {
+  try {
+    return JSON.parse(fs.readFileSync(storePath(fileName), 'utf8'));
+  } catch (e) {
+    return fallback;
+  }
+};
+
+/**
+ * Serialize data to JSON and write it to the user data directory. Writes to a
+ * temp file first so a crash mid-write doesn't corrupt the existing document
+ */
+export const writeStore = (fileName: string, data: unknown) => {
+  fs.mkdirSync(app.getPath('userData'), { recursive: true });
+  const target = storePath(fileName);
+  const temp = `${target}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(data), { mode: 0o600 });
+  fs.renameSync(temp, target);
+};
+
+// last pending write of each document, so writes land in the order they were
+// made
+const pendingWrites: Record<string, Promise<void>> = {};
+
+/**
+ * Same as writeStore, without blocking the main process. Used for documents
+ * that can get large, ex: workspaces with query results
+ */
+export const writeStoreAsync = (fileName: string, data: unknown) => {
+  const write = async () => {
+    await fs.promises.mkdir(app.getPath('userData'), { recursive: true });
+    const target = storePath(fileName);
+    const temp = `${target}.tmp`;
+    await fs.promises.writeFile(temp, JSON.stringify(data), { mode: 0o600 });
+    await fs.promises.rename(temp, target);
+  };
+  const written = (pendingWrites[fileName] ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(write);
+  pendingWrites[fileName] = written;
+  return written;
+};
+
+/**
+ * Prepends entry to log stored as JSON array, newest first, with a random id.
+ * Oldest entries are dropped once log holds max entries. Returns stored entry
+ */
+export const appendToLog = <T>(
+  fileName: string,
+  entry: T,
+  max: number
+): T & { id: string } => {
+  const stored = { id: crypto.randomBytes(8).toString('hex'), ...entry };
+  writeStore(
+    fileName,
+    [stored, ...readStore<unknown[]>(fileName, [])].slice(0, max)
+  );
+  return stored;
+};
+
+/**
+ * Delete a JSON document. Does nothing if it doesn't exist
+ */
+export const removeStore = (fileName: string) => {
+  try {
+    fs.unlinkSync(storePath(fileName));
+  } catch (e) {
+    if (e.code !== 'ENOENT') throw e;
+  }
+};
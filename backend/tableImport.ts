@@ -0,0 +1,280 @@
+import {
+  ImportColumn,
+  ImportFormat,
+  ImportOptions,
+  ImportRowError,
+} from './BE_types';
+
+/**
+ * Parses CSV and JSON files imported into a table, infers and checks the types
+ * of their values and turns their rows into data for COPY FROM STDIN
+ */
+
+type ImportValue = string | null;
+
+export interface ParsedFile {
+  columns: string[];
+  rows: ImportValue[][];
+}
+
+// stop collecting errors after this many, since there's no use in more
+export const MAX_ERRORS = 100;
+
+/**
+ * JSON for files ending in .json, .jsonl or .ndjson. CSV otherwise
+ */
+export const formatOf = (filePath: string): ImportFormat =>
+  /\.(json|jsonl|ndjson)$/i.test(filePath) ? 'json' : 'csv';
+
+// names for columns of files without header row
+const numberedColumns = (count: number) =>
+  Array.from({ length: count }, (_, i) => `column${i + 1}`);
+
+/**
+ * Parses CSV text. Unquoted empty fields are NULL, quoted ones are empty
+ * strings. Quotes inside quoted fields are escaped by doubling them. Blank
+ * lines are skipped
+ */
+export const parseCsv = (
+  text: string,
+  { delimiter, quote, header }: ImportOptions
+): ParsedFile => {
+  const records: ImportValue[][] = [];
+  let record: ImportValue[] = [];
+  let field = '';
+  let quoted = false;
+  // skip byte order mark
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endField = () => {
+    record.push(field === '' && !quoted ? null : field);
+    field = '';
+    quoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    if (record.length > 1 || record[0] !== null) records.push(record);
+    record = [];
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (quote && char === quote && field === '' && !quoted) {
+      let j = i + 1;
+      for (;;) {
+        const end = text.indexOf(quote, j);
+        if (end === -1)
+          throw new Error(
+            `Quoted field in row ${records.length + 1} is never closed`
+          );
+        field += text.slice(j, end);
+        if (text[end + 1] !== quote) {
+          j = end + 1;
+          break;
+        }
+        field += quote;
+        j = end + 2;
+      }
+      quoted = true;
+      i = j;
+    } else if (text.startsWith(delimiter, i)) {
+      endField();
+      i += delimiter.length;
+    } else if (char === '\n' || char === '\r') {
+      endRecord();
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+    } else {
+      field += char;
+      i += 1;
+    }
+  }
+  if (field !== '' || quoted || record.length) endRecord();
+
+  if (header) {
+    const names = records.shift() ?? [];
+    return {
+      columns: names.map((name, n) => name || `column${n + 1}`),
+      rows: records,
+    };
+  }
+  const width = Math.max(0, ...records.map(({ length }) => length));
+  return { columns: numberedColumns(width), rows: records };
+};
+
+// text of JSON value as Postgres would read it. Nested objects stay JSON
+const jsonText = (value: unknown): ImportValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Parses a JSON array of objects, or JSON lines with one object per line.
+ * Columns are the keys of all objects, in order of first appearance
+ */
+export const parseJson = (text: string): ParsedFile => {
+  const trimmed = text.replace(/^\ufeff/, '').trim();
+  const objects: unknown[] = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed.split(/\r?\n/).flatMap((line, i) => {
+        if (!line.trim()) return [];
+        try {
+          return [JSON.parse(line)];
+        } catch (e) {
+          throw new Error(`Line ${i + 1} isn't valid JSON`);
+        }
+      });
+
+  const columns = new Set<string>();
+  objects.forEach((object, i) => {
+    if (!object || typeof object !== 'object' || Array.isArray(object))
+      throw new Error(`Row ${i + 1} isn't a JSON object`);
+    Object.keys(object as object).forEach((key) => columns.add(key));
+  });
+  return {
+    columns: [...columns],
+    rows: (objects as Record<string, unknown>[]).map((object) =>
+      [...columns].map((column) => jsonText(object[column]))
+    ),
+  };
+};
+
+export const parseImportFile = (
+  text: string,
+  format: ImportFormat,
+  options: ImportOptions
+) => (format === 'json' ? parseJson(text) : parseCsv(text, options));
+
+const isJson = (value: string) => {
+  try {
+    JSON.parse(value);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// types tried when inferring, narrowest first
+const inferredTypes: [string, (value: string) => boolean][] = [
+  ['boolean', (value) => /^(true|false)$/i.test(value)],
+  ['integer', (value) => /^[-+]?\d{1,9}$/.test(value)],
+  ['bigint', (value) => /^[-+]?\d{1,18}$/.test(value)],
+  ['numeric', (value) => /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)],
+  ['date', (value) => /^\d{4}-\d{2}-\d{2}$/.test(value)],
+  [
+    'timestamptz',
+    (value) =>
+      /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([zZ]|[-+]\d{2}(:?\d{2})?)?$/.test(
+        value
+      ),
+  ],
+  ['jsonb', (value) => /^[[{]/.test(value) && isJson(value)],
+];
+
+/**
+ * Narrowest Postgres type that holds every value. NULLs are ignored, columns
+ * without any values are text
+ */
+export const inferType = (values: ImportValue[]) => {
+  const present = values.filter((value): value is string => value !== null);
+  if (!present.length) return 'text';
+  const match = inferredTypes.find(([, fits]) => present.every(fits));
+  return match ? match[0] : 'text';
+};
+
+// checks for values of types Postgres would reject, so every bad row can be
+// reported at once instead of only the first one COPY fails on. Types not
+// listed aren't checked
+const validators: [RegExp, (value: string) => boolean][] = [
+  [
+    /^(smallint|integer|bigint|int[248]?)$/,
+    (value) => /^\s*[-+]?\d+\s*$/.test(value),
+  ],
+  [
+    /^(numeric|decimal|real|double precision|float[48]?)\b/,
+    (value) =>
+      /^\s*([-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?|NaN|[-+]?Infinity)\s*$/i.test(
+        value
+      ),
+  ],
+  [
+    /^bool(ean)?$/,
+    (value) => /^\s*(t|true|f|false|y|yes|n|no|on|off|1|0)\s*$/i.test(value),
+  ],
+  [/^jsonb?$/, isJson],
+  [
+    /^uuid$/,
+    (value) => /^[0-9a-f]{32}$/i.test(value.replace(/^\{|-|\}$/g, '')),
+  ],
+];
+
+/**
+ * Error of first value in row that doesn't fit its column, or of row having
+ * more or fewer fields than file has columns
+ */
+const rowError = (
+  row: ImportValue[],
+  columns: ImportColumn[],
+  fieldCount: number
+) => {
+  if (row.length !== fieldCount)
+    return `Expected ${fieldCount} fields but found ${row.length}`;
+  const invalid = columns.find(({ source, type }) => {
+    const value = row[source];
+    const validator = validators.find(([pattern]) => pattern.test(type));
+    return value !== null && validator && !validator[1](value);
+  });
+  return invalid
+    ? `Invalid ${invalid.type} value for ${invalid.target}: "${
+        row[invalid.source]
+      }"`
+    : undefined;
+};
+
+/**
+ * Finds rows that can't be imported into given columns, up to MAX_ERRORS
+ */
+export const validateRows = (
+  { columns: fileColumns, rows }: ParsedFile,
+  columns: ImportColumn[]
+) => {
+  const errors: ImportRowError[] = [];
+  for (let i = 0; i < rows.length && errors.length < MAX_ERRORS; i += 1) {
+    const message = rowError(rows[i], columns, fileColumns.length);
+    if (message) errors.push({ row: i + 1, message });
+  }
+  return errors;
+};
+
+const copyEscapes: Record<string, string> = {
+  '\\': '\\\\',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+};
+
+/**
+ * Row in COPY's text format, with values of given columns in their order
+ */
+export const copyLine = (row: ImportValue[], columns: ImportColumn[]) =>
+  `${columns
+    .map(({ source }) => {
+      const value = row[source] ?? null;
+      return value === null
+        ? '\\N'
+        : value.replace(/[\\\n\r\t]/g, (char) => copyEscapes[char]);
+    })
+    .join('\t')}\n`;
+
+/**
+ * Row error of an error COPY failed with. COPY reports line of failing row in
+ * error's where field. ex: COPY people, line 3, column age: "abc"
+ */
+export const copyError = (err: {
+  message: string;
+  where?: string;
+}): ImportRowError => {
+  const line = err.where?.match(/\bline (\d+)/);
+  return { row: line ? Number(line[1]) : 0, message: err.message };
+};
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import { Workspace, WorkspaceList, WorkspaceData } from './BE_types';
+import { readStore, writeStore, writeStoreAsync, removeStore } from './storage';
+
+/**
+ * Workspaces are named collections of saved queries, comparison selections and
+ * plan warning thresholds. The list of workspaces lives in one document and
+ * each workspace's data in its own document, so saving a workspace full of
+ * query results doesn't rewrite every other workspace
+ */
+
+const WORKSPACES_FILE = 'workspaces.json';
+
+const workspaceFile = (id: string) => `workspace-${id}.json`;
+
+const defaultWorkspace: Workspace = { id: 'default', name: 'Default' };
+
+export const emptyWorkspace: WorkspaceData = {
+  queries: {},
+  comparedKeys: [],
+  thresholds: {
+    percentDuration: 30,
+    rowsAccuracy: 5,
+  },
+};
+
+const loadList = (): WorkspaceList => {
+  const list = readStore<WorkspaceList>(WORKSPACES_FILE, {
+    workspaces: [],
+    selectedId: defaultWorkspace.id,
+  });
+  if (!list.workspaces.length) {
+    list.workspaces = [defaultWorkspace];
+    list.selectedId = defaultWorkspace.id;
+    writeStore(WORKSPACES_FILE, list);
+  }
+  return list;
+};
+
+const findWorkspace = (list: WorkspaceList, workspaceId: string) => {
+  const workspace = list.workspaces.find(({ id }) => id === workspaceId);
+  if (!workspace) throw new Error('Workspace not found');
+  return workspace;
+};
+
+/**
+ * Returns all workspaces and the id of the currently selected one
+ */
+export const getWorkspaces = (): WorkspaceList => loadList();
+
+/**
+ * Returns saved data of workspace. Missing fields are filled with defaults
+ */
+export const loadWorkspace = (workspaceId: string): WorkspaceData => ({
+  ...emptyWorkspace,
+  ...readStore<Partial<WorkspaceData>>(workspaceFile(workspaceId), {}),
+});
+
+/**
+ * Overwrites saved data of workspace
+ */
+export const saveWorkspace = (workspaceId: string, data: WorkspaceData) => {
+  findWorkspace(loadList(), workspaceId);
+  return writeStoreAsync(workspaceFile(workspaceId), data);
+};
+
+/**
+ * Persists selected workspace and returns its data
+ */
+export const selectWorkspace = (workspaceId: string): WorkspaceData => {
+  const list = loadList();
+  findWorkspace(list, workspaceId);
+  list.selectedId = workspaceId;
+  writeStore(WORKSPACES_FILE, list);
+  return loadWorkspace(workspaceId);
+};
+
+/**
+ * Creates an empty workspace and returns it
+ */
+export const createWorkspace = (name: string): Workspace => {
+  const list = loadList();
+  const workspace = { id: crypto.randomBytes(8).toString('hex'), name };
+  list.workspaces.push(workspace);
+  writeStore(WORKSPACES_FILE, list);
+  writeStore(workspaceFile(workspace.id), emptyWorkspace);
+  return workspace;
+};
+
+export const renameWorkspace = (workspaceId: string, name: string) => {
+  const list = loadList();
+  findWorkspace(list, workspaceId).name = name;
+  writeStore(WORKSPACES_FILE, list);
+};
+
+/**
+ * Deletes workspace and its data. The last remaining workspace can't be deleted
+ */
+export const deleteWorkspace = (workspaceId: string) => {
+  const list = loadList();
+  if (list.workspaces.length <= 1)
+    throw new Error('At least one workspace must exist');
+  list.workspaces = list.workspaces.filter(({ id }) => id !== workspaceId);
+  if (list.selectedId === workspaceId) list.selectedId = list.workspaces[0].id;
+  writeStore(WORKSPACES_FILE, list);
+  removeStore(workspaceFile(workspaceId));
+};
@@ -0,0 +1,159 @@
+import zlib from 'zlib';
+
+/**
+ * Minimal .xlsx writer. A workbook is a zip archive of XML parts, so this
+ * builds the few parts Excel requires for a single sheet and zips them
+ */
+
+// Excel can't open sheets with more rows than this
+export const MAX_SHEET_ROWS = 1048576;
+
+export type SheetCell = string | number | boolean | null;
+
+/* eslint-disable no-bitwise */
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k += 1) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+/**
+ * CRC-32 checksum zip archives store for every file
+ */
+export const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i += 1) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+/* eslint-enable no-bitwise */
+
+/**
+ * Builds zip archive of given files, deflating each of them
+ */
+export const createZip = (files: { name: string; data: Buffer }[]) => {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  files.forEach(({ name, data }) => {
+    const nameBytes = Buffer.from(name, 'utf8');
+    const compressed = zlib.deflateRawSync(data);
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed to extract
+    local.writeUInt16LE(0x0800, 6); // names are UTF-8
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(0, 10); // modification time
+    local.writeUInt16LE(0x21, 12); // modification date, 1980-01-01
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    local.writeUInt16LE(0, 28); // extra field length
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6); // version needed to extract
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(0x21, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    // extra field, comment, disk number and attributes are all zero
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBytes, compressed);
+    centralParts.push(central, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  });
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8); // entries on this disk
+  end.writeUInt16LE(files.length, 10); // entries in total
+  end.writeUInt32LE(centralSize, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, ...centralParts, end]);
+};
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // control characters aren't allowed in XML at all
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+// column letters of zero based index. ex: 0 -> A, 27 -> AB
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') +
+  String.fromCharCode(65 + (index % 26));
+
+const cellXml = (value: SheetCell, ref: string) => {
+  if (value === null) return '';
+  if (typeof value === 'number' && Number.isFinite(value))
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  if (typeof value === 'boolean')
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+    String(value)
+  )}</t></is></c>`;
+};
+
+const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const sheetXml = (rows: SheetCell[][]) => {
+  const rowsXml = rows.map(
+    (row, r) =>
+      `<row r="${r + 1}">${row
+        .map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`))
+        .join('')}</row>`
+  );
+  return `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rowsXml.join(
+    ''
+  )}</sheetData></worksheet>`;
+};
+
+const workbookXml = `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="Results" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+const workbookRelsXml = `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`;
+
+const rootRelsXml = `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const contentTypesXml = `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`;
+
+/**
+ * Builds .xlsx workbook with a single sheet holding given rows. Numbers and
+ * booleans become typed cells, everything else is written as text
+ */
+export const createXlsx = (rows: SheetCell[][]) => {
+  if (rows.length > MAX_SHEET_ROWS)
+    throw new Error(
+      `Excel sheets hold at most ${MAX_SHEET_ROWS.toLocaleString()} rows`
+    );
+  const part = (name: string, xml: string) => ({
+    name,
+    data: Buffer.from(xml, 'utf8'),
+  });
+  return createZip([
+    part('[Content_Types].xml', contentTypesXml),
+    part('_rels/.rels', rootRelsXml),
+    part('xl/workbook.xml', workbookXml),
+    part('xl/_rels/workbook.xml.rels', workbookRelsXml),
+    part('xl/worksheets/sheet1.xml', sheetXml(rows)),
+  ]);
+};
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { ipcRenderer } from 'electron';
 import styled from 'styled-components';
 import { MuiThemeProvider } from '@material-ui/core/';
 import { StylesProvider } from '@material-ui/core/styles';
@@ -11,11 +12,21 @@ import {
   sidebarShowButtonSize,
 } from '../style-variables';
 import GlobalStyle from '../GlobalStyle';
-import { AppState, CreateNewQuery, QueryData } from '../types';
-import { createQuery, key } from '../lib/queries';
+import {
+  AppState,
+  CreateNewQuery,
+  QueryData,
+  Thresholds,
+  WorkspaceData,
+  WorkspaceList,
+} from '../types';
+import { capRows, createQuery, key } from '../lib/queries';
+import { sendFeedback } from '../lib/utils';
 import Sidebar from './sidebar/Sidebar';
 import QueryView from './views/QueryView/QueryView';
 import DbView from './views/DbView/DbView';
+import ErdView from './views/ErdView/ErdView';
+import DiffView from './views/DiffView/DiffView';
 import CompareView from './views/CompareView/CompareView';
 import QuickStartView from './views/QuickStartView';
 import FeedbackModal from './modal/FeedbackModal';
@@ -37,6 +48,18 @@ const Main = styled.main<{ $fullwidth: boolean }>`
   margin: 0;
 `;
 
+// ms without changes before workspace is saved
+const SAVE_DELAY = 1000;
+
+// rows of each query kept in saved workspaces, so large results don't make
+// every save slow
+const SAVED_ROWS = 1000;
+
+const defaultThresholds: Thresholds = {
+  percentDuration: 30,
+  rowsAccuracy: 5,
+};
+
 const App = () => {
   const [queries, setQueries] = useState<AppState['queries']>({});
   const [comparedQueries, setComparedQueries] = useState<AppState['queries']>(
@@ -49,6 +72,91 @@ const App = () => {
 
   const [selectedDb, setSelectedDb] = useState<AppState['selectedDb']>('');
   const [sidebarIsHidden, setSidebarHidden] = useState(false);
+  const [thresholds, setThresholds] = useState(defaultThresholds);
+  const [workspaceId, setWorkspaceId] = useState('');
+  // save of latest changes still waiting for SAVE_DELAY to pass
+  const pendingSave = useRef<() => void>();
+
+  /**
+   * Replace queries, compared queries and thresholds with workspace's data.
+   * workspaceId is cleared first so nothing is saved while state is only
+   * partially restored
+   */
+  const restoreWorkspace = (id: string, data: WorkspaceData) => {
+    setWorkspaceId('');
+    setQueries(data.queries);
+    setComparedQueries(
+      data.comparedKeys.reduce<AppState['queries']>(
+        (acc, queryKey) =>
+          data.queries[queryKey]
+            ? { ...acc, [queryKey]: data.queries[queryKey] }
+            : acc,
+        {}
+      )
+    );
+    setThresholds(data.thresholds);
+    setWorkingQuery(undefined);
+    setWorkspaceId(id);
+  };
+
+  const selectWorkspace = (id: string) => {
+    pendingSave.current?.();
+    ipcRenderer
+      .invoke('select-workspace', id)
+      .then((data: WorkspaceData) => restoreWorkspace(id, data))
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to load workspace',
+        })
+      );
+  };
+
+  // Restore last used workspace on launch
+  useEffect(() => {
+    ipcRenderer
+      .invoke('get-workspaces')
+      .then(({ selectedId }: WorkspaceList) =>
+        ipcRenderer
+          .invoke('load-workspace', selectedId)
+          .then((data: WorkspaceData) => restoreWorkspace(selectedId, data))
+      )
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to load saved queries',
+        })
+      );
+  }, []);
+
+  // Persist workspace once its data stops changing
+  useEffect(() => {
+    if (!workspaceId) return undefined;
+    const save = () => {
+      pendingSave.current = undefined;
+      const data: WorkspaceData = {
+        queries: capRows(queries, SAVED_ROWS),
+        comparedKeys: Object.keys(comparedQueries),
+        thresholds,
+      };
+      ipcRenderer.invoke('save-workspace', { workspaceId, data }).catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to save workspace',
+        })
+      );
+    };
+    pendingSave.current = save;
+    const timer = setTimeout(save, SAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [workspaceId, queries, comparedQueries, thresholds]);
+
+  // Save pending changes before window closes
+  useEffect(() => {
+    const flush = () => pendingSave.current?.();
+    window.addEventListener('beforeunload', flush);
+    return () => window.removeEventListener('beforeunload', flush);
+  }, []);
 
   /**
    * Hook to create new Query from data
@@ -77,6 +185,16 @@ const App = () => {
       }
       shownView = 'dbView';
       break;
+    case 'diffView':
+      shownView = 'diffView';
+      break;
+    case 'erdView':
+      if (!selectedDb) {
+        shownView = 'quickStartView';
+        break;
+      }
+      shownView = 'erdView';
+      break;
     case 'queryView':
       if (!queries.selected && !selectedDb) {
         shownView = 'quickStartView';
@@ -111,6 +229,8 @@ const App = () => {
               setWorkingQuery,
               setSidebarHidden,
               sidebarIsHidden,
+              workspaceId,
+              selectWorkspace,
             }}
           />
           <Main $fullwidth={sidebarIsHidden}>
@@ -119,12 +239,16 @@ const App = () => {
               show={shownView === 'compareView'}
             />
             <DbView selectedDb={selectedDb} show={shownView === 'dbView'} />
+            <ErdView selectedDb={selectedDb} show={shownView === 'erdView'} />
+            <DiffView selectedDb={selectedDb} show={shownView === 'diffView'} />
             <QueryView
               query={workingQuery}
               setQuery={setWorkingQuery}
               selectedDb={selectedDb}
               setSelectedDb={setSelectedDb}
               createNewQuery={createNewQuery}
+              thresholds={thresholds}
+              setThresholds={setThresholds}
               show={shownView === 'queryView'}
             />
             <QuickStartView show={shownView === 'quickStartView'} />
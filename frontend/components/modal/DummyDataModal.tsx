@@ -1,6 +1,20 @@
-import React, { useState } from 'react';
-import { Dialog } from '@material-ui/core/';
-import { ipcRenderer } from 'electron';
+import React, { useState, useEffect } from 'react';
+import {
+  Button,
+  Checkbox,
+  Dialog,
+  LinearProgress,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+} from '@material-ui/core/';
+import { ipcRenderer, IpcRendererEvent } from 'electron';
+import styled from 'styled-components';
 import {
   ButtonContainer,
   TextFieldContainer,
@@ -9,17 +23,53 @@ import {
   StyledDialogTitle,
 } from '../../style-variables';
 import { sendFeedback } from '../../lib/utils';
+import {
+  Distribution,
+  DummyColumn,
+  DummyColumnOptions,
+  DummyDataProgress,
+  DummyGenerator,
+  DummyRun,
+} from '../../types';
 
 interface DummyPayload {
   dbName: string;
+  schemaName: string;
   tableName: string;
   rows: number;
+  columns: Record<string, DummyColumnOptions>;
+  seed?: number;
 }
 
+const OptionsContainer = styled(TableContainer)`
+  max-height: 45vh;
+`;
+
+const ProgressContainer = styled.div`
+  margin-top: 16px;
+`;
+
+const NumberField = styled(TextField)`
+  width: 80px;
+`;
+
+const distributions: Distribution[] = ['uniform', 'normal', 'skewed'];
+
+// ex: firstName -> first name
+const generatorLabel = (generator: DummyGenerator) =>
+  generator === 'type'
+    ? 'any value of type'
+    : generator.replace(/[A-Z]/g, (letter) => ` ${letter.toLowerCase()}`);
+
+// number typed into field, or undefined if field is empty or not a number
+const parseNumber = (text: string) =>
+  text.trim() === '' || Number.isNaN(Number(text)) ? undefined : Number(text);
+
 type DummyDataModalProps = {
   open: boolean;
   onClose: () => void;
   dbName: string | undefined;
+  schemaName: string | undefined;
   tableName: string | undefined;
 };
 
@@ -27,15 +77,94 @@ const DummyDataModal = ({
   open,
   onClose,
   dbName,
+  schemaName,
   tableName,
 }: DummyDataModalProps) => {
   const [rowNum, setRowNum] = useState(0);
   const [isError, setIsError] = useState(false);
   const [isEmpty, setIsEmpty] = useState(true);
+  const [columns, setColumns] = useState<DummyColumn[]>([]);
+  const [seed, setSeed] = useState('');
+  const [lastRun, setLastRun] = useState<DummyRun>();
+  // progress of running generation. undefined while not generating
+  const [progress, setProgress] = useState<DummyDataProgress>();
+
+  useEffect(() => {
+    const receiveProgress = (
+      evt: IpcRendererEvent,
+      dummyDataProgress: DummyDataProgress
+    ) => {
+      // progress of populating whole database is shown by PopulateDbModal
+      if (!dummyDataProgress.table) setProgress(dummyDataProgress);
+    };
+    ipcRenderer.on('dummy-data-progress', receiveProgress);
+    return () => {
+      ipcRenderer.removeListener('dummy-data-progress', receiveProgress);
+    };
+  }, []);
+
+  // load columns with generators inferred for them whenever modal opens
+  useEffect(() => {
+    if (!open || !schemaName || !tableName) return;
+    ipcRenderer
+      .invoke('dummy-data-columns', { schemaName, tableName })
+      .then((dummyColumns: DummyColumn[]) => setColumns(dummyColumns))
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to load columns of table',
+        })
+      );
+  }, [open, schemaName, tableName]);
+
+  // find last run on this table, so it can be repeated with the same seed
+  useEffect(() => {
+    if (!open) return;
+    ipcRenderer
+      .invoke('get-dummy-runs')
+      .then((runs: DummyRun[]) =>
+        setLastRun(
+          runs.find(
+            (run) =>
+              run.db === dbName &&
+              run.schemaName === schemaName &&
+              run.tableName === tableName
+          )
+        )
+      )
+      .catch(() => setLastRun(undefined));
+  }, [open, dbName, schemaName, tableName]);
+
+  // use seed and column options of last run
+  const reuseLastRun = () => {
+    if (!lastRun) return;
+    setSeed(lastRun.seed.toString());
+    setColumns((prev) =>
+      prev.map((column) => {
+        const options = lastRun.columns?.[column.column_name];
+        return options ? { ...column, options } : column;
+      })
+    );
+  };
+
+  const setOptions = (
+    columnName: string,
+    options: Partial<DummyColumnOptions>
+  ) =>
+    setColumns((prev) =>
+      prev.map((column) =>
+        column.column_name === columnName
+          ? { ...column, options: { ...column.options, ...options } }
+          : column
+      )
+    );
 
   const handleClose = () => {
     setIsError(false);
     setIsEmpty(true);
+    setColumns([]);
+    setSeed('');
+    setProgress(undefined);
     onClose();
   };
 
@@ -78,7 +207,7 @@ const DummyDataModal = ({
   // Event handler to send rows to backend
   const handleClick = () => {
     // Check if dbName is given and not undefined
-    if (!dbName || !tableName)
+    if (!dbName || !schemaName || !tableName)
       return sendFeedback({
         type: 'error',
         message: 'Failed to generate dummy data',
@@ -86,10 +215,16 @@ const DummyDataModal = ({
 
     const payload: DummyPayload = {
       dbName,
+      schemaName,
       tableName,
       rows: rowNum,
+      columns: Object.fromEntries(
+        columns.map(({ column_name, options }) => [column_name, options])
+      ),
+      seed: seed ? Number(seed) : undefined,
     };
 
+    setProgress({ rowCount: 0, total: rowNum });
     ipcRenderer
       .invoke('generate-dummy-data', payload)
       .catch(() =>
@@ -108,8 +243,9 @@ const DummyDataModal = ({
     <div>
       <Dialog
         fullWidth
-        maxWidth="xs"
-        onClose={handleClose}
+        maxWidth={columns.length ? 'md' : 'xs'}
+        // keep open while generating, so generation can be cancelled
+        onClose={progress ? undefined : handleClose}
         aria-labelledby="modal-title"
         open={open}
       >
@@ -130,18 +266,195 @@ const DummyDataModal = ({
               style: { color: '#575151' },
             }}
           />
+          <StyledTextField
+            label="Seed"
+            size="small"
+            variant="outlined"
+            value={seed}
+            placeholder="random"
+            helperText={
+              lastRun ? (
+                <>
+                  {`Last run used seed ${lastRun.seed}. `}
+                  <Button size="small" color="primary" onClick={reuseLastRun}>
+                    Reuse it
+                  </Button>
+                </>
+              ) : (
+                'Same seed and options generate the same data'
+              )
+            }
+            onChange={(evt) => setSeed(evt.target.value.replace(/\D/g, ''))}
+            InputProps={{
+              style: { color: '#575151' },
+            }}
+          />
+          {columns.length ? (
+            <OptionsContainer>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Column</TableCell>
+                    <TableCell>Generator</TableCell>
+                    <TableCell>Min</TableCell>
+                    <TableCell>Max</TableCell>
+                    <TableCell>Distribution</TableCell>
+                    <TableCell>Null %</TableCell>
+                    <TableCell>Unique</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {columns.map(
+                    ({
+                      column_name,
+                      data_type,
+                      nullable,
+                      numeric,
+                      generators,
+                      options,
+                    }) => (
+                      <TableRow key={`dummy_col_${column_name}`}>
+                        <TableCell>
+                          <strong>{column_name}</strong>
+                          <br />
+                          {data_type}
+                        </TableCell>
+                        <TableCell>
+                          <TextField
+                            select
+                            size="small"
+                            value={options.generator}
+                            onChange={(evt) =>
+                              setOptions(column_name, {
+                                generator: evt.target.value as DummyGenerator,
+                              })
+                            }
+                          >
+                            {generators.map((generator) => (
+                              <MenuItem
+                                value={generator}
+                                key={`dummy_gen_${generator}`}
+                              >
+                                {generatorLabel(generator)}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        </TableCell>
+                        <TableCell>
+                          <NumberField
+                            size="small"
+                            type="number"
+                            disabled={!numeric}
+                            placeholder="default"
+                            value={options.min ?? ''}
+                            onChange={(evt) =>
+                              setOptions(column_name, {
+                                min: parseNumber(evt.target.value),
+                              })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <NumberField
+                            size="small"
+                            type="number"
+                            disabled={!numeric}
+                            placeholder="default"
+                            value={options.max ?? ''}
+                            onChange={(evt) =>
+                              setOptions(column_name, {
+                                max: parseNumber(evt.target.value),
+                              })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <TextField
+                            select
+                            size="small"
+                            disabled={!numeric}
+                            value={options.distribution}
+                            onChange={(evt) =>
+                              setOptions(column_name, {
+                                distribution: evt.target.value as Distribution,
+                              })
+                            }
+                          >
+                            {distributions.map((distribution) => (
+                              <MenuItem
+                                value={distribution}
+                                key={`dummy_dist_${distribution}`}
+                              >
+                                {distribution}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        </TableCell>
+                        <TableCell>
+                          <NumberField
+                            size="small"
+                            type="number"
+                            disabled={!nullable}
+                            value={options.nullPercent}
+                            inputProps={{ min: 0, max: 100 }}
+                            onChange={(evt) =>
+                              setOptions(column_name, {
+                                nullPercent: Math.min(
+                                  100,
+                                  Math.max(0, Number(evt.target.value))
+                                ),
+                              })
+                            }
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Checkbox
+                            size="small"
+                            checked={options.unique}
+                            onChange={(evt) =>
+                              setOptions(column_name, {
+                                unique: evt.target.checked,
+                              })
+                            }
+                          />
+                        </TableCell>
+                      </TableRow>
+                    )
+                  )}
+                </TableBody>
+              </Table>
+            </OptionsContainer>
+          ) : null}
+          {progress ? (
+            <ProgressContainer>
+              <LinearProgress
+                variant="determinate"
+                value={
+                  progress.total
+                    ? (progress.rowCount / progress.total) * 100
+                    : 0
+                }
+              />
+              {`${progress.rowCount.toLocaleString()} of ${progress.total.toLocaleString()} rows generated`}
+            </ProgressContainer>
+          ) : null}
         </TextFieldContainer>
         <ButtonContainer>
           <StyledButton
             variant="contained"
             color="secondary"
-            onClick={handleClose}
+            onClick={
+              progress
+                ? () => ipcRenderer.invoke('cancel-dummy-data')
+                : handleClose
+            }
           >
             Cancel
           </StyledButton>
           <StyledButton
             variant="contained"
             color="primary"
+            disabled={!!progress}
             onClick={isError || isEmpty ? () => {} : handleClick}
           >
             Generate
@@ -0,0 +1,488 @@
+import { ipcRenderer, remote } from 'electron';
+import React, { useState, useEffect } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  FormControlLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography,
+} from '@material-ui/core';
+import styled from 'styled-components';
+import {
+  ImportColumn,
+  ImportOptions,
+  ImportPreview,
+  ImportResult,
+  ImportRowError,
+  TableInfo,
+} from '../../types';
+import { sendFeedback } from '../../lib/utils';
+import { defaultMargin, StyledDialogTitle } from '../../style-variables';
+
+const { dialog } = remote;
+
+const Controls = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: ${defaultMargin};
+  margin-bottom: ${defaultMargin};
+`;
+
+const NameField = styled(TextField)`
+  min-width: 160px;
+`;
+
+const PreviewContainer = styled(TableContainer)`
+  max-height: 45vh;
+`;
+
+const ErrorList = styled.ul`
+  max-height: 20vh;
+  overflow: auto;
+  color: #f44336;
+`;
+
+// same check backend uses to pick parser
+const isJsonFile = (filePath: string) =>
+  /\.(json|jsonl|ndjson)$/i.test(filePath);
+
+const defaultOptions: ImportOptions = {
+  delimiter: ',',
+  quote: '"',
+  header: true,
+};
+
+const delimiters: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+// types offered for columns of new tables. Inferred types are among them
+const newColumnTypes = [
+  'text',
+  'integer',
+  'bigint',
+  'numeric',
+  'boolean',
+  'date',
+  'timestamptz',
+  'jsonb',
+];
+
+/**
+ * Target of each file column. Empty target skips column
+ */
+type Mapping = Omit<ImportColumn, 'source'>[];
+
+interface ImportTableModalProps {
+  open: boolean;
+  onClose: () => void;
+  tables: TableInfo[];
+  schemas: string[];
+  /**
+   * Table data is imported into by default
+   */
+  selectedTable: TableInfo | undefined;
+}
+
+/**
+ * Imports rows of a CSV or JSON file into an existing table or a new one.
+ * Shows first rows of file so its columns can be mapped to table columns
+ */
+const ImportTableModal = ({
+  open,
+  onClose,
+  tables,
+  schemas,
+  selectedTable,
+}: ImportTableModalProps) => {
+  const [filePath, setFilePath] = useState<string>();
+  const [options, setOptions] = useState(defaultOptions);
+  const [preview, setPreview] = useState<ImportPreview>();
+  const [createTable, setCreateTable] = useState(false);
+  const [tableName, setTableName] = useState(selectedTable?.qualified_name);
+  const [newSchema, setNewSchema] = useState('public');
+  const [newName, setNewName] = useState('');
+  const [mapping, setMapping] = useState<Mapping>([]);
+  const [errors, setErrors] = useState<ImportRowError[]>([]);
+
+  const table = tables.find(
+    ({ qualified_name }) => qualified_name === tableName
+  );
+
+  // import into table selected in database view by default
+  useEffect(() => {
+    if (open) setTableName(selectedTable?.qualified_name);
+  }, [open, selectedTable]);
+
+  // read file again whenever it or the way it's parsed changes
+  useEffect(() => {
+    if (!filePath) return;
+    ipcRenderer
+      .invoke('preview-import', { filePath, options })
+      .then((result: ImportPreview) => {
+        setPreview(result);
+        setErrors([]);
+      })
+      .catch((err) => {
+        setPreview(undefined);
+        sendFeedback({
+          type: 'error',
+          message: `Failed to read file. ${err?.message ?? ''}`,
+        });
+      });
+  }, [filePath, options]);
+
+  // match file columns to table columns of the same name, or use their own
+  // names and inferred types for a new table
+  useEffect(() => {
+    if (!preview) return;
+    setMapping(
+      preview.columns.map((column, i) => {
+        if (createTable) return { target: column, type: preview.types[i] };
+        const match = table?.columns.find(
+          ({ column_name }) =>
+            column_name.toLowerCase() === column.toLowerCase()
+        );
+        return {
+          target: match?.column_name ?? '',
+          type: match?.data_type ?? '',
+        };
+      })
+    );
+  }, [preview, createTable, table]);
+
+  const handleClose = () => {
+    setFilePath(undefined);
+    setPreview(undefined);
+    setErrors([]);
+    onClose();
+  };
+
+  const chooseFile = () => {
+    dialog
+      .showOpenDialog({
+        properties: ['openFile'],
+        filters: [
+          {
+            name: 'CSV or JSON',
+            extensions: ['csv', 'tsv', 'txt', 'json', 'jsonl', 'ndjson'],
+          },
+        ],
+      })
+      .then(({ canceled, filePaths }) => {
+        if (canceled || !filePaths.length) return;
+        const [path] = filePaths;
+        setFilePath(path);
+        setNewName(
+          (path.split(/[\\/]/).pop() ?? '')
+            .replace(/\.[^.]*$/, '')
+            .replace(/\W/g, '_')
+            .toLowerCase()
+        );
+        if (/\.tsv$/i.test(path)) setOptions({ ...options, delimiter: '\t' });
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to open file',
+        })
+      );
+  };
+
+  const setColumn = (index: number, changes: Partial<Mapping[number]>) =>
+    setMapping(
+      mapping.map((column, i) =>
+        i === index ? { ...column, ...changes } : column
+      )
+    );
+
+  const columns: ImportColumn[] = mapping.flatMap((column, source) =>
+    column.target ? [{ ...column, source }] : []
+  );
+
+  const destination = createTable
+    ? { schemaName: newSchema, tableName: newName.trim() }
+    : { schemaName: table?.table_schema, tableName: table?.table_name };
+
+  const importFile = () => {
+    ipcRenderer
+      .invoke('import-table', {
+        filePath,
+        options,
+        ...destination,
+        createTable,
+        columns,
+      })
+      .then(({ rowCount, errors: failed }: ImportResult) => {
+        if (failed.length) {
+          setErrors(failed);
+          return;
+        }
+        sendFeedback({
+          type: 'success',
+          message: `Imported ${rowCount.toLocaleString()} rows into ${
+            destination.tableName
+          }`,
+        });
+        handleClose();
+      })
+      .catch((err) =>
+        sendFeedback({
+          type: 'error',
+          message: `Failed to import file. ${err?.message ?? ''}`,
+        })
+      );
+  };
+
+  const canImport =
+    !!preview &&
+    !!columns.length &&
+    !!destination.tableName &&
+    !!destination.schemaName;
+
+  return (
+    <Dialog fullWidth maxWidth="lg" open={open} onClose={handleClose}>
+      <StyledDialogTitle>Import Data into Table</StyledDialogTitle>
+      <DialogContent>
+        <Controls>
+          <Button variant="outlined" onClick={chooseFile}>
+            Choose File
+          </Button>
+          <Typography>{filePath ?? 'CSV or JSON file'}</Typography>
+        </Controls>
+        {filePath && !isJsonFile(filePath) ? (
+          <Controls>
+            <TextField
+              select
+              label="Delimiter"
+              value={options.delimiter}
+              onChange={(evt) =>
+                setOptions({ ...options, delimiter: evt.target.value })
+              }
+            >
+              {Object.entries(delimiters).map(([delimiter, label]) => (
+                <MenuItem value={delimiter} key={`import_delim_${label}`}>
+                  {label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Quote"
+              value={options.quote}
+              inputProps={{ maxLength: 1 }}
+              onChange={(evt) =>
+                setOptions({ ...options, quote: evt.target.value })
+              }
+            />
+            <FormControlLabel
+              control={
+                // eslint-disable-next-line react/jsx-wrap-multilines
+                <Switch
+                  checked={options.header}
+                  onChange={() =>
+                    setOptions({ ...options, header: !options.header })
+                  }
+                  color="primary"
+                />
+              }
+              label="Header row"
+            />
+          </Controls>
+        ) : null}
+        {preview ? (
+          <>
+            <Controls>
+              <RadioGroup
+                row
+                value={createTable ? 'new' : 'existing'}
+                onChange={(evt) => setCreateTable(evt.target.value === 'new')}
+              >
+                <FormControlLabel
+                  value="existing"
+                  control={<Radio color="primary" />}
+                  label="Existing table"
+                />
+                <FormControlLabel
+                  value="new"
+                  control={<Radio color="primary" />}
+                  label="New table"
+                />
+              </RadioGroup>
+              {createTable ? (
+                <>
+                  <NameField
+                    select
+                    label="Schema"
+                    value={newSchema}
+                    onChange={(evt) => setNewSchema(evt.target.value)}
+                  >
+                    {schemas.map((schema) => (
+                      <MenuItem value={schema} key={`import_schema_${schema}`}>
+                        {schema}
+                      </MenuItem>
+                    ))}
+                  </NameField>
+                  <NameField
+                    label="Table name"
+                    value={newName}
+                    onChange={(evt) => setNewName(evt.target.value)}
+                  />
+                </>
+              ) : (
+                <NameField
+                  select
+                  label="Table"
+                  value={tableName ?? ''}
+                  onChange={(evt) => setTableName(evt.target.value)}
+                >
+                  {tables.map(({ qualified_name }) => (
+                    <MenuItem
+                      value={qualified_name}
+                      key={`import_table_${qualified_name}`}
+                    >
+                      {qualified_name}
+                    </MenuItem>
+                  ))}
+                </NameField>
+              )}
+            </Controls>
+            <DialogContentText>
+              {`${preview.rowCount.toLocaleString()} rows in file. Columns without a target are skipped.`}
+            </DialogContentText>
+            <PreviewContainer>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    {preview.columns.map((column, i) => (
+                      // file columns may share a name
+                      // eslint-disable-next-line react/no-array-index-key
+                      <TableCell key={`import_col_${i}`}>
+                        <strong>{column}</strong>
+                        <br />
+                        {createTable ? (
+                          <>
+                            <TextField
+                              size="small"
+                              value={mapping[i]?.target ?? ''}
+                              placeholder="skip"
+                              onChange={(evt) =>
+                                setColumn(i, { target: evt.target.value })
+                              }
+                            />
+                            <TextField
+                              select
+                              size="small"
+                              value={mapping[i]?.type ?? 'text'}
+                              onChange={(evt) =>
+                                setColumn(i, { type: evt.target.value })
+                              }
+                            >
+                              {newColumnTypes.map((type) => (
+                                <MenuItem
+                                  value={type}
+                                  key={`import_type_${type}`}
+                                >
+                                  {type}
+                                </MenuItem>
+                              ))}
+                            </TextField>
+                          </>
+                        ) : (
+                          <TextField
+                            select
+                            size="small"
+                            value={mapping[i]?.target ?? ''}
+                            onChange={(evt) => {
+                              const target = table?.columns.find(
+                                ({ column_name }) =>
+                                  column_name === evt.target.value
+                              );
+                              setColumn(i, {
+                                target: target?.column_name ?? '',
+                                type: target?.data_type ?? '',
+                              });
+                            }}
+                          >
+                            <MenuItem value="">
+                              <em>skip</em>
+                            </MenuItem>
+                            {table?.columns.map(({ column_name }) => (
+                              <MenuItem
+                                value={column_name}
+                                key={`import_target_${column_name}`}
+                              >
+                                {column_name}
+                              </MenuItem>
+                            ))}
+                          </TextField>
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {preview.rows.map((row, r) => (
+                    // eslint-disable-next-line react/no-array-index-key
+                    <TableRow key={`import_row_${r}`}>
+                      {preview.columns.map((column, c) => (
+                        // eslint-disable-next-line react/no-array-index-key
+                        <TableCell key={`import_cell_${c}`}>
+                          {row[c] ?? <em>NULL</em>}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </PreviewContainer>
+          </>
+        ) : null}
+        {errors.length ? (
+          <>
+            <br />
+            <DialogContentText>
+              Nothing was imported. Fix these rows and try again:
+            </DialogContentText>
+            <ErrorList>
+              {errors.map(({ row, message }) => (
+                <li key={`import_error_${row}_${message}`}>
+                  {row ? `Row ${row}: ${message}` : message}
+                </li>
+              ))}
+            </ErrorList>
+          </>
+        ) : null}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={handleClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          color="primary"
+          onClick={importFile}
+          disabled={!canImport}
+        >
+          Import
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ImportTableModal;
@@ -0,0 +1,333 @@
+import { ipcRenderer, IpcRendererEvent } from 'electron';
+import React, { useState, useEffect } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+} from '@material-ui/core';
+import styled from 'styled-components';
+import {
+  DummyDataProgress,
+  PopulatePlan,
+  PopulateReport,
+  PopulateTable,
+  TableInfo,
+} from '../../types';
+import { sendFeedback } from '../../lib/utils';
+import { defaultMargin, StyledDialogTitle } from '../../style-variables';
+
+const TablesContainer = styled(TableContainer)`
+  max-height: 45vh;
+`;
+
+const Warnings = styled.ul`
+  max-height: 15vh;
+  overflow: auto;
+  color: #ff9800;
+`;
+
+const ErrorText = styled(DialogContentText)`
+  color: #f44336;
+`;
+
+const SeedField = styled(TextField)`
+  margin-top: ${defaultMargin};
+`;
+
+// rows generated for each table unless changed
+const DEFAULT_ROWS = '100';
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(2)} s`;
+
+const cycleWarning = (cycle: string[]) =>
+  `${
+    cycle.length === 1
+      ? `${cycle[0]} references itself`
+      : `${cycle.join(' → ')} reference each other`
+  } with NOT NULL foreign keys, so one of them must already have rows`;
+
+interface PopulateDbModalProps {
+  open: boolean;
+  onClose: () => void;
+  dbName: string | undefined;
+  tables: TableInfo[];
+}
+
+/**
+ * Fills every table of database with dummy data. Tables are filled in foreign
+ * key order, so foreign keys can reference rows generated for earlier tables
+ */
+const PopulateDbModal = ({
+  open,
+  onClose,
+  dbName,
+  tables,
+}: PopulateDbModalProps) => {
+  const [plan, setPlan] = useState<PopulatePlan>();
+  const [rows, setRows] = useState<Record<string, string>>({});
+  const [seed, setSeed] = useState('');
+  // progress of running population. undefined while not populating
+  const [progress, setProgress] = useState<DummyDataProgress>();
+  const [report, setReport] = useState<PopulateReport>();
+
+  // order tables whenever modal opens
+  useEffect(() => {
+    if (!open) return;
+    ipcRenderer
+      .invoke('populate-plan', {
+        tables: tables.map(({ qualified_name }) => qualified_name),
+      })
+      .then((populatePlan: PopulatePlan) => setPlan(populatePlan))
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to read foreign keys of database',
+        })
+      );
+  }, [open, tables]);
+
+  useEffect(() => {
+    const receiveProgress = (
+      evt: IpcRendererEvent,
+      dummyDataProgress: DummyDataProgress
+    ) => {
+      // progress of generating into a single table is shown by DummyDataModal
+      if (dummyDataProgress.table) setProgress(dummyDataProgress);
+    };
+    ipcRenderer.on('dummy-data-progress', receiveProgress);
+    return () => {
+      ipcRenderer.removeListener('dummy-data-progress', receiveProgress);
+    };
+  }, []);
+
+  const handleClose = () => {
+    setPlan(undefined);
+    setRows({});
+    setSeed('');
+    setProgress(undefined);
+    setReport(undefined);
+    onClose();
+  };
+
+  const rowsOf = (qualifiedName: string) =>
+    Number(rows[qualifiedName] ?? DEFAULT_ROWS);
+
+  const populate = () => {
+    if (!plan) return;
+    const populated: PopulateTable[] = plan.order.flatMap((qualifiedName) => {
+      const table = tables.find(
+        ({ qualified_name }) => qualified_name === qualifiedName
+      );
+      return table
+        ? [
+            {
+              schemaName: table.table_schema,
+              tableName: table.table_name,
+              qualifiedName,
+              rows: rowsOf(qualifiedName),
+            },
+          ]
+        : [];
+    });
+    setReport(undefined);
+    setProgress({ rowCount: 0, total: 0 });
+    ipcRenderer
+      .invoke('populate-database', {
+        dbName,
+        tables: populated,
+        seed: seed ? Number(seed) : undefined,
+      })
+      .then((populateReport: PopulateReport) => setReport(populateReport))
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to populate database',
+        })
+      )
+      .finally(() => setProgress(undefined));
+  };
+
+  // population succeeded and its report is shown
+  const done = !!report && !report.error;
+
+  const totalRows = report?.tables.reduce(
+    (sum, { rowCount }) => sum + rowCount,
+    0
+  );
+
+  return (
+    <Dialog
+      fullWidth
+      maxWidth="md"
+      open={open}
+      // keep open while populating, so population can be cancelled
+      onClose={progress ? undefined : handleClose}
+    >
+      <StyledDialogTitle>Populate Database with Dummy Data</StyledDialogTitle>
+      <DialogContent>
+        {plan && !done ? (
+          <>
+            <DialogContentText>
+              Tables are filled in this order, so foreign keys can reference
+              rows of tables filled before them. Everything is rolled back if
+              any table fails.
+            </DialogContentText>
+            <TablesContainer>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>#</TableCell>
+                    <TableCell>Table</TableCell>
+                    <TableCell>Rows</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {plan.order.map((qualifiedName, i) => (
+                    <TableRow key={`populate_table_${qualifiedName}`}>
+                      <TableCell>{i + 1}</TableCell>
+                      <TableCell>{qualifiedName}</TableCell>
+                      <TableCell>
+                        <TextField
+                          size="small"
+                          type="number"
+                          inputProps={{ min: 0 }}
+                          value={rows[qualifiedName] ?? DEFAULT_ROWS}
+                          onChange={(evt) =>
+                            setRows({
+                              ...rows,
+                              [qualifiedName]: evt.target.value.replace(
+                                /\D/g,
+                                ''
+                              ),
+                            })
+                          }
+                        />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TablesContainer>
+            {plan.brokenReferences.length || plan.cycles.length ? (
+              <Warnings>
+                {plan.brokenReferences.map(
+                  ({ table_name, column_name, foreign_table }) => (
+                    <li key={`populate_broken_${table_name}_${column_name}`}>
+                      {`${table_name}.${column_name} is NULL unless ${foreign_table} already has rows, since these tables reference each other`}
+                    </li>
+                  )
+                )}
+                {plan.cycles.map((cycle) => (
+                  <li key={`populate_cycle_${cycle.join('_')}`}>
+                    {cycleWarning(cycle)}
+                  </li>
+                ))}
+              </Warnings>
+            ) : null}
+            <SeedField
+              label="Seed"
+              size="small"
+              variant="outlined"
+              value={seed}
+              placeholder="random"
+              helperText="Same seed and row counts generate the same data"
+              onChange={(evt) => setSeed(evt.target.value.replace(/\D/g, ''))}
+            />
+          </>
+        ) : null}
+        {progress?.table ? (
+          <>
+            <br />
+            <LinearProgress
+              variant="determinate"
+              value={
+                progress.total ? (progress.rowCount / progress.total) * 100 : 0
+              }
+            />
+            {`Filling ${
+              progress.table
+            }: ${progress.rowCount.toLocaleString()} of ${progress.total.toLocaleString()} rows`}
+          </>
+        ) : null}
+        {report?.error ? (
+          <ErrorText>
+            {`Nothing was inserted. ${
+              report.failedTable ? `${report.failedTable} failed: ` : ''
+            }${report.error}`}
+          </ErrorText>
+        ) : null}
+        {report && done ? (
+          <>
+            <DialogContentText>
+              {`Inserted ${totalRows?.toLocaleString()} rows into ${
+                report.tables.length
+              } tables with seed ${report.seed}.`}
+            </DialogContentText>
+            <TablesContainer>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Table</TableCell>
+                    <TableCell>Rows</TableCell>
+                    <TableCell>Duration</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.tables.map(
+                    ({ qualifiedName, rowCount, duration }) => (
+                      <TableRow key={`populate_report_${qualifiedName}`}>
+                        <TableCell>{qualifiedName}</TableCell>
+                        <TableCell>{rowCount.toLocaleString()}</TableCell>
+                        <TableCell>{seconds(duration)}</TableCell>
+                      </TableRow>
+                    )
+                  )}
+                </TableBody>
+              </Table>
+            </TablesContainer>
+            {report.tables
+              .filter(({ selfReferences }) => selfReferences.length)
+              .map(({ qualifiedName, selfReferences }) => (
+                <DialogContentText key={`populate_self_${qualifiedName}`}>
+                  {`${selfReferences.join(
+                    ', '
+                  )} of ${qualifiedName} were filled after its rows were inserted, since it had no rows to reference`}
+                </DialogContentText>
+              ))}
+          </>
+        ) : null}
+      </DialogContent>
+      <DialogActions>
+        {progress ? (
+          <Button onClick={() => ipcRenderer.invoke('cancel-dummy-data')}>
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={handleClose}>{done ? 'Close' : 'Cancel'}</Button>
+        )}
+        {done ? null : (
+          <Button
+            variant="contained"
+            color="primary"
+            onClick={populate}
+            disabled={!plan || !!progress || !dbName}
+          >
+            Populate
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default PopulateDbModal;
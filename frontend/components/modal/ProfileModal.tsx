@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, MenuItem, Button } from '@material-ui/core/';
+import { ipcRenderer } from 'electron';
+import {
+  ButtonContainer,
+  TextFieldContainer,
+  StyledButton,
+  StyledTextField,
+  StyledDialogTitle,
+} from '../../style-variables';
+import { sendFeedback } from '../../lib/utils';
+import type { ConnectionProfile, ProfileList, SslMode } from '../../types';
+
+const emptyProfile: ConnectionProfile = {
+  id: '',
+  name: '',
+  host: 'localhost',
+  port: 5432,
+  user: 'postgres',
+  database: '',
+  sslMode: 'disable',
+};
+
+const sslModes: SslMode[] = ['disable', 'require', 'verify-full'];
+
+const inputProps = {
+  style: { color: '#575151' },
+};
+
+type ProfileModalProps = {
+  open: boolean;
+  onClose: () => void;
+  /**
+   * Profile to be edited. Creates a new profile if undefined
+   */
+  profile: ConnectionProfile | undefined;
+  onChange: (list: ProfileList) => void;
+};
+
+const ProfileModal = ({
+  open,
+  onClose,
+  profile,
+  onChange,
+}: ProfileModalProps) => {
+  const [localProfile, setLocalProfile] = useState(profile ?? emptyProfile);
+  // undefined means password wasn't changed and stored one should be kept
+  const [password, setPassword] = useState<string>();
+  const [hasPassword, setHasPassword] = useState(false);
+
+  // reset form whenever modal is opened for a different profile
+  useEffect(() => {
+    setLocalProfile(profile ?? emptyProfile);
+    setPassword(undefined);
+    setHasPassword(false);
+    if (!profile || !open) return;
+    // backend only tells us if there is a stored password, never what it is
+    ipcRenderer
+      .invoke('get-credential', profile.id)
+      .then((isStored: boolean) => setHasPassword(isStored))
+      .catch(() => setHasPassword(false));
+  }, [profile, open]);
+
+  const isEmpty = !localProfile.name.trim() || !localProfile.host.trim();
+
+  const handleChange = (field: keyof ConnectionProfile) => (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    setLocalProfile({ ...localProfile, [field]: event.target.value });
+  };
+
+  const handlePortChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const port = event.target.value.replace(/\D/g, '');
+    setLocalProfile({ ...localProfile, port: Number(port) });
+  };
+
+  const handleClearPassword = () => {
+    if (!profile) return;
+    ipcRenderer
+      .invoke('delete-credential', profile.id)
+      .then((cleared: boolean) => {
+        // refused while a transaction is open
+        if (!cleared) return;
+        setHasPassword(false);
+        setPassword(undefined);
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to clear saved password',
+        })
+      );
+  };
+
+  const handleSave = () => {
+    ipcRenderer
+      .invoke('save-profile', localProfile, password)
+      .then((list?: ProfileList) => {
+        // refused while a transaction is open
+        if (!list) return;
+        onChange(list);
+        onClose();
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to save connection profile',
+        })
+      );
+  };
+
+  const handleDelete = () => {
+    ipcRenderer
+      .invoke('delete-profile', localProfile.id)
+      .then((list?: ProfileList) => {
+        // refused while a transaction is open
+        if (!list) return;
+        onChange(list);
+        onClose();
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to delete connection profile',
+        })
+      );
+  };
+
+  return (
+    <div>
+      <Dialog
+        fullWidth
+        maxWidth="xs"
+        onClose={onClose}
+        aria-labelledby="modal-title"
+        open={open}
+      >
+        <TextFieldContainer>
+          <StyledDialogTitle id="alert-dialog-title">
+            {profile ? 'Edit Connection Profile' : 'New Connection Profile'}
+          </StyledDialogTitle>
+          <StyledTextField
+            required
+            error={!localProfile.name.trim()}
+            label="Profile name"
+            size="small"
+            variant="outlined"
+            value={localProfile.name}
+            onChange={handleChange('name')}
+            InputProps={inputProps}
+          />
+          <StyledTextField
+            required
+            error={!localProfile.host.trim()}
+            label="Host"
+            size="small"
+            variant="outlined"
+            value={localProfile.host}
+            onChange={handleChange('host')}
+            InputProps={inputProps}
+          />
+          <StyledTextField
+            label="Port"
+            size="small"
+            variant="outlined"
+            value={localProfile.port}
+            onChange={handlePortChange}
+            InputProps={inputProps}
+          />
+          <StyledTextField
+            label="User"
+            size="small"
+            variant="outlined"
+            value={localProfile.user}
+            onChange={handleChange('user')}
+            InputProps={inputProps}
+          />
+          <StyledTextField
+            label="Password"
+            type="password"
+            size="small"
+            variant="outlined"
+            placeholder={hasPassword ? 'Saved. Type to replace' : ''}
+            InputLabelProps={{ shrink: true }}
+            value={password ?? ''}
+            onChange={(evt) => setPassword(evt.target.value)}
+            InputProps={inputProps}
+          />
+          {hasPassword ? (
+            <Button size="small" onClick={handleClearPassword}>
+              Clear saved password
+            </Button>
+          ) : null}
+          <StyledTextField
+            label="Default database"
+            helperText="Leave empty to use Postgres default"
+            size="small"
+            variant="outlined"
+            value={localProfile.database}
+            onChange={handleChange('database')}
+            InputProps={inputProps}
+          />
+          <StyledTextField
+            select
+            label="SSL mode"
+            size="small"
+            variant="outlined"
+            value={localProfile.sslMode}
+            onChange={handleChange('sslMode')}
+            InputProps={inputProps}
+          >
+            {sslModes.map((mode) => (
+              <MenuItem value={mode} key={`profile_sslmode_${mode}`}>
+                {mode}
+              </MenuItem>
+            ))}
+          </StyledTextField>
+        </TextFieldContainer>
+        <ButtonContainer>
+          {profile ? (
+            <StyledButton
+              variant="contained"
+              color="secondary"
+              onClick={handleDelete}
+            >
+              Delete
+            </StyledButton>
+          ) : null}
+          <StyledButton variant="contained" color="secondary" onClick={onClose}>
+            Cancel
+          </StyledButton>
+          <StyledButton
+            variant="contained"
+            color="primary"
+            onClick={isEmpty ? () => {} : handleSave}
+          >
+            Save
+          </StyledButton>
+        </ButtonContainer>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ProfileModal;
@@ -19,7 +19,7 @@ const StyledSidebarList = styled(SidebarList)`
 
 type DbListProps = Pick<
   AppState,
-  'selectedDb' | 'setSelectedDb' | 'setSelectedView'
+  'selectedDb' | 'setSelectedDb' | 'selectedView' | 'setSelectedView'
 > & {
   show: boolean;
 };
@@ -27,6 +27,7 @@ type DbListProps = Pick<
 const DbList = ({
   selectedDb,
   setSelectedDb,
+  selectedView,
   setSelectedView,
   show,
 }: DbListProps) => {
@@ -68,12 +69,14 @@ const DbList = ({
   };
 
   const selectHandler = (dbName: string) => {
-    setSelectedView('dbView');
+    // stay on diagram when switching databases from it
+    if (selectedView !== 'erdView') setSelectedView('dbView');
     if (dbName === selectedDb) return;
     ipcRenderer
       .invoke('select-db', dbName)
-      .then(() => {
-        setSelectedDb(dbName);
+      .then((selected: boolean) => {
+        // refused while a transaction is open
+        if (selected) setSelectedDb(dbName);
       })
       .catch(() =>
         sendFeedback({
@@ -0,0 +1,197 @@
+import React, { useState, useEffect } from 'react';
+import { IpcRendererEvent, ipcRenderer } from 'electron';
+import styled from 'styled-components';
+import ms from 'ms';
+import {
+  IconButton,
+  MenuItem,
+  Select,
+  TextField,
+  Tooltip,
+} from '@material-ui/core';
+import DeleteSweepIcon from '@material-ui/icons/DeleteSweep';
+import { AppState, HistoryEntry } from '../../types';
+import { filterHistory, historyDbs, sqlPreview } from '../../lib/history';
+import { sendFeedback } from '../../lib/utils';
+import {
+  SidebarList,
+  SidebarListItem,
+  StyledListItemText,
+  textColor,
+  diffColors,
+  greyDarkest,
+} from '../../style-variables';
+
+const Filters = styled.div`
+  display: flex;
+  align-items: center;
+  width: 100%;
+  padding: 0 5px 0 15px;
+`;
+
+const StyledSelect = styled(Select)`
+  flex: 1;
+  color: ${textColor};
+`;
+
+const StyledMenuItem = styled(MenuItem)`
+  color: #575151;
+`;
+
+const SearchField = styled(TextField)`
+  width: 100%;
+  padding: 0 15px;
+  & .MuiInputBase-input {
+    color: ${textColor};
+  }
+`;
+
+const StyledSidebarList = styled(SidebarList)`
+  background-color: ${greyDarkest};
+  overflow-y: auto;
+`;
+
+interface EntryTextProps {
+  $failed: boolean;
+}
+
+const EntryText = styled(StyledListItemText)`
+  & .MuiListItemText-primary {
+    max-width: none;
+    font-family: monospace;
+    font-size: 0.8em;
+  }
+  & .MuiListItemText-secondary {
+    color: ${({ $failed }: EntryTextProps) =>
+      $failed ? diffColors.removed : textColor};
+  }
+`;
+
+const describeRun = ({
+  db,
+  timestamp,
+  duration,
+  rowCount,
+  error,
+}: HistoryEntry) =>
+  `${db} · ${new Date(timestamp).toLocaleString()} · ${
+    error ?? `${rowCount} rows in ${ms(duration)}`
+  }`;
+
+type HistoryListProps = Pick<
+  AppState,
+  'setWorkingQuery' | 'setSelectedView'
+> & {
+  show: boolean;
+};
+
+/**
+ * Searchable log of every query execution. Selecting an entry loads its SQL
+ * and parameter values into the working query
+ */
+const HistoryList = ({
+  setWorkingQuery,
+  setSelectedView,
+  show,
+}: HistoryListProps) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [db, setDb] = useState('');
+  const [search, setSearch] = useState('');
+
+  useEffect(() => {
+    ipcRenderer
+      .invoke('get-history')
+      .then((history: HistoryEntry[]) => setEntries(history))
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to load query history',
+        })
+      );
+  }, []);
+
+  useEffect(() => {
+    // backend logs every run and sends the new entry
+    const receiveEntry = (evt: IpcRendererEvent, entry: HistoryEntry) => {
+      setEntries([entry, ...entries]);
+    };
+    ipcRenderer.on('history-entry', receiveEntry);
+    return () => {
+      ipcRenderer.removeListener('history-entry', receiveEntry);
+    };
+  });
+
+  const clear = () => {
+    ipcRenderer
+      .invoke('clear-history')
+      .then(() => setEntries([]))
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to clear query history',
+        })
+      );
+  };
+
+  const restore = (entry: HistoryEntry) => {
+    setWorkingQuery({
+      label: '',
+      db: entry.db,
+      sqlString: entry.sqlString,
+      params: entry.params,
+    });
+    setSelectedView('queryView');
+  };
+
+  if (!show) return null;
+  return (
+    <>
+      <Filters>
+        <Tooltip title="Database">
+          <StyledSelect
+            value={db}
+            displayEmpty
+            onChange={(evt) => setDb(evt.target.value as string)}
+          >
+            <StyledMenuItem value="">All databases</StyledMenuItem>
+            {historyDbs(entries).map((dbName) => (
+              <StyledMenuItem value={dbName} key={`history_db_${dbName}`}>
+                {dbName}
+              </StyledMenuItem>
+            ))}
+          </StyledSelect>
+        </Tooltip>
+        <Tooltip title="Clear History">
+          <IconButton onClick={clear}>
+            <DeleteSweepIcon />
+          </IconButton>
+        </Tooltip>
+      </Filters>
+      <SearchField
+        placeholder="Search SQL and errors"
+        value={search}
+        onChange={(evt) => setSearch(evt.target.value)}
+      />
+      <StyledSidebarList>
+        {filterHistory(entries, db, search).map((entry) => (
+          <SidebarListItem
+            button
+            $customSelected={false}
+            key={`history_${entry.id}`}
+            onClick={() => restore(entry)}
+          >
+            <Tooltip title={entry.sqlString} placement="right">
+              <EntryText
+                $failed={!!entry.error}
+                primary={sqlPreview(entry.sqlString)}
+                secondary={describeRun(entry)}
+              />
+            </Tooltip>
+          </SidebarListItem>
+        ))}
+      </StyledSidebarList>
+    </>
+  );
+};
+
+export default HistoryList;
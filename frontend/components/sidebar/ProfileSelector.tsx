@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { ipcRenderer } from 'electron';
+import { IconButton, MenuItem, Select, Tooltip } from '@material-ui/core';
+import AddIcon from '@material-ui/icons/Add';
+import EditIcon from '@material-ui/icons/Edit';
+import { AppState, ConnectionProfile, ProfileList } from '../../types';
+import { sendFeedback } from '../../lib/utils';
+import ProfileModal from '../modal/ProfileModal';
+import { textColor } from '../../style-variables';
+
+const Container = styled.div`
+  display: flex;
+  align-items: center;
+  width: 100%;
+  padding: 0 5px 0 15px;
+`;
+
+const StyledSelect = styled(Select)`
+  flex: 1;
+  color: ${textColor};
+`;
+
+const StyledMenuItem = styled(MenuItem)`
+  color: #575151;
+`;
+
+type ProfileSelectorProps = Pick<
+  AppState,
+  'setSelectedDb' | 'setSelectedView'
+> & {
+  show: boolean;
+};
+
+/**
+ * Sidebar picker for connection profiles. Selecting a profile reconnects the
+ * backend with the profile's settings
+ */
+const ProfileSelector = ({
+  setSelectedDb,
+  setSelectedView,
+  show,
+}: ProfileSelectorProps) => {
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [openModal, setOpenModal] = useState(false);
+  const [editedProfile, setEditedProfile] = useState<ConnectionProfile>();
+
+  const updateList = (list: ProfileList) => {
+    setProfiles(list.profiles);
+    // backend reconnects to default database if current profile was edited or
+    // deleted
+    if (list.selectedId !== selectedId || editedProfile?.id === selectedId)
+      setSelectedDb('');
+    setSelectedId(list.selectedId);
+  };
+
+  useEffect(() => {
+    ipcRenderer
+      .invoke('get-profiles')
+      .then((list: ProfileList) => {
+        setProfiles(list.profiles);
+        setSelectedId(list.selectedId);
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to load connection profiles',
+        })
+      );
+  }, []);
+
+  const selectHandler = (profileId: string) => {
+    if (profileId === selectedId) return;
+    ipcRenderer
+      .invoke('select-profile', profileId)
+      .then((selected: boolean) => {
+        // refused while a transaction is open
+        if (!selected) return;
+        setSelectedId(profileId);
+        setSelectedDb('');
+        setSelectedView('dbView');
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to connect with selected profile',
+        })
+      );
+  };
+
+  const openEditor = (profile?: ConnectionProfile) => {
+    setEditedProfile(profile);
+    setOpenModal(true);
+  };
+
+  if (!show) return null;
+  return (
+    <Container>
+      <Tooltip title="Connection Profile">
+        <StyledSelect
+          value={selectedId}
+          onChange={(evt) => selectHandler(evt.target.value as string)}
+        >
+          {profiles.map((profile) => (
+            <StyledMenuItem value={profile.id} key={`profile_${profile.id}`}>
+              {profile.name}
+            </StyledMenuItem>
+          ))}
+        </StyledSelect>
+      </Tooltip>
+      <Tooltip title="Edit Connection Profile">
+        <IconButton
+          onClick={() =>
+            openEditor(profiles.find(({ id }) => id === selectedId))
+          }
+        >
+          <EditIcon />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="New Connection Profile">
+        <IconButton onClick={() => openEditor()}>
+          <AddIcon />
+        </IconButton>
+      </Tooltip>
+      <ProfileModal
+        open={openModal}
+        onClose={() => setOpenModal(false)}
+        profile={editedProfile}
+        onChange={updateList}
+      />
+    </Container>
+  );
+};
+
+export default ProfileSelector;
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { ipcRenderer, remote } from 'electron';
+import {
+  Dialog,
+  DialogContent,
+  DialogContentText,
+  IconButton,
+  Tooltip,
+  FormControlLabel,
+  Checkbox,
+  Radio,
+  RadioGroup,
+} from '@material-ui/core';
+import SaveAltIcon from '@material-ui/icons/SaveAlt';
+import FolderOpenIcon from '@material-ui/icons/FolderOpen';
+import {
+  AppState,
+  ConflictStrategy,
+  QueryData,
+  isQueryFile,
+} from '../../types';
+import {
+  exportQueries,
+  findConflicts,
+  importQueries,
+} from '../../lib/queryFile';
+import { sendFeedback } from '../../lib/utils';
+import {
+  ButtonContainer,
+  StyledButton,
+  StyledDialogTitle,
+} from '../../style-variables';
+
+const { dialog } = remote;
+
+const strategies: Record<ConflictStrategy, string> = {
+  skip: 'Keep existing queries',
+  overwrite: 'Replace existing queries',
+  rename: 'Keep both and rename imported queries',
+};
+
+type QueryFileButtonsProps = Pick<
+  AppState,
+  'queries' | 'setQueries' | 'comparedQueries' | 'setComparedQueries'
+>;
+
+/**
+ * Buttons that export query collection to a file and import queries from one
+ */
+const QueryFileButtons = ({
+  queries,
+  setQueries,
+  comparedQueries,
+  setComparedQueries,
+}: QueryFileButtonsProps) => {
+  const [exportOpen, setExportOpen] = useState(false);
+  const [includeResults, setIncludeResults] = useState(false);
+  // queries waiting for user to choose how to resolve conflicts
+  const [pending, setPending] = useState<QueryData[]>();
+  const [strategy, setStrategy] = useState<ConflictStrategy>('skip');
+
+  const handleExport = () => {
+    setExportOpen(false);
+    dialog
+      .showSaveDialog({
+        defaultPath: 'queries.json',
+        filters: [{ name: 'JSON', extensions: ['json'] }],
+      })
+      .then(async ({ canceled, filePath }) => {
+        if (canceled || !filePath) return;
+        await ipcRenderer.invoke('export-queries', {
+          filePath,
+          file: exportQueries(queries, includeResults),
+        });
+        sendFeedback({
+          type: 'success',
+          message: `Queries exported to ${filePath}`,
+        });
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to export queries',
+        })
+      );
+  };
+
+  const addQueries = (imported: QueryData[], chosen: ConflictStrategy) => {
+    setPending(undefined);
+    const result = importQueries(queries, imported, chosen);
+    setQueries(result.queries);
+    // compared queries hold copies, so replace the ones that were overwritten
+    setComparedQueries(
+      Object.keys(comparedQueries).reduce(
+        (acc, queryKey) => ({ ...acc, [queryKey]: result.queries[queryKey] }),
+        {}
+      )
+    );
+    sendFeedback({
+      type: 'success',
+      message: `Imported ${imported.length - result.skipped} queries`,
+    });
+  };
+
+  const handleImport = () => {
+    dialog
+      .showOpenDialog({
+        properties: ['openFile'],
+        filters: [{ name: 'JSON', extensions: ['json'] }],
+      })
+      .then(async ({ canceled, filePaths }) => {
+        if (canceled || !filePaths.length) return;
+        const file: unknown = await ipcRenderer.invoke(
+          'import-queries',
+          filePaths[0]
+        );
+        if (!isQueryFile(file)) {
+          sendFeedback({
+            type: 'error',
+            message: 'Selected file is not a valid query file',
+          });
+          return;
+        }
+        if (findConflicts(queries, file.queries).length)
+          setPending(file.queries);
+        else addQueries(file.queries, 'skip');
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to import queries',
+        })
+      );
+  };
+
+  const conflicts = (pending ? findConflicts(queries, pending) : [])
+    .map(({ label, db }) => `${label} (${db})`)
+    .join(', ');
+
+  return (
+    <>
+      <Tooltip title="Export Queries">
+        <IconButton onClick={() => setExportOpen(true)}>
+          <SaveAltIcon />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Import Queries">
+        <IconButton onClick={handleImport}>
+          <FolderOpenIcon />
+        </IconButton>
+      </Tooltip>
+      <Dialog
+        fullWidth
+        maxWidth="xs"
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+      >
+        <StyledDialogTitle>Export Queries</StyledDialogTitle>
+        <DialogContent>
+          <FormControlLabel
+            control={
+              // eslint-disable-next-line react/jsx-wrap-multilines
+              <Checkbox
+                checked={includeResults}
+                onChange={() => setIncludeResults(!includeResults)}
+                color="primary"
+              />
+            }
+            label="Include execution plans and results"
+          />
+        </DialogContent>
+        <ButtonContainer>
+          <StyledButton
+            variant="contained"
+            color="secondary"
+            onClick={() => setExportOpen(false)}
+          >
+            Cancel
+          </StyledButton>
+          <StyledButton
+            variant="contained"
+            color="primary"
+            onClick={handleExport}
+          >
+            Export
+          </StyledButton>
+        </ButtonContainer>
+      </Dialog>
+      <Dialog
+        fullWidth
+        maxWidth="xs"
+        open={!!pending}
+        onClose={() => setPending(undefined)}
+      >
+        <StyledDialogTitle>Resolve Conflicts</StyledDialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            {`Queries with the same label and database already exist: ${conflicts}`}
+          </DialogContentText>
+          <RadioGroup
+            value={strategy}
+            onChange={(evt) =>
+              setStrategy(evt.target.value as ConflictStrategy)
+            }
+          >
+            {(Object.keys(strategies) as ConflictStrategy[]).map((option) => (
+              <FormControlLabel
+                key={`conflict_${option}`}
+                value={option}
+                control={<Radio color="primary" />}
+                label={strategies[option]}
+              />
+            ))}
+          </RadioGroup>
+        </DialogContent>
+        <ButtonContainer>
+          <StyledButton
+            variant="contained"
+            color="secondary"
+            onClick={() => setPending(undefined)}
+          >
+            Cancel
+          </StyledButton>
+          <StyledButton
+            variant="contained"
+            color="primary"
+            onClick={() => pending && addQueries(pending, strategy)}
+          >
+            Import
+          </StyledButton>
+        </ButtonContainer>
+      </Dialog>
+    </>
+  );
+};
+
+export default QueryFileButtons;
@@ -6,6 +6,7 @@ import { SidebarList } from '../../style-variables';
 import { AppState, QueryData } from '../../types';
 import { deleteQuery, setCompare, key as queryKey } from '../../lib/queries';
 import QueryEntry from './QueryEntry';
+import QueryFileButtons from './QueryFileButtons';
 import logo from '../../../assets/logo/seeqr_dock.png';
 import { greyDarkest } from '../../style-variables';
 
@@ -26,6 +27,11 @@ const StyledSidebarList = styled(SidebarList)`
   background-color: ${greyDarkest};
 `;
 
+const Buttons = styled.div`
+  display: flex;
+  align-items: center;
+`;
+
 const QueryList = ({
   queries,
   createQuery,
@@ -50,11 +56,19 @@ const QueryList = ({
   if (!show) return null;
   return (
     <>
-      <Tooltip title="New Query">
-        <IconButton onClick={createQuery}>
-          <AddIcon fontSize="large" />
-        </IconButton>
-      </Tooltip>
+      <Buttons>
+        <Tooltip title="New Query">
+          <IconButton onClick={createQuery}>
+            <AddIcon fontSize="large" />
+          </IconButton>
+        </Tooltip>
+        <QueryFileButtons
+          queries={queries}
+          setQueries={setQueries}
+          comparedQueries={comparedQueries}
+          setComparedQueries={setComparedQueries}
+        />
+      </Buttons>
       <StyledSidebarList>
         {Object.values(queries).map((query: QueryData) => (
           <QueryEntry
@@ -1,16 +1,27 @@
-import React from 'react';
-import { Drawer, IconButton, Tooltip } from '@material-ui/core/';
+import React, { useState } from 'react';
+import {
+  Drawer,
+  IconButton,
+  Tooltip,
+  ButtonGroup,
+  Button,
+} from '@material-ui/core/';
 import ArrowForwardIosIcon from '@material-ui/icons/ArrowForwardIos';
 import styled from 'styled-components';
 import { AppState } from '../../types';
 import TopButtons from './TopButtons';
 import QueryList from './QueryList';
+import HistoryList from './HistoryList';
 import DbList from './DbList';
+import ProfileSelector from './ProfileSelector';
+import WorkspaceSelector from './WorkspaceSelector';
 import ViewSelector from './ViewSelector';
 import logo from '../../../assets/logo/seeqr_dock.png';
 
 import {
   greyDarkest,
+  selectedColor,
+  textColor,
   sidebarWidth,
   sidebarShowButtonSize,
 } from '../../style-variables';
@@ -46,6 +57,19 @@ const ShowSidebarBtn = styled(IconButton)`
   z-index: 200;
 `;
 
+const PanelBtnGroup = styled(ButtonGroup)`
+  margin: 0 5px;
+`;
+
+interface PanelButtonProps {
+  $isSelected: boolean;
+}
+
+const PanelButton = styled(Button)`
+  color: ${({ $isSelected }: PanelButtonProps) =>
+    $isSelected ? selectedColor : textColor};
+`;
+
 const Sidebar = ({
   setQueries,
   comparedQueries,
@@ -59,8 +83,14 @@ const Sidebar = ({
   setWorkingQuery,
   setSidebarHidden,
   sidebarIsHidden,
+  workspaceId,
+  selectWorkspace,
 }: AppState) => {
+  const [showHistory, setShowHistory] = useState(false);
   const toggleOpen = () => setSidebarHidden(!sidebarIsHidden);
+  const isQueryPanel =
+    selectedView === 'queryView' || selectedView === 'compareView';
+
   /**
    * Show empty query view for user to create new query.
    * Deselects all queries and goes to queryView
@@ -84,12 +114,49 @@ const Sidebar = ({
           toggleOpen={toggleOpen}
         />
         <ViewSelector {...{ selectedView, setSelectedView }} />
+        <ProfileSelector
+          setSelectedDb={setSelectedDb}
+          setSelectedView={setSelectedView}
+          show={
+            selectedView === 'dbView' ||
+            selectedView === 'diffView' ||
+            selectedView === 'erdView' ||
+            selectedView === 'quickStartView'
+          }
+        />
         <DbList
           selectedDb={selectedDb}
           setSelectedDb={setSelectedDb}
-          show={selectedView === 'dbView' || selectedView === 'quickStartView'}
+          selectedView={selectedView}
+          show={
+            selectedView === 'dbView' ||
+            selectedView === 'diffView' ||
+            selectedView === 'erdView' ||
+            selectedView === 'quickStartView'
+          }
           setSelectedView={setSelectedView}
         />
+        <WorkspaceSelector
+          workspaceId={workspaceId}
+          selectWorkspace={selectWorkspace}
+          show={isQueryPanel}
+        />
+        {isQueryPanel ? (
+          <PanelBtnGroup variant="text" size="small" fullWidth>
+            <PanelButton
+              $isSelected={!showHistory}
+              onClick={() => setShowHistory(false)}
+            >
+              Saved
+            </PanelButton>
+            <PanelButton
+              $isSelected={showHistory}
+              onClick={() => setShowHistory(true)}
+            >
+              History
+            </PanelButton>
+          </PanelBtnGroup>
+        ) : null}
         <QueryList
           setComparedQueries={setComparedQueries}
           comparedQueries={comparedQueries}
@@ -98,7 +165,12 @@ const Sidebar = ({
           createQuery={showEmptyQuery}
           workingQuery={workingQuery}
           setWorkingQuery={setWorkingQuery}
-          show={selectedView === 'queryView' || selectedView === 'compareView'}
+          show={isQueryPanel && !showHistory}
+        />
+        <HistoryList
+          setWorkingQuery={setWorkingQuery}
+          setSelectedView={setSelectedView}
+          show={isQueryPanel && showHistory}
         />
         <Logo src={logo} alt="Logo" />
       </StyledDrawer>
@@ -1,7 +1,12 @@
 import React from 'react';
 import { IconButton, Tooltip } from '@material-ui/core';
 import styled from 'styled-components';
-import { HelpOutline, ArrowBackIos, Equalizer } from '@material-ui/icons';
+import {
+  HelpOutline,
+  ArrowBackIos,
+  Equalizer,
+  CompareArrows,
+} from '@material-ui/icons';
 import { AppState } from '../../types';
 
 import { textColor, hoverColor, selectedColor } from '../../style-variables';
@@ -13,7 +18,7 @@ const Container = styled.div`
 `;
 
 const StyledIconButton = styled(IconButton)`
-  margin: 15px;
+  margin: 15px 5px;
 `;
 
 interface StyledCompareButtonProps {
@@ -27,6 +32,13 @@ const StyledCompareIcon = styled(Equalizer)<StyledCompareButtonProps>`
   }
 `;
 
+const StyledDiffIcon = styled(CompareArrows)<StyledCompareButtonProps>`
+  color: ${({ $isSelected }) => ($isSelected ? selectedColor : textColor)};
+  &:hover {
+    color: ${hoverColor};
+  }
+`;
+
 type TopButtonsProps = Pick<AppState, 'selectedView' | 'setSelectedView'> & {
   toggleOpen: () => void;
 };
@@ -41,6 +53,11 @@ const TopButtons = ({
     return setSelectedView('compareView');
   };
 
+  const toggleDiffView = () => {
+    if (selectedView === 'diffView') return setSelectedView('dbView');
+    return setSelectedView('diffView');
+  };
+
   return (
     <Container>
       <Tooltip title="Help">
@@ -56,6 +73,14 @@ const TopButtons = ({
           />
         </StyledIconButton>
       </Tooltip>
+      <Tooltip title="Compare Schemas">
+        <StyledIconButton onClick={toggleDiffView}>
+          <StyledDiffIcon
+            fontSize="large"
+            $isSelected={selectedView === 'diffView'}
+          />
+        </StyledIconButton>
+      </Tooltip>
       <Tooltip title="Hide Sidebar">
         <StyledIconButton onClick={toggleOpen}>
           <ArrowBackIos fontSize="large" />
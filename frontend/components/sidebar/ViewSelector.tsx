@@ -44,6 +44,12 @@ const ViewSelector = ({ selectedView, setSelectedView }: ViewSelectorProps) => (
     >
       Databases
     </ViewButton>
+    <ViewButton
+      onClick={() => setSelectedView('erdView')}
+      $isSelected={selectedView === 'erdView'}
+    >
+      Diagram
+    </ViewButton>
   </ViewBtnGroup>
 );
 
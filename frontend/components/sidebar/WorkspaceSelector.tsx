@@ -0,0 +1,201 @@
+import React, { useState, useEffect } from 'react';
+import styled from 'styled-components';
+import { ipcRenderer } from 'electron';
+import {
+  Dialog,
+  IconButton,
+  MenuItem,
+  Select,
+  Tooltip,
+} from '@material-ui/core';
+import AddIcon from '@material-ui/icons/Add';
+import EditIcon from '@material-ui/icons/Edit';
+import DeleteIcon from '@material-ui/icons/Delete';
+import { AppState, Workspace, WorkspaceList } from '../../types';
+import { sendFeedback } from '../../lib/utils';
+import {
+  textColor,
+  ButtonContainer,
+  TextFieldContainer,
+  StyledButton,
+  StyledTextField,
+  StyledDialogTitle,
+} from '../../style-variables';
+
+const Container = styled.div`
+  display: flex;
+  align-items: center;
+  width: 100%;
+  padding: 0 5px 0 15px;
+`;
+
+const StyledSelect = styled(Select)`
+  flex: 1;
+  color: ${textColor};
+`;
+
+const StyledMenuItem = styled(MenuItem)`
+  color: #575151;
+`;
+
+const inputProps = {
+  style: { color: '#575151' },
+};
+
+type WorkspaceSelectorProps = Pick<
+  AppState,
+  'workspaceId' | 'selectWorkspace'
+> & {
+  show: boolean;
+};
+
+/**
+ * Sidebar picker for workspaces. Each workspace keeps its own saved queries,
+ * compared queries and plan thresholds
+ */
+const WorkspaceSelector = ({
+  workspaceId,
+  selectWorkspace,
+  show,
+}: WorkspaceSelectorProps) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  // undefined when dialog is closed, empty id when creating a new workspace
+  const [edited, setEdited] = useState<Workspace>();
+
+  useEffect(() => {
+    ipcRenderer
+      .invoke('get-workspaces')
+      .then((list: WorkspaceList) => setWorkspaces(list.workspaces))
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to load workspaces',
+        })
+      );
+  }, []);
+
+  const handleSave = () => {
+    if (!edited || !edited.name.trim()) return;
+    const request = edited.id
+      ? ipcRenderer.invoke('rename-workspace', {
+          workspaceId: edited.id,
+          name: edited.name.trim(),
+        })
+      : ipcRenderer.invoke('create-workspace', edited.name.trim());
+    request
+      .then((list: WorkspaceList) => {
+        setWorkspaces(list.workspaces);
+        // switch to newly created workspace, which is always last
+        if (!edited.id)
+          selectWorkspace(list.workspaces[list.workspaces.length - 1].id);
+        setEdited(undefined);
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to save workspace',
+        })
+      );
+  };
+
+  const handleDelete = () => {
+    ipcRenderer
+      .invoke('delete-workspace', workspaceId)
+      .then((list: WorkspaceList) => {
+        setWorkspaces(list.workspaces);
+        selectWorkspace(list.selectedId);
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message:
+            workspaces.length <= 1
+              ? 'At least one workspace must exist'
+              : 'Failed to delete workspace',
+        })
+      );
+  };
+
+  if (!show) return null;
+  return (
+    <Container>
+      <Tooltip title="Workspace">
+        <StyledSelect
+          value={workspaces.length ? workspaceId : ''}
+          onChange={(evt) => selectWorkspace(evt.target.value as string)}
+        >
+          {workspaces.map((workspace) => (
+            <StyledMenuItem
+              value={workspace.id}
+              key={`workspace_${workspace.id}`}
+            >
+              {workspace.name}
+            </StyledMenuItem>
+          ))}
+        </StyledSelect>
+      </Tooltip>
+      <Tooltip title="Rename Workspace">
+        <IconButton
+          onClick={() =>
+            setEdited(workspaces.find(({ id }) => id === workspaceId))
+          }
+        >
+          <EditIcon />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="Delete Workspace">
+        <IconButton onClick={handleDelete}>
+          <DeleteIcon />
+        </IconButton>
+      </Tooltip>
+      <Tooltip title="New Workspace">
+        <IconButton onClick={() => setEdited({ id: '', name: '' })}>
+          <AddIcon />
+        </IconButton>
+      </Tooltip>
+      <Dialog
+        fullWidth
+        maxWidth="xs"
+        onClose={() => setEdited(undefined)}
+        open={!!edited}
+      >
+        <TextFieldContainer>
+          <StyledDialogTitle>
+            {edited?.id ? 'Rename Workspace' : 'New Workspace'}
+          </StyledDialogTitle>
+          <StyledTextField
+            required
+            autoFocus
+            error={!edited?.name.trim()}
+            label="Workspace name"
+            size="small"
+            variant="outlined"
+            value={edited?.name ?? ''}
+            onChange={(evt) =>
+              edited && setEdited({ ...edited, name: evt.target.value })
+            }
+            InputProps={inputProps}
+          />
+        </TextFieldContainer>
+        <ButtonContainer>
+          <StyledButton
+            variant="contained"
+            color="secondary"
+            onClick={() => setEdited(undefined)}
+          >
+            Cancel
+          </StyledButton>
+          <StyledButton
+            variant="contained"
+            color="primary"
+            onClick={handleSave}
+          >
+            Save
+          </StyledButton>
+        </ButtonContainer>
+      </Dialog>
+    </Container>
+  );
+};
+
+export default WorkspaceSelector;
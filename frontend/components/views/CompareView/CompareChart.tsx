@@ -2,7 +2,11 @@ import React from 'react';
 import { Bar, defaults, ChartData } from 'react-chartjs-2';
 import styled from 'styled-components'
 import { AppState } from '../../../types';
-import { keyFromData, getTotalTime } from '../../../lib/queries';
+import {
+  keyFromData,
+  getTotalTime,
+  getTimingStats,
+} from '../../../lib/queries';
 import { compareChartColors, textColor } from '../../../style-variables';
 
 const ChartContainer = styled.div`
@@ -59,6 +63,23 @@ const getChartData = (
   return { labels, datasets };
 };
 
+/**
+ * Tooltip lines with spread of benchmark runs for hovered bar
+ */
+const getBenchmarkTooltip = (queries: AppState['queries']) => (
+  item: Chart.ChartTooltipItem,
+  data: Chart.ChartData
+) => {
+  const db = data.datasets?.[item.datasetIndex ?? 0]?.label ?? '';
+  const stats = getTimingStats(queries[keyFromData(String(item.label), db)]);
+  if (!stats) return [];
+  return [
+    `median of ${stats.runs} runs`,
+    `min: ${stats.min.toFixed(3)} p95: ${stats.p95.toFixed(3)}`,
+    `mean: ${stats.mean.toFixed(3)} std dev: ${stats.stddev.toFixed(3)}`,
+  ];
+};
+
 interface CompareChartProps {
   queries: AppState['queries'];
 }
@@ -73,6 +94,11 @@ const CompareChart = ({ queries }: CompareChartProps) => (
           text: 'QUERY LABEL VS RUNTIME (ms)',
           fontSize: 16,
         },
+        tooltips: {
+          callbacks: {
+            afterLabel: getBenchmarkTooltip(queries),
+          },
+        },
         legend: {
           display: true,
           position: 'right',
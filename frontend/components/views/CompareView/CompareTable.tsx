@@ -15,7 +15,11 @@ import {
   defaultMargin,
   greenPrimary,
 } from '../../../style-variables';
-import { getPrettyTime, getTotalTime } from '../../../lib/queries';
+import {
+  getPrettyTime,
+  getTotalTime,
+  getTimingStats,
+} from '../../../lib/queries';
 
 const TableBg = styled(DarkPaperFull)`
   margin-top: ${defaultMargin};
@@ -63,6 +67,29 @@ const tableInfo: InfoColumn[] = [
   ['', 'center', (q: AnalysedQuery) => (q.isFastest ? <FastestMarker /> : '')],
 ];
 
+const formatStat = (value: number | undefined) =>
+  value === undefined ? undefined : `${value.toFixed(3)} ms`;
+
+// Columns shown after Timing when at least one query was benchmarked. Timing of
+// benchmarked queries is the median of their runs
+const statColumns: InfoColumn[] = [
+  ['Runs', 'right', (q: QueryData) => getTimingStats(q)?.runs],
+  ['Min', 'right', (q: QueryData) => formatStat(getTimingStats(q)?.min)],
+  ['Mean', 'right', (q: QueryData) => formatStat(getTimingStats(q)?.mean)],
+  ['P95', 'right', (q: QueryData) => formatStat(getTimingStats(q)?.p95)],
+  ['Std Dev', 'right', (q: QueryData) => formatStat(getTimingStats(q)?.stddev)],
+];
+
+const getColumns = (queries: QueryData[]) => {
+  if (!queries.some((q) => q.timings?.length)) return tableInfo;
+  const timingIndex = tableInfo.findIndex(([column]) => column === 'Timing');
+  return [
+    ...tableInfo.slice(0, timingIndex + 1),
+    ...statColumns,
+    ...tableInfo.slice(timingIndex + 1),
+  ];
+};
+
 const getFastestPerGroup = (queries: QueryData[]) =>
   queries.reduce<Record<string, number>>(
     (acc, q) => ({
@@ -95,13 +122,14 @@ const CompareTable = ({ queries }: CompareTableProps) => {
       // if same label, sort by speed ascending
       a.relativeSpeed - b.relativeSpeed
   );
+  const columns = getColumns(comparedQueries);
 
   return (
     <TableBg>
       <Table>
         <TableHead>
           <TableRow>
-            {tableInfo.map(([column, alignment]) => (
+            {columns.map(([column, alignment]) => (
               <TableCell key={column} align={alignment}>
                 {column}
               </TableCell>
@@ -111,7 +139,7 @@ const CompareTable = ({ queries }: CompareTableProps) => {
         <TableBody>
           {comparedQueries.map((query: AnalysedQuery) => (
             <TableRow key={query.label + query.db}>
-              {tableInfo.map(([columnLabel, alignment, transformer]) => (
+              {columns.map(([columnLabel, alignment, transformer]) => (
                 <StyledCell
                   align={alignment}
                   key={`${query.label}_${query.db}_${columnLabel}`}
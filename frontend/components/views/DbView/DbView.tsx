@@ -2,11 +2,22 @@ import { IpcRendererEvent, ipcRenderer } from 'electron';
 import React, { useState, useEffect } from 'react';
 import { Button } from '@material-ui/core';
 import styled from 'styled-components';
-import { AppState, isDbLists, DatabaseInfo, TableInfo } from '../../../types';
+import {
+  AppState,
+  isDbLists,
+  DatabaseInfo,
+  TableInfo,
+  DbObject,
+  BrowsableKind,
+} from '../../../types';
 import TablesTabs from './TablesTabBar';
+import ObjectsTabBar from './ObjectsTabBar';
+import ObjectKindSelector from './ObjectKindSelector';
 import DatabaseDetails from './DatabaseDetails';
-import { once } from '../../../lib/utils';
+import { once, sendFeedback } from '../../../lib/utils';
 import DummyDataModal from '../../modal/DummyDataModal';
+import ImportTableModal from '../../modal/ImportTableModal';
+import PopulateDbModal from '../../modal/PopulateDbModal';
 import { sidebarShowButtonSize } from '../../../style-variables';
 // emitting with no payload requests backend to send back a db-lists event with list of dbs
 const requestDbListOnce = once(() => ipcRenderer.send('return-db-list'));
@@ -22,19 +33,34 @@ const StyledDummyButton = styled(Button)`
   right: ${sidebarShowButtonSize};
 `;
 
+const StyledImportButton = styled(StyledDummyButton)`
+  top: 310px;
+`;
+
+const StyledPopulateButton = styled(StyledDummyButton)`
+  top: 360px;
+`;
+
 const DbView = ({ selectedDb, show }: DbViewProps) => {
   const [dbTables, setTables] = useState<TableInfo[]>([]);
+  const [schemas, setSchemas] = useState<string[]>([]);
   const [selectedTable, setSelectedTable] = useState<TableInfo>();
   const [databases, setDatabases] = useState<DatabaseInfo[]>([]);
+  const [dbObjects, setDbObjects] = useState<DbObject[]>([]);
+  const [selectedKind, setSelectedKind] = useState<BrowsableKind>('table');
   const [open, setOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [populateOpen, setPopulateOpen] = useState(false);
 
   useEffect(() => {
     // Listen to backend for updates to list of tables on current db
     const tablesFromBackend = (evt: IpcRendererEvent, dbLists: unknown) => {
       if (isDbLists(dbLists)) {
+        const tables = dbLists.schemaList.flatMap((schema) => schema.tables);
         setDatabases(dbLists.databaseList);
-        setTables(dbLists.tableList);
-        setSelectedTable(selectedTable || dbLists.tableList[0]);
+        setSchemas(dbLists.schemaList.map((schema) => schema.schema_name));
+        setTables(tables);
+        setSelectedTable(selectedTable || tables[0]);
       }
     };
     ipcRenderer.on('db-lists', tablesFromBackend);
@@ -45,6 +71,47 @@ const DbView = ({ selectedDb, show }: DbViewProps) => {
     };
   });
 
+  // Request views, functions, etc. whenever database or its tables change
+  useEffect(() => {
+    if (!show || !selectedDb) return;
+    ipcRenderer
+      .invoke('get-db-objects')
+      .then((objects: DbObject[]) => setDbObjects(objects))
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to retrieve database objects',
+        })
+      );
+  }, [show, selectedDb, dbTables]);
+
+  const refreshMaterializedView = (view: DbObject) => {
+    ipcRenderer
+      .invoke('refresh-materialized-view', {
+        schemaName: view.schema_name,
+        viewName: view.name,
+      })
+      .then((objects: DbObject[]) => {
+        setDbObjects(objects);
+        sendFeedback({
+          type: 'success',
+          message: `Refreshed ${view.qualified_name}`,
+        });
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: `Failed to refresh ${view.qualified_name}`,
+        })
+      );
+  };
+
+  // number of objects of each kind for kind selector
+  const counts = dbObjects.reduce<Partial<Record<BrowsableKind, number>>>(
+    (acc, { kind }) => ({ ...acc, [kind]: (acc[kind] ?? 0) + 1 }),
+    { table: dbTables.length }
+  );
+
   const handleClickOpen = () => {
     setOpen(true);
   };
@@ -59,15 +126,27 @@ const DbView = ({ selectedDb, show }: DbViewProps) => {
   return (
     <>
       <DatabaseDetails db={db} />
-      <br />
-      <TablesTabs
-        tables={dbTables}
-        selectTable={(table: TableInfo) => setSelectedTable(table)}
-        selectedTable={selectedTable}
+      <ObjectKindSelector
+        selectedKind={selectedKind}
+        select={setSelectedKind}
+        counts={counts}
       />
+      {selectedKind === 'table' ? (
+        <TablesTabs
+          tables={dbTables}
+          schemas={schemas}
+          selectTable={(table: TableInfo) => setSelectedTable(table)}
+          selectedTable={selectedTable}
+        />
+      ) : (
+        <ObjectsTabBar
+          objects={dbObjects.filter(({ kind }) => kind === selectedKind)}
+          refreshMaterializedView={refreshMaterializedView}
+        />
+      )}
       <br />
       <br />
-      {selectedTable ? (
+      {selectedTable && selectedKind === 'table' ? (
         <StyledDummyButton
           variant="contained"
           color="primary"
@@ -76,12 +155,44 @@ const DbView = ({ selectedDb, show }: DbViewProps) => {
           Generate Dummy Data
         </StyledDummyButton>
       ) : null}
+      {selectedKind === 'table' ? (
+        <StyledImportButton
+          variant="contained"
+          color="primary"
+          onClick={() => setImportOpen(true)}
+        >
+          Import Data
+        </StyledImportButton>
+      ) : null}
+      {dbTables.length && selectedKind === 'table' ? (
+        <StyledPopulateButton
+          variant="contained"
+          color="primary"
+          onClick={() => setPopulateOpen(true)}
+        >
+          Populate Database
+        </StyledPopulateButton>
+      ) : null}
       <DummyDataModal
         open={open}
         onClose={handleClose}
         dbName={db?.db_name}
+        schemaName={selectedTable?.table_schema}
         tableName={selectedTable?.table_name}
       />
+      <ImportTableModal
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        tables={dbTables}
+        schemas={schemas}
+        selectedTable={selectedTable}
+      />
+      <PopulateDbModal
+        open={populateOpen}
+        onClose={() => setPopulateOpen(false)}
+        dbName={db?.db_name}
+        tables={dbTables}
+      />
     </>
   );
 };
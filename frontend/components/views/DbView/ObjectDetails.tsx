@@ -0,0 +1,121 @@
+import React from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableRow,
+  Typography,
+  Paper,
+  Chip,
+  Button,
+} from '@material-ui/core';
+import RefreshIcon from '@material-ui/icons/Refresh';
+import styled from 'styled-components';
+import 'codemirror/lib/codemirror.css';
+import 'codemirror/mode/sql/sql';
+import 'codemirror/theme/lesser-dark.css';
+import CodeMirror from '@skidding/react-codemirror';
+import { greyDark, greyPrimary, defaultMargin } from '../../../style-variables';
+import { DbObject } from '../../../types';
+
+const StyledPaper = styled(({ ...other }) => (
+  <Paper elevation={8} {...other} />
+))`
+  background: ${greyDark};
+`;
+
+const StyledCell = styled(TableCell)`
+  border-bottom: 1px solid ${greyPrimary};
+`;
+
+const Header = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+`;
+
+const Section = styled.div`
+  margin-top: ${defaultMargin};
+`;
+
+const StyledChip = styled(Chip)`
+  margin: 0 5px 5px 0;
+`;
+
+interface DependencyListProps {
+  title: string;
+  names: string[];
+}
+
+const DependencyList = ({ title, names }: DependencyListProps) => (
+  <Section>
+    <Typography variant="h6">{title}</Typography>
+    {names.length ? (
+      names.map((name) => (
+        <StyledChip label={name} key={`${title}_${name}`} variant="outlined" />
+      ))
+    ) : (
+      <Typography variant="body2">None</Typography>
+    )}
+  </Section>
+);
+
+interface ObjectDetailsProps {
+  object: DbObject;
+  /**
+   * Refresh handler. Only given for materialized views
+   */
+  onRefresh?: () => void;
+}
+
+const ObjectDetails = ({ object, onRefresh }: ObjectDetailsProps) => (
+  <>
+    <Header>
+      <Typography variant="h3">{object.qualified_name}</Typography>
+      {onRefresh ? (
+        <Button
+          variant="contained"
+          color="primary"
+          startIcon={<RefreshIcon />}
+          onClick={onRefresh}
+        >
+          Refresh
+        </Button>
+      ) : null}
+    </Header>
+    <br />
+    {Object.keys(object.details).length ? (
+      <TableContainer component={StyledPaper}>
+        <Table size="small">
+          <TableBody>
+            {Object.entries(object.details).map(([property, value]) => (
+              <TableRow key={property}>
+                <StyledCell>
+                  <strong>{property}</strong>
+                </StyledCell>
+                <StyledCell align="right">{`${value ?? ''}`}</StyledCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    ) : null}
+    <Section>
+      <Typography variant="h6">Definition</Typography>
+      <CodeMirror
+        value={object.definition ?? '-- definition not available'}
+        options={{
+          lineNumbers: true,
+          mode: 'sql',
+          theme: 'lesser-dark',
+          readOnly: true,
+        }}
+      />
+    </Section>
+    <DependencyList title="Depends on" names={object.dependencies} />
+    <DependencyList title="Used by" names={object.dependents} />
+  </>
+);
+
+export default ObjectDetails;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { ButtonGroup, Button } from '@material-ui/core';
+import styled from 'styled-components';
+import {
+  selectedColor,
+  textColor,
+  defaultMargin,
+} from '../../../style-variables';
+import type { BrowsableKind } from '../../../types';
+
+const KindBtnGroup = styled(ButtonGroup)`
+  margin: ${defaultMargin} 0;
+`;
+
+interface KindButtonProps {
+  $isSelected: boolean;
+}
+
+const KindButton = styled(Button)`
+  background: ${({ $isSelected }: KindButtonProps) =>
+    $isSelected ? selectedColor : textColor};
+  &:hover {
+    background: ${({ $isSelected }: KindButtonProps) =>
+      $isSelected ? selectedColor : textColor};
+  }
+`;
+
+export const kindLabels: Record<BrowsableKind, string> = {
+  table: 'Tables',
+  view: 'Views',
+  materializedView: 'Materialized Views',
+  function: 'Functions',
+  trigger: 'Triggers',
+  sequence: 'Sequences',
+  enum: 'Enums',
+};
+
+interface ObjectKindSelectorProps {
+  selectedKind: BrowsableKind;
+  select: (kind: BrowsableKind) => void;
+  /**
+   * Number of objects of each kind in current database
+   */
+  counts: Partial<Record<BrowsableKind, number>>;
+}
+
+/**
+ * Selector for the kind of database object browsed in DbView
+ */
+const ObjectKindSelector = ({
+  selectedKind,
+  select,
+  counts,
+}: ObjectKindSelectorProps) => (
+  <KindBtnGroup variant="contained" size="small">
+    {(Object.keys(kindLabels) as BrowsableKind[]).map((kind) => (
+      <KindButton
+        key={`dbView_kind_${kind}`}
+        $isSelected={selectedKind === kind}
+        onClick={() => select(kind)}
+      >
+        {`${kindLabels[kind]} (${counts[kind] ?? 0})`}
+      </KindButton>
+    ))}
+  </KindBtnGroup>
+);
+
+export default ObjectKindSelector;
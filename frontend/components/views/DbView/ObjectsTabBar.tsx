@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Tabs, Tab, Typography } from '@material-ui/core';
+import styled from 'styled-components';
+import ObjectDetails from './ObjectDetails';
+import { DbObject } from '../../../types';
+import { greyPrimary } from '../../../style-variables';
+
+const StyledTabs = styled(Tabs)`
+  background-color: ${greyPrimary};
+  color: white;
+  border-radius: 5px;
+`;
+
+interface ObjectsTabBarProps {
+  /**
+   * Objects of a single kind
+   */
+  objects: DbObject[];
+  refreshMaterializedView: (object: DbObject) => void;
+}
+
+/**
+ * Tab bar with one tab per database object and a panel with details of the
+ * selected one
+ */
+const ObjectsTabBar = ({
+  objects,
+  refreshMaterializedView,
+}: ObjectsTabBarProps) => {
+  const [selectedName, setSelectedName] = useState<string>();
+
+  if (!objects.length)
+    return <Typography>No objects of this kind in database</Typography>;
+
+  // fallback to first object if selected one doesn't exist in this list
+  const selected =
+    objects.find(({ qualified_name }) => qualified_name === selectedName) ??
+    objects[0];
+
+  return (
+    <>
+      <StyledTabs
+        value={selected.qualified_name}
+        onChange={(evt, newValue: string) => setSelectedName(newValue)}
+        indicatorColor="primary"
+        variant="scrollable"
+        scrollButtons="auto"
+      >
+        {objects.map(({ qualified_name }) => (
+          <Tab
+            label={qualified_name}
+            value={qualified_name}
+            key={qualified_name}
+          />
+        ))}
+      </StyledTabs>
+      <br />
+      <br />
+      <ObjectDetails
+        object={selected}
+        onRefresh={
+          selected.kind === 'materializedView'
+            ? () => refreshMaterializedView(selected)
+            : undefined
+        }
+      />
+    </>
+  );
+};
+
+export default ObjectsTabBar;
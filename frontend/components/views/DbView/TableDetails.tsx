@@ -1,4 +1,5 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import { ipcRenderer } from 'electron';
 import {
   Table,
   TableBody,
@@ -10,8 +11,9 @@ import {
   Paper,
 } from '@material-ui/core';
 import styled from 'styled-components';
-import { greyDark, greyPrimary } from '../../../style-variables';
-import { TableInfo } from '../../../types';
+import { greyDark, greyPrimary, defaultMargin } from '../../../style-variables';
+import { TableInfo, TableColumn, TableInspection } from '../../../types';
+import { sendFeedback } from '../../../lib/utils';
 
 const StyledPaper = styled(({ ...other }) => (
   <Paper elevation={8} {...other} />
@@ -23,47 +25,217 @@ const StyledCell = styled(TableCell)`
   border-bottom: 1px solid ${greyPrimary};
 `;
 
+const Section = styled.div`
+  margin-top: ${defaultMargin};
+`;
+
+const StatsGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(4, 1fr);
+  gap: 5px ${defaultMargin};
+`;
+
+type Cell = string | number | boolean | null | undefined;
+
+interface DetailsTableProps {
+  title: string;
+  headers: string[];
+  rows: Cell[][];
+}
+
+/**
+ * Titled table of plain values. Renders nothing if there are no rows
+ */
+const DetailsTable = ({ title, headers, rows }: DetailsTableProps) => {
+  if (!rows.length) return null;
+  return (
+    <Section>
+      <Typography variant="h5">{title}</Typography>
+      <TableContainer component={StyledPaper}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              {headers.map((header) => (
+                <TableCell key={header}>
+                  <strong>{header}</strong>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={`${title}_${row[0]}`}>
+                {row.map((value, index) => (
+                  // eslint-disable-next-line react/no-array-index-key
+                  <StyledCell key={`${title}_${row[0]}_${index}`}>
+                    {`${value ?? ''}`}
+                  </StyledCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Section>
+  );
+};
+
+// information_schema returns one row per constraint a column takes part in.
+// Merge them so each column is listed once with all its key types
+const mergeColumns = (columns: TableColumn[]) =>
+  columns.reduce<(TableColumn & { keys: string[] })[]>((acc, column) => {
+    const existing = acc.find((c) => c.column_name === column.column_name);
+    if (existing) {
+      if (column.constraint_type) existing.keys.push(column.constraint_type);
+      return acc;
+    }
+    acc.push({
+      ...column,
+      keys: column.constraint_type ? [column.constraint_type] : [],
+    });
+    return acc;
+  }, []);
+
+const identityInfo = (column: TableColumn) => {
+  if (column.is_identity === 'YES')
+    return `identity (${column.identity_generation})`;
+  if (column.is_serial) return 'serial';
+  return '';
+};
+
 interface TableDetailsProps {
   table: TableInfo | undefined;
 }
 
-const TableDetails = ({ table }: TableDetailsProps) => (
-  <>
-    <Typography variant="h3">{`${table?.table_name}`}</Typography>
-    <br />
-    <TableContainer component={StyledPaper}>
-      <Table>
-        <TableHead>
-          <TableRow>
-            <TableCell>
-              <strong>Column</strong>
-            </TableCell>
-            <TableCell align="right">
-              <strong>Type</strong>
-            </TableCell>
-            <TableCell align="right">
-              <strong>Is Nullable?</strong>
-            </TableCell>
-          </TableRow>
-        </TableHead>
-        <TableBody>
-          {table?.columns.map((row) => (
-            <TableRow key={row.column_name}>
-              <StyledCell key={row?.column_name}>{row?.column_name}</StyledCell>
-              <StyledCell align="right">
-                {`${row?.data_type}${
-                  row?.character_maximum_length
-                    ? `(${row.character_maximum_length})`
-                    : ''
-                }`}
-              </StyledCell>
-              <StyledCell align="right">{row?.is_nullable}</StyledCell>
-            </TableRow>
+const TableDetails = ({ table }: TableDetailsProps) => {
+  const [inspection, setInspection] = useState<TableInspection>();
+
+  // Request constraints, indexes and statistics whenever table info changes
+  useEffect(() => {
+    if (!table) return;
+    ipcRenderer
+      .invoke('get-table-details', {
+        schemaName: table.table_schema,
+        tableName: table.table_name,
+      })
+      .then((details: TableInspection) => setInspection(details))
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: `Failed to retrieve details of ${table.qualified_name}`,
+        })
+      );
+  }, [table]);
+
+  const stats = inspection?.stats;
+  const statsInfo: [string, Cell][] = stats
+    ? [
+        ['Total size', stats.total_size],
+        ['Table size', stats.table_size],
+        ['Indexes size', stats.indexes_size],
+        ['Estimated rows', stats.estimated_rows],
+        ['Live tuples', stats.n_live_tup],
+        ['Dead tuples', stats.n_dead_tup],
+        ['Sequential scans', stats.seq_scan],
+        ['Index scans', stats.idx_scan],
+        ['Last vacuum', stats.last_vacuum ?? 'never'],
+        ['Last autovacuum', stats.last_autovacuum ?? 'never'],
+        ['Last analyze', stats.last_analyze ?? 'never'],
+        ['Last autoanalyze', stats.last_autoanalyze ?? 'never'],
+      ]
+    : [];
+
+  const constraints = inspection?.constraints ?? [];
+  const foreignKeys = constraints.filter(
+    ({ constraint_type }) => constraint_type === 'FOREIGN KEY'
+  );
+  const otherConstraints = constraints.filter(
+    ({ constraint_type }) => constraint_type !== 'FOREIGN KEY'
+  );
+
+  return (
+    <>
+      <Typography variant="h3">{`${table?.qualified_name}`}</Typography>
+      <br />
+      {statsInfo.length ? (
+        <StatsGrid>
+          {statsInfo.map(([label, value]) => (
+            <Typography variant="body2" key={label}>
+              <strong>{`${label}: `}</strong>
+              {`${value ?? '-'}`}
+            </Typography>
           ))}
-        </TableBody>
-      </Table>
-    </TableContainer>
-  </>
-);
+        </StatsGrid>
+      ) : null}
+      <DetailsTable
+        title="Columns"
+        headers={[
+          'Column',
+          'Type',
+          'Is Nullable?',
+          'Default',
+          'Identity',
+          'Keys',
+        ]}
+        rows={mergeColumns(table?.columns ?? []).map((column) => [
+          column.column_name,
+          `${column.data_type}${
+            column.character_maximum_length
+              ? `(${column.character_maximum_length})`
+              : ''
+          }`,
+          column.is_nullable,
+          column.column_default,
+          identityInfo(column),
+          column.keys.join(', '),
+        ])}
+      />
+      <DetailsTable
+        title="Constraints"
+        headers={['Name', 'Type', 'Columns', 'Definition']}
+        rows={otherConstraints.map((con) => [
+          con.constraint_name,
+          con.constraint_type,
+          con.columns.join(', '),
+          con.definition,
+        ])}
+      />
+      <DetailsTable
+        title="Foreign Keys"
+        headers={['Name', 'Columns', 'References', 'On Update', 'On Delete']}
+        rows={foreignKeys.map((fk) => [
+          fk.constraint_name,
+          fk.columns.join(', '),
+          `${fk.foreign_table}(${fk.foreign_columns.join(', ')})`,
+          fk.on_update,
+          fk.on_delete,
+        ])}
+      />
+      <DetailsTable
+        title="Indexes"
+        headers={[
+          'Name',
+          'Method',
+          'Unique',
+          'Size',
+          'Scans',
+          'Tuples Read',
+          'Tuples Fetched',
+          'Definition',
+        ]}
+        rows={(inspection?.indexes ?? []).map((index) => [
+          index.index_name,
+          index.method,
+          index.is_primary ? 'primary' : index.is_unique,
+          index.size,
+          index.idx_scan ?? 0,
+          index.idx_tup_read ?? 0,
+          index.idx_tup_fetch ?? 0,
+          index.definition,
+        ])}
+      />
+    </>
+  );
+};
 
 export default TableDetails;
@@ -1,9 +1,9 @@
-import React from 'react';
-import { Tabs, Tab } from '@material-ui/core';
+import React, { useState } from 'react';
+import { Tabs, Tab, Select, MenuItem, InputLabel, Box } from '@material-ui/core';
 import styled from 'styled-components';
 import TableDetails from './TableDetails';
 import { TableInfo } from '../../../types';
-import { greyPrimary } from '../../../style-variables';
+import { greyPrimary, greyLight } from '../../../style-variables';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -17,6 +17,20 @@ const StyledTabs = styled(Tabs)`
   border-radius: 5px;
 `;
 
+// Disabled tab used as header for each group of tables from the same schema
+const SchemaHeaderTab = styled(Tab)`
+  font-style: italic;
+  font-size: 14px;
+  min-width: 0;
+  &.Mui-disabled {
+    color: ${greyLight};
+  }
+`;
+
+const StyledMenuItem = styled(MenuItem)`
+  color: #575151;
+`;
+
 const TabPanel = ({ children, value, index }: TabPanelProps) => (
   <div
     role="tabpanel"
@@ -33,44 +47,119 @@ const a11yProps = (index: any) => ({
   'aria-controls': `scrollable-auto-tabpanel-${index}`,
 });
 
+// value used for schema filter to show tables from every schema
+const ALL_SCHEMAS = '';
+
 interface TablesTabBarProps {
   tables: TableInfo[];
+  schemas: string[];
   selectTable: (table: TableInfo) => void;
   selectedTable: TableInfo | undefined;
 }
 
 const TablesTabs = ({
   tables,
+  schemas,
   selectTable,
   selectedTable,
 }: TablesTabBarProps) => {
-  const handleChange = (event: React.ChangeEvent<{}>, newValue: number) => {
-    selectTable(tables[newValue]);
+  const [schemaFilter, setSchemaFilter] = useState(ALL_SCHEMAS);
+
+  // reset filter if filtered schema was dropped
+  if (schemaFilter !== ALL_SCHEMAS && !schemas.includes(schemaFilter))
+    setSchemaFilter(ALL_SCHEMAS);
+
+  const shownTables = tables.filter(
+    ({ table_schema }) =>
+      schemaFilter === ALL_SCHEMAS || table_schema === schemaFilter
+  );
+
+  const handleChange = (event: React.ChangeEvent<{}>, newValue: string) => {
+    const table = shownTables.find(
+      ({ qualified_name }) => qualified_name === newValue
+    );
+    if (table) selectTable(table);
+  };
+
+  const handleSchemaChange = (newSchema: string) => {
+    setSchemaFilter(newSchema);
+    const firstTable = tables.find(
+      ({ table_schema }) =>
+        newSchema === ALL_SCHEMAS || table_schema === newSchema
+    );
+    if (firstTable) selectTable(firstTable);
   };
 
-  const tableIndex = tables.findIndex(
-    ({ table_name }) => table_name === selectedTable?.table_name
+  const isShown = shownTables.some(
+    ({ qualified_name }) => qualified_name === selectedTable?.qualified_name
   );
+  // Tabs requires value to match one of its tabs. false selects no tab
+  const tabValue = isShown ? selectedTable?.qualified_name : false;
+
+  // Build tab list, adding a header tab before each group of tables from the
+  // same schema when all schemas are shown
+  const tabs: JSX.Element[] = [];
+  shownTables.forEach(({ table_name, table_schema, qualified_name }, index) => {
+    if (
+      schemaFilter === ALL_SCHEMAS &&
+      table_schema !== shownTables[index - 1]?.table_schema
+    ) {
+      tabs.push(
+        <SchemaHeaderTab
+          disabled
+          label={`${table_schema}:`}
+          value={`schema_header_${table_schema}`}
+          key={`schema_header_${table_schema}`}
+        />
+      );
+    }
+    tabs.push(
+      <Tab
+        label={table_name}
+        value={qualified_name}
+        {...a11yProps(qualified_name)}
+        key={qualified_name}
+      />
+    );
+  });
 
   return (
     <>
+      <Box>
+        <InputLabel id="dbView-schema-label">Schema</InputLabel>
+        <Select
+          value={schemaFilter}
+          onChange={(evt) => handleSchemaChange(evt.target.value as string)}
+          labelId="dbView-schema-label"
+          displayEmpty
+        >
+          <StyledMenuItem value={ALL_SCHEMAS}>All schemas</StyledMenuItem>
+          {schemas.map((schema) => (
+            <StyledMenuItem value={schema} key={`dbView_schema_${schema}`}>
+              {schema}
+            </StyledMenuItem>
+          ))}
+        </Select>
+      </Box>
+      <br />
       <StyledTabs
-        value={tableIndex}
+        value={tabValue}
         onChange={handleChange}
         indicatorColor="primary"
         variant="scrollable"
         scrollButtons="auto"
         aria-label="scrollable auto tabs example"
       >
-        {tables.map(({ table_name: name }, index) => (
-          <Tab label={name} {...a11yProps(index)} key={name} />
-        ))}
-        ;
+        {tabs}
       </StyledTabs>
       <br />
       <br />
-      {tables.map((tableMap, index) => (
-        <TabPanel value={tableIndex} index={index} key={tableMap.table_name}>
+      {shownTables.map((tableMap) => (
+        <TabPanel
+          value={tabValue}
+          index={tableMap.qualified_name}
+          key={tableMap.qualified_name}
+        >
           <TableDetails table={tableMap} />
         </TabPanel>
       ))}
@@ -0,0 +1,52 @@
+import React from 'react';
+import styled from 'styled-components';
+import { DiffStatus } from '../../../types';
+import { diffColors, greyPrimary } from '../../../style-variables';
+
+const Row = styled.div`
+  display: grid;
+  grid: 'status name left right' auto / 90px 1fr 2fr 2fr;
+  gap: 10px;
+  padding: 5px 0;
+  border-bottom: 1px solid ${greyPrimary};
+  align-items: start;
+`;
+
+export const Status = styled.span<{ $status: DiffStatus }>`
+  color: ${({ $status }) => diffColors[$status]};
+  text-transform: uppercase;
+  font-size: 0.8em;
+  font-weight: bold;
+  letter-spacing: 1px;
+`;
+
+const Definition = styled.pre`
+  margin: 0;
+  font-size: 0.8em;
+  white-space: pre-wrap;
+  word-break: break-word;
+`;
+
+interface DiffRowProps {
+  name: string;
+  status: DiffStatus;
+  /**
+   * Description of object in each database. undefined if object doesn't exist there
+   */
+  left?: string;
+  right?: string;
+}
+
+/**
+ * Row showing an object's definition in both databases side by side
+ */
+const DiffRow = ({ name, status, left, right }: DiffRowProps) => (
+  <Row>
+    <Status $status={status}>{status}</Status>
+    <span>{name}</span>
+    <Definition>{left ?? '—'}</Definition>
+    <Definition>{right ?? '—'}</Definition>
+  </Row>
+);
+
+export default DiffRow;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Typography } from '@material-ui/core';
+import styled from 'styled-components';
+import { ObjectDiff } from '../../../types';
+import { defaultMargin } from '../../../style-variables';
+import DiffRow from './DiffRow';
+
+const Section = styled.div`
+  margin-top: ${defaultMargin};
+`;
+
+interface DiffSectionProps<T> {
+  title: string;
+  diffs: ObjectDiff<T>[];
+  /**
+   * Converts object into text shown on each side
+   */
+  describe: (object: T) => string;
+}
+
+/**
+ * List of objects of a single kind with their state in both databases.
+ * Renders nothing if there are no objects
+ */
+const DiffSection = <T,>({ title, diffs, describe }: DiffSectionProps<T>) => {
+  if (!diffs.length) return null;
+  return (
+    <Section>
+      <Typography variant="h5">{title}</Typography>
+      {diffs.map(({ name, status, left, right }) => (
+        <DiffRow
+          key={`${title}_${name}`}
+          name={name}
+          status={status}
+          left={left && describe(left)}
+          right={right && describe(right)}
+        />
+      ))}
+    </Section>
+  );
+};
+
+export default DiffSection;
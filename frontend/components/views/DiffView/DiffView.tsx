@@ -0,0 +1,246 @@
+import { IpcRendererEvent, ipcRenderer } from 'electron';
+import React, { useState, useEffect } from 'react';
+import {
+  Typography,
+  Select,
+  MenuItem,
+  InputLabel,
+  Button,
+  FormControlLabel,
+  Switch,
+} from '@material-ui/core';
+import styled from 'styled-components';
+import {
+  AppState,
+  SchemaDiff,
+  ObjectDiff,
+  DiffStatus,
+  CatalogType,
+  CatalogView,
+  isDbLists,
+} from '../../../types';
+import { sendFeedback } from '../../../lib/utils';
+import { defaultMargin } from '../../../style-variables';
+import DiffSection from './DiffSection';
+import TableDiffList from './TableDiffList';
+import MigrationPanel from './MigrationPanel';
+import { Status } from './DiffRow';
+
+const Controls = styled.div`
+  display: flex;
+  align-items: flex-end;
+  gap: ${defaultMargin};
+  margin: ${defaultMargin} 0;
+`;
+
+const StyledSelect = styled(Select)`
+  min-width: 200px;
+`;
+
+const StyledMenuItem = styled(MenuItem)`
+  color: #575151;
+`;
+
+const Counts = styled.div`
+  display: flex;
+  gap: ${defaultMargin};
+`;
+
+const describeSchema = (schema: string) => schema;
+
+const describeType = (type: CatalogType) => `ENUM (${type.labels.join(', ')})`;
+
+const describeView = (view: CatalogView) =>
+  `${view.materialized ? 'MATERIALIZED VIEW' : 'VIEW'}\n${view.definition}`;
+
+const isModified = ({ status }: ObjectDiff<unknown>) => status !== 'unchanged';
+
+// drop unchanged objects from diff, including unchanged columns, constraints
+// and indexes of changed tables
+const modifiedOnly = (diff: SchemaDiff): SchemaDiff => ({
+  ...diff,
+  schemas: diff.schemas.filter(isModified),
+  types: diff.types.filter(isModified),
+  tables: diff.tables.filter(isModified).map((table) => ({
+    ...table,
+    columns: table.columns.filter(isModified),
+    constraints: table.constraints.filter(isModified),
+    indexes: table.indexes.filter(isModified),
+  })),
+  views: diff.views.filter(isModified),
+});
+
+const countByStatus = (diff: SchemaDiff) =>
+  [...diff.schemas, ...diff.types, ...diff.tables, ...diff.views].reduce<
+    Record<DiffStatus, number>
+  >((acc, { status }) => ({ ...acc, [status]: acc[status] + 1 }), {
+    added: 0,
+    removed: 0,
+    changed: 0,
+    unchanged: 0,
+  });
+
+interface DbSelectProps {
+  label: string;
+  value: string;
+  databases: string[];
+  onChange: (dbName: string) => void;
+}
+
+const DbSelect = ({ label, value, databases, onChange }: DbSelectProps) => (
+  <div>
+    <InputLabel id={`diffView-${label}`}>{label}</InputLabel>
+    <StyledSelect
+      value={value}
+      onChange={(evt) => onChange(evt.target.value as string)}
+      labelId={`diffView-${label}`}
+    >
+      {databases.map((dbName) => (
+        <StyledMenuItem value={dbName} key={`diffView_${label}_${dbName}`}>
+          {dbName}
+        </StyledMenuItem>
+      ))}
+    </StyledSelect>
+  </div>
+);
+
+interface DiffViewProps {
+  selectedDb: AppState['selectedDb'];
+  show: boolean;
+}
+
+/**
+ * Compares schemas of two databases and shows added, removed and changed
+ * objects side by side
+ */
+const DiffView = ({ selectedDb, show }: DiffViewProps) => {
+  const [databases, setDatabases] = useState<string[]>([]);
+  const [leftDb, setLeftDb] = useState('');
+  const [rightDb, setRightDb] = useState('');
+  const [diff, setDiff] = useState<SchemaDiff>();
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [showMigration, setShowMigration] = useState(false);
+
+  useEffect(() => {
+    // Listen to backend for updates to list of available databases
+    const dbListFromBackend = (evt: IpcRendererEvent, dbLists: unknown) => {
+      if (isDbLists(dbLists)) {
+        setDatabases(dbLists.databaseList.map((db) => db.db_name));
+      }
+    };
+    ipcRenderer.on('db-lists', dbListFromBackend);
+    return () => {
+      ipcRenderer.removeListener('db-lists', dbListFromBackend);
+    };
+  });
+
+  // Request fresh list of databases whenever view is opened
+  useEffect(() => {
+    if (show) ipcRenderer.send('return-db-list');
+  }, [show]);
+
+  // compare from selected database by default
+  useEffect(() => {
+    if (!leftDb && selectedDb) setLeftDb(selectedDb);
+  }, [selectedDb, leftDb]);
+
+  const compare = () => {
+    ipcRenderer
+      .invoke('diff-schemas', { left: leftDb, right: rightDb })
+      .then((result: SchemaDiff) => setDiff(result))
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: `Failed to compare ${leftDb} and ${rightDb}`,
+        })
+      );
+  };
+
+  if (!show) return null;
+
+  const shownDiff = diff && (showUnchanged ? diff : modifiedOnly(diff));
+  const counts = diff && countByStatus(diff);
+
+  return (
+    <>
+      <Typography variant="h3">Schema Diff</Typography>
+      <Controls>
+        <DbSelect
+          label="Compare from"
+          value={leftDb}
+          databases={databases}
+          onChange={setLeftDb}
+        />
+        <DbSelect
+          label="Compare to"
+          value={rightDb}
+          databases={databases}
+          onChange={setRightDb}
+        />
+        <Button
+          variant="contained"
+          color="primary"
+          disabled={!leftDb || !rightDb || leftDb === rightDb}
+          onClick={compare}
+        >
+          Compare
+        </Button>
+        <FormControlLabel
+          control={
+            // eslint-disable-next-line react/jsx-wrap-multilines
+            <Switch
+              checked={showUnchanged}
+              onChange={() => setShowUnchanged(!showUnchanged)}
+              color="primary"
+            />
+          }
+          label="Show unchanged"
+        />
+        <Button
+          variant="contained"
+          disabled={!diff}
+          onClick={() => setShowMigration(!showMigration)}
+        >
+          {showMigration ? 'Hide Migration' : 'Generate Migration'}
+        </Button>
+      </Controls>
+      {diff && showMigration ? (
+        <MigrationPanel
+          diff={diff}
+          selectedDb={selectedDb}
+          onApplied={compare}
+        />
+      ) : null}
+      {shownDiff && counts ? (
+        <>
+          <Typography variant="h4">{`${shownDiff.left} → ${shownDiff.right}`}</Typography>
+          <Counts>
+            {(Object.keys(counts) as DiffStatus[]).map((status) => (
+              <Status $status={status} key={`diffView_count_${status}`}>
+                {`${counts[status]} ${status}`}
+              </Status>
+            ))}
+          </Counts>
+          <DiffSection
+            title="Schemas"
+            diffs={shownDiff.schemas}
+            describe={describeSchema}
+          />
+          <DiffSection
+            title="Types"
+            diffs={shownDiff.types}
+            describe={describeType}
+          />
+          <TableDiffList tables={shownDiff.tables} />
+          <DiffSection
+            title="Views"
+            diffs={shownDiff.views}
+            describe={describeView}
+          />
+        </>
+      ) : null}
+    </>
+  );
+};
+
+export default DiffView;
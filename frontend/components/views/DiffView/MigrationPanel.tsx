@@ -0,0 +1,147 @@
+import { ipcRenderer } from 'electron';
+import React, { useState, useEffect } from 'react';
+import {
+  Typography,
+  Button,
+  Dialog,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@material-ui/core';
+import styled from 'styled-components';
+import { AppState, SchemaDiff } from '../../../types';
+import generateMigration, {
+  generateEnumAdditions,
+} from '../../../lib/migration';
+import { sendFeedback } from '../../../lib/utils';
+import { defaultMargin, StyledDialogTitle } from '../../../style-variables';
+import QuerySqlInput from '../QueryView/QuerySqlInput';
+
+const Header = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  margin: ${defaultMargin} 0;
+`;
+
+interface MigrationPanelProps {
+  diff: SchemaDiff;
+  selectedDb: AppState['selectedDb'];
+  /**
+   * Called after migration is committed
+   */
+  onApplied: () => void;
+}
+
+/**
+ * Editable preview of SQL that migrates left database of diff to match right
+ * database. Migration is applied in a single transaction, after enum values
+ * are added outside of it
+ */
+const MigrationPanel = ({
+  diff,
+  selectedDb,
+  onApplied,
+}: MigrationPanelProps) => {
+  const [enumSql, setEnumSql] = useState('');
+  const [sql, setSql] = useState('');
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  // regenerate migration whenever databases are compared again
+  useEffect(() => {
+    setEnumSql(generateEnumAdditions(diff));
+    setSql(generateMigration(diff));
+  }, [diff]);
+
+  // enum values are added one statement at a time and kept even if
+  // migration fails. Adding them again does nothing
+  const addEnumValues = async () => {
+    if (!enumSql.trim()) return;
+    const { error } = await ipcRenderer.invoke('run-query', {
+      targetDb: diff.left,
+      sqlString: enumSql,
+      selectedDb,
+      mode: 'run',
+    });
+    if (error) throw error;
+  };
+
+  const apply = () => {
+    setConfirmOpen(false);
+    addEnumValues()
+      .then(() =>
+        ipcRenderer.invoke('run-query', {
+          targetDb: diff.left,
+          sqlString: sql,
+          selectedDb,
+          transaction: true,
+        })
+      )
+      .then(({ error }) => {
+        if (error) throw error;
+        sendFeedback({
+          type: 'success',
+          message: `Migrated ${diff.left}`,
+        });
+        onApplied();
+      })
+      .catch((err) =>
+        sendFeedback({
+          type: 'error',
+          message: `Migration rolled back. ${err ?? ''}`,
+        })
+      );
+  };
+
+  return (
+    <>
+      <Header>
+        <Typography variant="h5">{`Migration for ${diff.left}`}</Typography>
+        <Button
+          variant="contained"
+          color="primary"
+          onClick={() => setConfirmOpen(true)}
+        >
+          Apply Migration
+        </Button>
+      </Header>
+      {enumSql ? (
+        <>
+          <Typography variant="subtitle1">
+            Run first, outside the migration transaction
+          </Typography>
+          <QuerySqlInput
+            sql={enumSql}
+            onChange={setEnumSql}
+            runQuery={() => setConfirmOpen(true)}
+          />
+        </>
+      ) : null}
+      <QuerySqlInput
+        sql={sql}
+        onChange={setSql}
+        runQuery={() => setConfirmOpen(true)}
+      />
+      <Dialog open={confirmOpen} onClose={() => setConfirmOpen(false)}>
+        <StyledDialogTitle>{`Apply migration to ${diff.left}?`}</StyledDialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            All statements run in a single transaction. If any of them fails,
+            every change is rolled back.
+            {enumSql
+              ? ' Enum values are added before it and are kept either way.'
+              : ''}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmOpen(false)}>Cancel</Button>
+          <Button variant="contained" color="primary" onClick={apply}>
+            Apply
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
+
+export default MigrationPanel;
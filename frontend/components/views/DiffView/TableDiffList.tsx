@@ -0,0 +1,101 @@
+import React from 'react';
+import {
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Typography,
+} from '@material-ui/core';
+import ExpandMoreIcon from '@material-ui/icons/ExpandMore';
+import styled from 'styled-components';
+import {
+  TableDiff,
+  CatalogColumn,
+  CatalogConstraint,
+  CatalogIndex,
+} from '../../../types';
+import { greyDark, defaultMargin } from '../../../style-variables';
+import DiffSection from './DiffSection';
+import { Status } from './DiffRow';
+
+const Section = styled.div`
+  margin-top: ${defaultMargin};
+`;
+
+const StyledAccordion = styled(Accordion)`
+  background: ${greyDark};
+`;
+
+const Summary = styled.div`
+  display: grid;
+  grid: 'status name' auto / 90px 1fr;
+  gap: 10px;
+  align-items: baseline;
+`;
+
+const Details = styled(AccordionDetails)`
+  display: block;
+`;
+
+const describeColumn = (column: CatalogColumn) => {
+  let description = column.type;
+  if (column.identity === 'a') description += ' GENERATED ALWAYS AS IDENTITY';
+  if (column.identity === 'd')
+    description += ' GENERATED BY DEFAULT AS IDENTITY';
+  if (!column.nullable) description += ' NOT NULL';
+  if (column.default) description += ` DEFAULT ${column.default}`;
+  return description;
+};
+
+const describeConstraint = (constraint: CatalogConstraint) =>
+  constraint.definition;
+
+const describeIndex = (index: CatalogIndex) => index.definition;
+
+interface TableDiffListProps {
+  tables: TableDiff[];
+}
+
+/**
+ * Expandable list of tables. Each table shows differences between its
+ * columns, constraints and indexes in both databases
+ */
+const TableDiffList = ({ tables }: TableDiffListProps) => {
+  if (!tables.length) return null;
+  return (
+    <Section>
+      <Typography variant="h5">Tables</Typography>
+      {tables.map((table) => (
+        <StyledAccordion
+          key={table.name}
+          TransitionProps={{ unmountOnExit: true }}
+        >
+          <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+            <Summary>
+              <Status $status={table.status}>{table.status}</Status>
+              <span>{table.name}</span>
+            </Summary>
+          </AccordionSummary>
+          <Details>
+            <DiffSection
+              title="Columns"
+              diffs={table.columns}
+              describe={describeColumn}
+            />
+            <DiffSection
+              title="Constraints"
+              diffs={table.constraints}
+              describe={describeConstraint}
+            />
+            <DiffSection
+              title="Indexes"
+              diffs={table.indexes}
+              describe={describeIndex}
+            />
+          </Details>
+        </StyledAccordion>
+      ))}
+    </Section>
+  );
+};
+
+export default TableDiffList;
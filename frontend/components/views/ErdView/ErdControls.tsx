@@ -0,0 +1,78 @@
+import React from 'react';
+import { useZoomPanHelper } from 'react-flow-renderer';
+import { ButtonGroup, Button, Tooltip } from '@material-ui/core';
+import FullscreenIcon from '@material-ui/icons/Fullscreen';
+import FullscreenExitIcon from '@material-ui/icons/FullscreenExit';
+import FilterCenterFocusIcon from '@material-ui/icons/FilterCenterFocus';
+import ZoomInIcon from '@material-ui/icons/ZoomIn';
+import ZoomOutIcon from '@material-ui/icons/ZoomOut';
+import ImageIcon from '@material-ui/icons/Image';
+import PhotoIcon from '@material-ui/icons/Photo';
+import styled from 'styled-components';
+
+const SquareBtn = styled(Button)`
+  padding: 5px;
+`;
+
+const Toolbar = styled.div`
+  position: absolute;
+  z-index: 1000;
+  bottom: 5px;
+  left: 5px;
+`;
+
+export type ExportFormat = 'svg' | 'png';
+
+interface ErdControlsProps {
+  toggleFullscreen: () => void;
+  fullscreen: boolean;
+  exportDiagram: (format: ExportFormat) => void;
+}
+
+const ErdControls = ({
+  toggleFullscreen,
+  fullscreen,
+  exportDiagram,
+}: ErdControlsProps) => {
+  const { fitView, zoomIn, zoomOut } = useZoomPanHelper();
+  const tooltipDelay = 1000;
+
+  return (
+    <Toolbar>
+      <ButtonGroup orientation="vertical" variant="contained" size="small">
+        <Tooltip title="Fit diagram to view" enterDelay={tooltipDelay}>
+          <SquareBtn onClick={() => fitView({ padding: 0.2 })}>
+            <FilterCenterFocusIcon />
+          </SquareBtn>
+        </Tooltip>
+        <Tooltip title="Fullscreen" enterDelay={tooltipDelay}>
+          <SquareBtn onClick={toggleFullscreen}>
+            {fullscreen ? <FullscreenExitIcon /> : <FullscreenIcon />}
+          </SquareBtn>
+        </Tooltip>
+        <Tooltip title="Zoom Out" enterDelay={tooltipDelay}>
+          <SquareBtn onClick={() => zoomOut()}>
+            <ZoomOutIcon />
+          </SquareBtn>
+        </Tooltip>
+        <Tooltip title="Zoom In" enterDelay={tooltipDelay}>
+          <SquareBtn onClick={() => zoomIn()}>
+            <ZoomInIcon />
+          </SquareBtn>
+        </Tooltip>
+        <Tooltip title="Export as SVG" enterDelay={tooltipDelay}>
+          <SquareBtn onClick={() => exportDiagram('svg')}>
+            <ImageIcon />
+          </SquareBtn>
+        </Tooltip>
+        <Tooltip title="Export as PNG" enterDelay={tooltipDelay}>
+          <SquareBtn onClick={() => exportDiagram('png')}>
+            <PhotoIcon />
+          </SquareBtn>
+        </Tooltip>
+      </ButtonGroup>
+    </Toolbar>
+  );
+};
+
+export default ErdControls;
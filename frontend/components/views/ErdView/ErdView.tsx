@@ -0,0 +1,179 @@
+import { IpcRendererEvent, ipcRenderer, remote } from 'electron';
+import React, { useState, useEffect, useMemo, memo } from 'react';
+import ReactFlow, {
+  Background,
+  ReactFlowProvider,
+  isNode,
+} from 'react-flow-renderer';
+import { Dialog, DialogContent, Typography } from '@material-ui/core';
+import styled from 'styled-components';
+import { AppState, TableInfo, isDbLists } from '../../../types';
+import {
+  ErdLayout,
+  createErdLayout,
+  erdToFlow,
+  erdToSvg,
+  svgToPng,
+} from '../../../lib/erd';
+import { sendFeedback } from '../../../lib/utils';
+import {
+  DarkPaperFull,
+  bgColor,
+  greyDark,
+  greyMedium,
+  greyLight,
+  greyPrimary,
+  textColor,
+} from '../../../style-variables';
+import TableNode from './TableNode';
+import ErdControls, { ExportFormat } from './ErdControls';
+import TableDetails from '../DbView/TableDetails';
+
+const { dialog } = remote;
+
+interface ErdFlowProps {
+  layout: ErdLayout;
+  onTableClick: (table: TableInfo) => void;
+}
+
+const ErdFlow = ({ layout, onTableClick }: ErdFlowProps) => (
+  <ReactFlow
+    elements={erdToFlow(layout, 'tableNode', 'default')}
+    nodesDraggable={false}
+    nodesConnectable={false}
+    nodeTypes={{ tableNode: TableNode }}
+    minZoom={0.1}
+    onLoad={(instance) => instance.fitView({ padding: 0.2 })}
+    onElementClick={(evt, element) => {
+      if (isNode(element)) onTableClick(element.data.table.table);
+    }}
+    onlyRenderVisibleElements={false}
+  >
+    <Background gap={32} />
+  </ReactFlow>
+);
+
+// Memoise to prevent rerender on fullscreen toggle
+const MemoErdFlow = memo(ErdFlow);
+
+// prettier-ignore
+const DiagramContainer = styled(DarkPaperFull)<{$fullscreen: boolean}>`
+${({$fullscreen}) => $fullscreen ? `
+  position: fixed;
+  top: 0;
+  left: 0;
+  z-index: 1200;
+  width: 100vw;
+  height: 100vh;
+` : `
+  position: relative;
+  height: calc(100% - 60px);
+`}`;
+
+const svgColors = {
+  background: bgColor,
+  node: greyMedium,
+  header: greyDark,
+  text: textColor,
+  muted: greyLight,
+  edge: greyPrimary,
+};
+
+interface ErdViewProps {
+  selectedDb: AppState['selectedDb'];
+  show: boolean;
+}
+
+/**
+ * Entity-relationship diagram of every table in selected database
+ */
+const ErdView = ({ selectedDb, show }: ErdViewProps) => {
+  const [tables, setTables] = useState<TableInfo[]>([]);
+  const [isFullscreen, setFullscreen] = useState(false);
+  const [detailsTable, setDetailsTable] = useState<TableInfo>();
+
+  useEffect(() => {
+    // Listen to backend for updates to list of tables on current db
+    const tablesFromBackend = (evt: IpcRendererEvent, dbLists: unknown) => {
+      if (isDbLists(dbLists)) {
+        setTables(dbLists.schemaList.flatMap((schema) => schema.tables));
+      }
+    };
+    ipcRenderer.on('db-lists', tablesFromBackend);
+    return () => {
+      ipcRenderer.removeListener('db-lists', tablesFromBackend);
+    };
+  });
+
+  // Request fresh table info whenever view is opened
+  useEffect(() => {
+    if (show) ipcRenderer.send('return-db-list');
+  }, [show, selectedDb]);
+
+  const layout = useMemo(() => createErdLayout(tables), [tables]);
+
+  const exportDiagram = (format: ExportFormat) => {
+    dialog
+      .showSaveDialog({
+        defaultPath: `${selectedDb}.${format}`,
+        filters: [{ name: format.toUpperCase(), extensions: [format] }],
+      })
+      .then(async ({ canceled, filePath }) => {
+        if (canceled || !filePath) return;
+        const svg = erdToSvg(layout, svgColors);
+        const data =
+          format === 'svg'
+            ? svg
+            : await svgToPng(svg, layout.width, layout.height);
+        await ipcRenderer.invoke('export-diagram', {
+          filePath,
+          data,
+          encoding: format === 'svg' ? 'utf8' : 'base64',
+        });
+        sendFeedback({
+          type: 'success',
+          message: `Diagram exported to ${filePath}`,
+        });
+      })
+      .catch(() =>
+        sendFeedback({
+          type: 'error',
+          message: 'Failed to export diagram',
+        })
+      );
+  };
+
+  if (!show) return null;
+  return (
+    <>
+      <Typography variant="h3">{`${selectedDb} diagram`}</Typography>
+      <br />
+      {tables.length ? (
+        <ReactFlowProvider>
+          <DiagramContainer $fullscreen={isFullscreen}>
+            <MemoErdFlow layout={layout} onTableClick={setDetailsTable} />
+            <ErdControls
+              toggleFullscreen={() => setFullscreen(!isFullscreen)}
+              fullscreen={isFullscreen}
+              exportDiagram={exportDiagram}
+            />
+          </DiagramContainer>
+        </ReactFlowProvider>
+      ) : (
+        <Typography>No tables in database</Typography>
+      )}
+      <Dialog
+        fullWidth
+        maxWidth="lg"
+        open={!!detailsTable}
+        onClose={() => setDetailsTable(undefined)}
+      >
+        <DialogContent>
+          <TableDetails table={detailsTable} />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default ErdView;
@@ -0,0 +1,97 @@
+import React, { memo } from 'react';
+import styled from 'styled-components';
+import { Handle, Position, NodeProps } from 'react-flow-renderer';
+import { Card } from '@material-ui/core';
+import {
+  ErdTable,
+  keyLabel,
+  sourceHandle,
+  targetHandle,
+} from '../../../lib/erd';
+import {
+  greyMedium,
+  greyDark,
+  greyLight,
+  greenPrimary,
+  erdNodeWidth,
+  erdHeaderHeight,
+  erdRowHeight,
+} from '../../../style-variables';
+
+const StyledCard = styled(Card)`
+  width: ${erdNodeWidth};
+  font-size: 10pt;
+  background-color: ${greyMedium};
+  cursor: pointer;
+  overflow: visible;
+`;
+
+const Header = styled.div`
+  height: ${erdHeaderHeight};
+  line-height: ${erdHeaderHeight};
+  padding: 0 8px;
+  background-color: ${greyDark};
+  font-weight: bold;
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+`;
+
+// relative position so column handles are placed on the sides of each row
+const Row = styled.div`
+  position: relative;
+  height: ${erdRowHeight};
+  line-height: ${erdRowHeight};
+  padding: 0 8px;
+  display: flex;
+  justify-content: space-between;
+`;
+
+const Name = styled.span<{ $isKey: boolean }>`
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  ${({ $isKey }) => ($isKey ? `color: ${greenPrimary};` : '')}
+`;
+
+const Type = styled.span`
+  color: ${greyLight};
+  margin-left: 10px;
+  white-space: nowrap;
+`;
+
+const hiddenHandle = { visibility: 'hidden' } as const;
+
+type TableNodeProps = NodeProps<{ table: ErdTable }>;
+
+/**
+ * Node of ERD. Card with table name and a row for each column. Each row has
+ * handles so relations connect the exact columns of a foreign key
+ */
+const TableNode = ({ data: { table } }: TableNodeProps) => (
+  <StyledCard>
+    <Header title={table.id}>{table.id}</Header>
+    {table.columns.map((column) => (
+      <Row key={column.name}>
+        <Handle
+          type="target"
+          position={Position.Left}
+          id={targetHandle(column.name)}
+          style={hiddenHandle}
+        />
+        <Name $isKey={column.isPrimary || !!column.references}>
+          {`${keyLabel(column)}${column.name}`}
+        </Name>
+        <Type>{column.type}</Type>
+        <Handle
+          type="source"
+          position={Position.Right}
+          id={sourceHandle(column.name)}
+          style={hiddenHandle}
+        />
+      </Row>
+    ))}
+  </StyledCard>
+);
+
+export default memo(TableNode);
@@ -0,0 +1,84 @@
+import React from 'react';
+import { FormControlLabel, Switch, TextField } from '@material-ui/core';
+import styled from 'styled-components';
+import { BenchmarkOptions } from '../../../types';
+import { defaultMargin } from '../../../style-variables';
+
+const Container = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${defaultMargin};
+`;
+
+const CountField = styled(TextField)`
+  width: 90px;
+`;
+
+interface BenchmarkControlsProps {
+  /**
+   * Undefined when benchmark mode is off
+   */
+  options: BenchmarkOptions | undefined;
+  onChange: (options: BenchmarkOptions | undefined) => void;
+  /**
+   * Execution mode doesn't create a plan, so there's nothing to time
+   */
+  disabled: boolean;
+}
+
+export const defaultBenchmark: BenchmarkOptions = {
+  iterations: 10,
+  warmup: 2,
+};
+
+// keeps counts whole and within limits while user types
+const toCount = (value: string, min: number) =>
+  Math.min(1000, Math.max(min, Math.floor(Number(value)) || min));
+
+/**
+ * Toggles benchmark mode and sets how many times query runs
+ */
+const BenchmarkControls = ({
+  options,
+  onChange,
+  disabled,
+}: BenchmarkControlsProps) => (
+  <Container>
+    <FormControlLabel
+      disabled={disabled}
+      control={
+        // eslint-disable-next-line react/jsx-wrap-multilines
+        <Switch
+          checked={!!options && !disabled}
+          onChange={() => onChange(options ? undefined : defaultBenchmark)}
+          color="primary"
+        />
+      }
+      label="Benchmark"
+    />
+    {options && !disabled ? (
+      <>
+        <CountField
+          label="Iterations"
+          type="number"
+          size="small"
+          value={options.iterations}
+          onChange={(evt) =>
+            onChange({ ...options, iterations: toCount(evt.target.value, 1) })
+          }
+        />
+        <CountField
+          label="Warm-up runs"
+          type="number"
+          size="small"
+          value={options.warmup}
+          onChange={(evt) =>
+            onChange({ ...options, warmup: toCount(evt.target.value, 0) })
+          }
+        />
+      </>
+    ) : null}
+  </Container>
+);
+
+export default BenchmarkControls;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Select, MenuItem, InputLabel, Box, Tooltip } from '@material-ui/core/';
+import styled from 'styled-components';
+import { ExecutionMode } from '../../../types';
+import { defaultMargin } from '../../../style-variables';
+
+const SpacedBox = styled(Box)`
+  margin: 0 ${defaultMargin};
+`;
+
+const StyledMenuItem = styled(MenuItem)`
+  color: #575151;
+`;
+
+const modes: Record<ExecutionMode, [string, string]> = {
+  auto: [
+    'Run and analyze',
+    'Queries that only read data are analyzed and then run. Queries that modify data run once, while being analyzed',
+  ],
+  explain: ['Explain only', 'Show estimated plan without running query'],
+  run: ['Run only', 'Run query without creating a plan'],
+  'analyze-rollback': [
+    'Analyze and roll back',
+    'Analyze query in a transaction that is rolled back. No changes are kept',
+  ],
+};
+
+interface ExecutionModeSelectProps {
+  mode: ExecutionMode;
+  onChange: (mode: ExecutionMode) => void;
+}
+
+const ExecutionModeSelect = ({ mode, onChange }: ExecutionModeSelectProps) => (
+  <SpacedBox>
+    <InputLabel id="queryView-mode-label">Execution</InputLabel>
+    <Tooltip title={modes[mode][1]}>
+      <Select
+        value={mode}
+        onChange={(evt) => onChange(evt.target.value as ExecutionMode)}
+        labelId="queryView-mode-label"
+      >
+        {(Object.keys(modes) as ExecutionMode[]).map((option) => (
+          <StyledMenuItem value={option} key={`queryview_mode_${option}`}>
+            {modes[option][0]}
+          </StyledMenuItem>
+        ))}
+      </Select>
+    </Tooltip>
+  </SpacedBox>
+);
+
+export default ExecutionModeSelect;
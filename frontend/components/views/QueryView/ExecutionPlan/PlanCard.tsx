@@ -105,12 +105,14 @@ const isSameCard = (prevProps: PlanCardProps, nextProps: PlanCardProps) =>
 
 const PlanCard = ({ plan, totals, thresholds }: PlanCardProps) => {
   const [detailIsOpen, setDetailOpen] = useState(false);
+  // plans created without ANALYZE only have estimates
+  const isAnalyzed = plan['Actual Total Time'] !== undefined;
   const rowRatio = plan['Plan Rows'] / plan['Actual Rows'];
   const exclusive = exclusiveTime(plan);
   const time = totalTime(plan);
-  const exclusiveRatio = +((exclusiveTime(plan) / totals.time) * 100).toFixed(
-    2
-  );
+  const exclusiveRatio = isAnalyzed
+    ? +((exclusiveTime(plan) / totals.time) * 100).toFixed(2)
+    : 0;
 
   const handleClick = (event: React.MouseEvent) => {
     event.stopPropagation();
@@ -133,9 +135,13 @@ const PlanCard = ({ plan, totals, thresholds }: PlanCardProps) => {
           <Tooltip title="Node Type">
             <Type>{plan['Node Type']}</Type>
           </Tooltip>
-          <Tooltip title={`Exclusive Time out of ${formatTime(time)} total`}>
-            <Time>{formatTime(exclusive)}</Time>
-          </Tooltip>
+          {isAnalyzed ? (
+            <Tooltip title={`Exclusive Time out of ${formatTime(time)} total`}>
+              <Time>{formatTime(exclusive)}</Time>
+            </Tooltip>
+          ) : (
+            <Time>estimate</Time>
+          )}
         </Header>
         <Tooltip title="Table">
           <Relation>
@@ -154,12 +160,16 @@ const PlanCard = ({ plan, totals, thresholds }: PlanCardProps) => {
           </Relation>
         </Tooltip>
         <MiniStats>
-          <Tooltip title="Actual rows emitted">
-            <span style={{ gridArea: 'rows' }}>{plan['Actual Rows']}</span>
+          <Tooltip
+            title={isAnalyzed ? 'Actual rows emitted' : 'Estimated rows'}
+          >
+            <span style={{ gridArea: 'rows' }}>
+              {isAnalyzed ? plan['Actual Rows'] : plan['Plan Rows']}
+            </span>
           </Tooltip>
           <Tooltip title="Planner estimated rows / actual rows emitted">
             <Accuracy $warn={rowRatio > thresholds.rowsAccuracy}>
-              {rowRatio.toFixed(2)}
+              {isAnalyzed ? rowRatio.toFixed(2) : '-'}
             </Accuracy>
           </Tooltip>
           <Tooltip title="Execution Cost">
@@ -1,4 +1,4 @@
-import React, { useState, memo  } from 'react';
+import React, { useState, memo } from 'react';
 import styled from 'styled-components';
 import ReactFlow, {
   Background,
@@ -74,27 +74,23 @@ ${({$fullscreen}) => $fullscreen ? `
   flex: 1;
 `}`;
 
-const defaultThresholds: Thresholds = {
-  percentDuration: 30,
-  rowsAccuracy: 5,
-};
-
 interface PlanTreeProps {
   data: ExplainJson | undefined;
+  thresholds: Thresholds;
+  setThresholds: (thresholds: Thresholds) => void;
 }
-const PlanTree = ({ data }: PlanTreeProps) => {
+const PlanTree = ({ data, thresholds, setThresholds }: PlanTreeProps) => {
   const [isFullscreen, setFullscreen] = useState(false);
-  const [userThresholds, setUserThresholds] = useState(defaultThresholds);
 
   if (!data) return null;
   return (
     <TreeContainer $fullscreen={isFullscreen}>
-      <MemoFlowTree data={data} thresholds={userThresholds} />
+      <MemoFlowTree data={data} thresholds={thresholds} />
       <FlowControls
         toggleFullscreen={() => setFullscreen(!isFullscreen)}
         fullscreen={isFullscreen}
-        thresholds={userThresholds}
-        setThresholds={setUserThresholds}
+        thresholds={thresholds}
+        setThresholds={setThresholds}
       />
     </TreeContainer>
   );
@@ -0,0 +1,217 @@
+import { ipcRenderer, remote } from 'electron';
+import React, { useState } from 'react';
+import {
+  Button,
+  Dialog,
+  DialogContent,
+  DialogActions,
+  FormControlLabel,
+  MenuItem,
+  Switch,
+  TextField,
+} from '@material-ui/core';
+import styled from 'styled-components';
+import {
+  QueryData,
+  ResultEncoding,
+  ResultExportOptions,
+  ResultFormat,
+  RemainingRows,
+} from '../../../types';
+import { sendFeedback } from '../../../lib/utils';
+import { defaultMargin, StyledDialogTitle } from '../../../style-variables';
+
+const { dialog } = remote;
+
+const Fields = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: ${defaultMargin};
+  min-width: 360px;
+`;
+
+// label and file extension of each format
+const formats: Record<ResultFormat, [string, string]> = {
+  csv: ['CSV', 'csv'],
+  jsonl: ['JSON lines', 'jsonl'],
+  sql: ['SQL INSERT script', 'sql'],
+  xlsx: ['Excel workbook', 'xlsx'],
+};
+
+const delimiters: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+const encodings: Record<ResultEncoding, string> = {
+  utf8: 'UTF-8',
+  'utf8-bom': 'UTF-8 with BOM',
+  utf16le: 'UTF-16 LE',
+  latin1: 'Latin-1',
+};
+
+export const defaultExportOptions: ResultExportOptions = {
+  format: 'csv',
+  delimiter: ',',
+  header: true,
+  nullText: '',
+  encoding: 'utf8',
+  tableName: 'results',
+};
+
+interface ExportResultsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  results: NonNullable<QueryData['returnedRows']>;
+  /**
+   * Rows left in cursor of results. They're fetched and exported after results
+   */
+  remaining?: RemainingRows;
+}
+
+/**
+ * Options for exporting query results. File is written by the main process,
+ * which also drains rows left in the cursor, so all rows are exported
+ */
+const ExportResultsDialog = ({
+  open,
+  onClose,
+  results,
+  remaining,
+}: ExportResultsDialogProps) => {
+  const [options, setOptions] = useState(defaultExportOptions);
+
+  const { format } = options;
+  const set = (changes: Partial<ResultExportOptions>) =>
+    setOptions({ ...options, ...changes });
+
+  const exportResults = () => {
+    const [name, extension] = formats[format];
+    dialog
+      .showSaveDialog({
+        defaultPath: `results.${extension}`,
+        filters: [{ name, extensions: [extension] }],
+      })
+      .then(async ({ canceled, filePath }) => {
+        if (canceled || !filePath) return;
+        onClose();
+        const rowCount: number = await ipcRenderer
+          .invoke('export-results', {
+            filePath,
+            rows: results,
+            drainCursor: !!remaining,
+            timeout: remaining?.timeout,
+            options,
+          })
+          // cursor is used up, or closed if fetching failed
+          .finally(() => remaining?.onFetched());
+        sendFeedback({
+          type: 'success',
+          message: `${rowCount.toLocaleString()} rows exported to ${filePath}`,
+        });
+      })
+      .catch((err) =>
+        sendFeedback({
+          type: 'error',
+          message: `Failed to export results. ${err?.message ?? ''}`,
+        })
+      );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose}>
+      <StyledDialogTitle>Export Results</StyledDialogTitle>
+      <DialogContent>
+        <Fields>
+          <TextField
+            select
+            label="Format"
+            value={format}
+            onChange={(evt) =>
+              set({ format: evt.target.value as ResultFormat })
+            }
+          >
+            {(Object.keys(formats) as ResultFormat[]).map((option) => (
+              <MenuItem value={option} key={`export_format_${option}`}>
+                {formats[option][0]}
+              </MenuItem>
+            ))}
+          </TextField>
+          {format === 'csv' ? (
+            <>
+              <TextField
+                select
+                label="Delimiter"
+                value={options.delimiter}
+                onChange={(evt) => set({ delimiter: evt.target.value })}
+              >
+                {Object.entries(delimiters).map(([delimiter, label]) => (
+                  <MenuItem value={delimiter} key={`export_delim_${label}`}>
+                    {label}
+                  </MenuItem>
+                ))}
+              </TextField>
+              <TextField
+                label="NULL as"
+                value={options.nullText}
+                helperText="Text written for NULL values"
+                onChange={(evt) => set({ nullText: evt.target.value })}
+              />
+            </>
+          ) : null}
+          {format === 'sql' ? (
+            <TextField
+              label="Table"
+              value={options.tableName}
+              onChange={(evt) => set({ tableName: evt.target.value })}
+            />
+          ) : null}
+          {format === 'csv' || format === 'xlsx' ? (
+            <FormControlLabel
+              control={
+                // eslint-disable-next-line react/jsx-wrap-multilines
+                <Switch
+                  checked={options.header}
+                  onChange={() => set({ header: !options.header })}
+                  color="primary"
+                />
+              }
+              label="Header row"
+            />
+          ) : null}
+          {format !== 'xlsx' ? (
+            <TextField
+              select
+              label="Encoding"
+              value={options.encoding}
+              onChange={(evt) =>
+                set({ encoding: evt.target.value as ResultEncoding })
+              }
+            >
+              {(Object.keys(encodings) as ResultEncoding[]).map((encoding) => (
+                <MenuItem value={encoding} key={`export_enc_${encoding}`}>
+                  {encodings[encoding]}
+                </MenuItem>
+              ))}
+            </TextField>
+          ) : null}
+        </Fields>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          color="primary"
+          onClick={exportResults}
+          disabled={format === 'sql' && !options.tableName.trim()}
+        >
+          Export
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ExportResultsDialog;
@@ -0,0 +1,130 @@
+import React from 'react';
+import {
+  Checkbox,
+  FormControlLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography,
+} from '@material-ui/core';
+import styled from 'styled-components';
+import { QueryParameter, ParameterType } from '../../../types';
+import { defaultMargin } from '../../../style-variables';
+
+const Panel = styled.div`
+  display: grid;
+  grid-template-columns: max-content 140px 1fr max-content;
+  align-items: center;
+  gap: 5px ${defaultMargin};
+  margin-top: ${defaultMargin};
+`;
+
+const StyledMenuItem = styled(MenuItem)`
+  color: #575151;
+`;
+
+const typeLabels: Record<ParameterType, string> = {
+  unknown: 'Auto',
+  text: 'Text',
+  integer: 'Integer',
+  numeric: 'Numeric',
+  boolean: 'Boolean',
+  date: 'Date',
+  timestamptz: 'Timestamp',
+  json: 'JSON',
+};
+
+// input type of value field for each parameter type
+const inputTypes: Partial<Record<ParameterType, string>> = {
+  integer: 'number',
+  numeric: 'number',
+  date: 'date',
+  timestamptz: 'datetime-local',
+};
+
+interface ValueInputProps {
+  param: QueryParameter;
+  onChange: (value: string) => void;
+}
+
+const ValueInput = ({ param, onChange }: ValueInputProps) => {
+  if (param.type === 'boolean')
+    return (
+      <Select
+        value={param.value ?? ''}
+        disabled={param.value === null}
+        onChange={(evt) => onChange(evt.target.value as string)}
+      >
+        <StyledMenuItem value="true">true</StyledMenuItem>
+        <StyledMenuItem value="false">false</StyledMenuItem>
+      </Select>
+    );
+  return (
+    <TextField
+      size="small"
+      type={inputTypes[param.type] ?? 'text'}
+      value={param.value ?? ''}
+      disabled={param.value === null}
+      placeholder={param.value === null ? 'NULL' : ''}
+      onChange={(evt) => onChange(evt.target.value)}
+    />
+  );
+};
+
+interface ParameterPanelProps {
+  params: QueryParameter[];
+  onChange: (params: QueryParameter[]) => void;
+}
+
+/**
+ * Inputs for values of bind parameters found in query
+ */
+const ParameterPanel = ({ params, onChange }: ParameterPanelProps) => {
+  if (!params.length) return null;
+
+  const update = (index: number, changes: Partial<QueryParameter>) =>
+    onChange(
+      params.map((param, i) => (i === index ? { ...param, ...changes } : param))
+    );
+
+  return (
+    <Panel>
+      {params.map((param, index) => (
+        <React.Fragment key={`param_${param.name}`}>
+          <Typography>{param.name}</Typography>
+          <Select
+            value={param.type}
+            onChange={(evt) =>
+              update(index, { type: evt.target.value as ParameterType })
+            }
+          >
+            {(Object.keys(typeLabels) as ParameterType[]).map((type) => (
+              <StyledMenuItem value={type} key={`param_type_${type}`}>
+                {typeLabels[type]}
+              </StyledMenuItem>
+            ))}
+          </Select>
+          <ValueInput
+            param={param}
+            onChange={(value) => update(index, { value })}
+          />
+          <FormControlLabel
+            control={
+              // eslint-disable-next-line react/jsx-wrap-multilines
+              <Checkbox
+                checked={param.value === null}
+                onChange={() =>
+                  update(index, { value: param.value === null ? '' : null })
+                }
+                color="primary"
+              />
+            }
+            label="NULL"
+          />
+        </React.Fragment>
+      ))}
+    </Panel>
+  );
+};
+
+export default ParameterPanel;
@@ -1,20 +1,9 @@
-import React from 'react';
-import {
-  Table,
-  TableBody,
-  TableCell,
-  TableContainer,
-  TableHead,
-  TableRow,
-  TablePagination,
-} from '@material-ui/core';
+import React, { useState } from 'react';
+import { Button } from '@material-ui/core';
 import styled from 'styled-components';
-import { QueryData } from '../../../types';
-import { greyPrimary, DarkPaperFull } from '../../../style-variables';
-
-const StyledCell = styled(TableCell)`
-  border-bottom: 1px solid ${greyPrimary};
-`;
+import { QueryData, RemainingRows } from '../../../types';
+import { greyPrimary, greyDark, DarkPaperFull } from '../../../style-variables';
+import ExportResultsDialog from './ExportResultsDialog';
 
 interface Column {
   name: string;
@@ -35,72 +24,151 @@ const buildColumns = (row: Record<string, unknown>): Column[] =>
     align: isNumber(value) ? 'right' : 'left',
   }));
 
+// rows have fixed height so visible ones can be computed from scroll position
+const rowHeight = 36;
+// rows rendered above and below viewport so fast scrolling doesn't show gaps
+const overscan = 10;
+const columnWidth = 150;
+
+const Viewport = styled.div`
+  height: 60vh;
+  overflow: auto;
+`;
+
+const GridRow = styled.div<{ $columns: number }>`
+  display: grid;
+  grid-template-columns: repeat(
+    ${({ $columns }) => $columns},
+    minmax(${columnWidth}px, 1fr)
+  );
+  min-width: ${({ $columns }) => $columns * columnWidth}px;
+  height: ${rowHeight}px;
+`;
+
+const HeaderRow = styled(GridRow)`
+  position: sticky;
+  top: 0;
+  z-index: 1;
+  background: ${greyDark};
+`;
+
+const Cell = styled.div<{ $align: Column['align'] }>`
+  padding: 0 16px;
+  line-height: ${rowHeight}px;
+  text-align: ${({ $align }) => $align};
+  white-space: nowrap;
+  overflow: hidden;
+  text-overflow: ellipsis;
+  border-bottom: 1px solid ${greyPrimary};
+`;
+
+const Footer = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: flex-end;
+  gap: 16px;
+  padding: 8px 16px;
+`;
+
 interface QueryResultsProps {
   results: QueryData['returnedRows'];
+  /**
+   * Query has rows that weren't fetched yet
+   */
+  hasMore?: boolean;
+  onFetchMore?: () => void;
+  /**
+   * Rows left to fetch, which exports include
+   */
+  remaining?: RemainingRows;
 }
 
-const QueryResults = ({ results }: QueryResultsProps) => {
-  if (!results || !results.length) return null;
+/**
+ * Virtualized grid of rows returned by query. Only rows in view are rendered,
+ * so hundreds of thousands of rows scroll smoothly
+ */
+const QueryResults = ({
+  results,
+  hasMore,
+  onFetchMore,
+  remaining,
+}: QueryResultsProps) => {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [exportOpen, setExportOpen] = useState(false);
 
-  const [page, setPage] = React.useState(0);
-  const rowsPerPage = 10;
-
-  // reset page to 1 if page is further than it could reasonable be. e.g. if
-  // user edits a query that had many pages of results while being in the last
-  // page and new query has a single page
-  if (page * rowsPerPage > results.length) setPage(0);
+  if (!results || !results.length) return null;
 
   const columns = buildColumns(results[0]);
 
-  const handleChangePage = (event: unknown, newPage: number) => {
-    setPage(newPage);
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const last = Math.min(
+    results.length,
+    Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan
+  );
+
+  const handleScroll = (evt: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(evt.currentTarget.scrollTop);
+    setViewportHeight(evt.currentTarget.clientHeight);
   };
 
-  // if there are performance issues, look into https://material-ui.com/components/tables/#virtualized-table
   return (
     <DarkPaperFull>
-      <TableContainer>
-        <Table>
-          <TableHead>
-            <TableRow>
+      <Viewport
+        onScroll={handleScroll}
+        ref={(el) => {
+          if (el && el.clientHeight !== viewportHeight)
+            setViewportHeight(el.clientHeight);
+        }}
+      >
+        <HeaderRow $columns={columns.length}>
+          {columns.map((column) => (
+            <Cell $align={column.align} key={column.name}>
+              <strong>{column.name}</strong>
+            </Cell>
+          ))}
+        </HeaderRow>
+        {/* spacer as tall as all rows, so scrollbar reflects full result */}
+        <div
+          style={{ height: results.length * rowHeight, position: 'relative' }}
+        >
+          {results.slice(first, last).map((row, i) => (
+            <GridRow
+              $columns={columns.length}
+              // rows are identified by position, as they may not be unique
+              // eslint-disable-next-line react/no-array-index-key
+              key={first + i}
+              style={{
+                position: 'absolute',
+                top: (first + i) * rowHeight,
+                width: '100%',
+              }}
+            >
               {columns.map((column) => (
-                <TableCell key={column.name} align={column.align}>
-                  <strong>{column.name}</strong>
-                </TableCell>
-              ))}
-            </TableRow>
-          </TableHead>
-          <TableBody>
-            {results
-              .slice(page * rowsPerPage, page * rowsPerPage + rowsPerPage)
-              .map((row) => (
-                <TableRow
-                  hover
-                  role="checkbox"
-                  tabIndex={-1}
-                  key={Object.values(row).join()}
-                >
-                  {columns.map((column) => (
-                    <StyledCell
-                      align={column.align}
-                      key={`${column.name}_${row[column.name]}`}
-                    >
-                      {(row[column.name] as any)?.toString()}
-                    </StyledCell>
-                  ))}
-                </TableRow>
+                <Cell $align={column.align} key={column.name}>
+                  {(row[column.name] as any)?.toString()}
+                </Cell>
               ))}
-          </TableBody>
-        </Table>
-      </TableContainer>
-      <TablePagination
-        // if there is only one option the dropdown is not displayed
-        rowsPerPageOptions={[10]}
-        component="div"
-        count={results.length}
-        rowsPerPage={rowsPerPage}
-        page={page}
-        onChangePage={handleChangePage}
+            </GridRow>
+          ))}
+        </div>
+      </Viewport>
+      <Footer>
+        <span>{`${results.length.toLocaleString()} rows`}</span>
+        {hasMore && onFetchMore ? (
+          <Button variant="outlined" onClick={onFetchMore}>
+            Fetch More
+          </Button>
+        ) : null}
+        <Button variant="outlined" onClick={() => setExportOpen(true)}>
+          Export
+        </Button>
+      </Footer>
+      <ExportResultsDialog
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        results={results}
+        remaining={remaining}
       />
     </DarkPaperFull>
   );
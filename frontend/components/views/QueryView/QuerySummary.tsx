@@ -8,6 +8,7 @@ import {
 } from '@material-ui/core';
 import styled from 'styled-components';
 import { QueryData } from '../../../types';
+import { summarize } from '../../../lib/stats';
 
 const FlexChild = styled(TableContainer)`
   flex: 0 0 auto;
@@ -17,29 +18,53 @@ const StyledTableCell = styled(TableCell)`
   border: none;
 `;
 
+interface SummaryRowProps {
+  data: Record<string, string | number | undefined>;
+}
+
+const SummaryRow = ({ data }: SummaryRowProps) => (
+  <TableRow>
+    {Object.entries(data).map(([property, value]) => (
+      <StyledTableCell align="center" key={property}>
+        <strong>{`${property}: `}</strong>
+        {value}
+      </StyledTableCell>
+    ))}
+  </TableRow>
+);
+
+const formatMs = (value: number) => `${value.toFixed(3)} ms`;
+
 interface QuerySummaryProps {
   executionPlan: QueryData['executionPlan'];
+  timings: QueryData['timings'];
 }
 
-const QuerySummary = ({ executionPlan }: QuerySummaryProps) => {
+const QuerySummary = ({ executionPlan, timings }: QuerySummaryProps) => {
   const summaryData = {
     'Planning Time': executionPlan?.['Planning Time'],
     'Execution Time': executionPlan?.['Execution Time'],
   };
+  const stats = summarize(timings ?? []);
 
   if (!executionPlan) return null;
   return (
     <FlexChild>
       <Table size="small">
         <TableBody>
-          <TableRow>
-            {Object.entries(summaryData).map(([property, value]) => (
-              <StyledTableCell align="center" key={property}>
-                <strong>{`${property}: `}</strong>
-                {value}
-              </StyledTableCell>
-            ))}
-          </TableRow>
+          <SummaryRow data={summaryData} />
+          {stats ? (
+            <SummaryRow
+              data={{
+                Runs: stats.runs,
+                Min: formatMs(stats.min),
+                Median: formatMs(stats.median),
+                Mean: formatMs(stats.mean),
+                P95: formatMs(stats.p95),
+                'Std Dev': formatMs(stats.stddev),
+              }}
+            />
+          ) : null}
         </TableBody>
       </Table>
     </FlexChild>
@@ -2,12 +2,18 @@ import React, { useState } from 'react';
 import styled from 'styled-components';
 import { ReactFlowProvider } from 'react-flow-renderer';
 
-import { QueryData, ValidTabs } from '../../../types';
+import {
+  QueryData,
+  RemainingRows,
+  ValidTabs,
+  Thresholds,
+} from '../../../types';
 
 import TabSelector from './TabSelector';
+import StatementTabs from './StatementTabs';
 import QueryResults from './QueryResults';
 import PlanTree from './ExecutionPlan/PlanTree';
-import { sidebarWidth, defaultMargin} from '../../../style-variables'
+import { sidebarWidth, defaultMargin } from '../../../style-variables';
 
 const ToggleDisplay = styled.div<{ $isSelected: boolean }>`
   display: flex;
@@ -39,25 +45,73 @@ const ToggleDisplay = styled.div<{ $isSelected: boolean }>`
 interface QueryTabsProps {
   results: QueryData['returnedRows'];
   executionPlan: QueryData['executionPlan'];
+  statements: QueryData['statements'];
+  /**
+   * Results have rows that weren't fetched yet
+   */
+  hasMore: boolean;
+  onFetchMore: () => void;
+  /**
+   * Rows left to fetch, which exports include
+   */
+  remaining?: RemainingRows;
+  thresholds: Thresholds;
+  setThresholds: (thresholds: Thresholds) => void;
 }
 
-const QueryTabs = ({ results, executionPlan }: QueryTabsProps) => {
+const QueryTabs = ({
+  results,
+  executionPlan,
+  statements,
+  hasMore,
+  onFetchMore,
+  remaining,
+  thresholds,
+  setThresholds,
+}: QueryTabsProps) => {
   const [selectedTab, setSelectedTab] = useState<ValidTabs>('Results');
+  const [selectedStatement, setSelectedStatement] = useState(0);
 
-  if (!results && !executionPlan) return null;
+  // scripts show results of one statement at a time. Selection is kept in
+  // range when a shorter script is run
+  const statementIndex = Math.min(
+    selectedStatement,
+    (statements?.length ?? 1) - 1
+  );
+  const statement = statements?.[statementIndex];
+  const shownResults = statement ? statement.returnedRows : results;
+  const shownPlan = statement ? statement.executionPlan : executionPlan;
+
+  if (!results && !executionPlan && !statements) return null;
   return (
     <>
       <ReactFlowProvider>
+        {statements ? (
+          <StatementTabs
+            statements={statements}
+            selected={statementIndex}
+            select={setSelectedStatement}
+          />
+        ) : null}
         <TabSelector
           selectedTab={selectedTab}
           select={(tab: ValidTabs) => setSelectedTab(tab)}
         />
         <ToggleDisplay $isSelected={selectedTab === 'Results'}>
-          <QueryResults results={results} />
+          <QueryResults
+            results={shownResults}
+            hasMore={!statement && hasMore}
+            onFetchMore={onFetchMore}
+            remaining={statement ? undefined : remaining}
+          />
         </ToggleDisplay>
 
         <ToggleDisplay $isSelected={selectedTab === 'Execution Plan'}>
-          <PlanTree data={executionPlan} />
+          <PlanTree
+            data={shownPlan}
+            thresholds={thresholds}
+            setThresholds={setThresholds}
+          />
         </ToggleDisplay>
       </ReactFlowProvider>
     </>
@@ -1,16 +1,39 @@
 import { IpcRendererEvent, ipcRenderer } from 'electron';
 import React, { useEffect, useState } from 'react';
-import { Button, Box } from '@material-ui/core/';
+import {
+  Button,
+  Box,
+  TextField,
+  Tooltip,
+  Dialog,
+  DialogContent,
+  DialogContentText,
+  DialogActions,
+} from '@material-ui/core/';
 import styled from 'styled-components';
 import {
   QueryData,
   CreateNewQuery,
   AppState,
+  Thresholds,
+  BenchmarkOptions,
+  ExecutionMode,
+  ScriptOptions,
+  StatementData,
+  ExplainJson,
+  QueryParameter,
+  TransactionStatus,
   isDbLists,
 } from '../../../types';
-import { defaultMargin } from '../../../style-variables';
-import { getPrettyTime } from '../../../lib/queries';
+import { defaultMargin, StyledDialogTitle } from '../../../style-variables';
+import { getPrettyTime, getParameters, key } from '../../../lib/queries';
 import { once, sendFeedback } from '../../../lib/utils';
+import {
+  modifiesData,
+  splitStatements,
+  bindParameters,
+  canStream,
+} from '../../../lib/sqlStatements';
 
 import QueryLabel from './QueryLabel';
 import QueryDb from './QueryDb';
@@ -18,10 +41,33 @@ import QueryTopSummary from './QueryTopSummary';
 import QuerySqlInput from './QuerySqlInput';
 import QuerySummary from './QuerySummary';
 import QueryTabs from './QueryTabs';
+import BenchmarkControls from './BenchmarkControls';
+import ExecutionModeSelect from './ExecutionModeSelect';
+import ScriptControls, { defaultScriptOptions } from './ScriptControls';
+import ParameterPanel from './ParameterPanel';
+import TransactionControls from './TransactionControls';
 
 // emitting with no payload requests backend to send back a db-lists event with list of dbs
 const requestDbListOnce = once(() => ipcRenderer.send('return-db-list'));
 
+// plan of EXPLAIN (FORMAT JSON) results sent by backend
+const toPlan = (
+  explainResults?: Record<string, any>[]
+): ExplainJson | undefined => explainResults?.[0]['QUERY PLAN'][0];
+
+// Collects rows backend streams as query-rows events, until stop is called
+const collectRows = () => {
+  const rows: Record<string, unknown>[] = [];
+  const receive = (evt: IpcRendererEvent, chunk: Record<string, unknown>[]) => {
+    rows.push(...chunk);
+  };
+  ipcRenderer.on('query-rows', receive);
+  return {
+    rows,
+    stop: () => ipcRenderer.removeListener('query-rows', receive),
+  };
+};
+
 const TopRow = styled(Box)`
   display: flex;
   align-items: flex-end;
@@ -31,10 +77,21 @@ const TopRow = styled(Box)`
 const CenterButton = styled(Box)`
   display: flex;
   justify-content: center;
+  align-items: center;
 `;
 
 const RunButton = styled(Button)`
-  margin: ${defaultMargin} auto;
+  margin: ${defaultMargin};
+`;
+
+const RowLimitField = styled(TextField)`
+  width: 110px;
+  margin-left: ${defaultMargin};
+`;
+
+const TimeoutField = styled(TextField)`
+  width: 110px;
+  margin-left: ${defaultMargin};
 `;
 
 const QueryViewContainer = styled.div`
@@ -50,6 +107,8 @@ interface QueryViewProps {
   selectedDb: AppState['selectedDb'];
   setSelectedDb: AppState['setSelectedDb'];
   setQuery: AppState['setWorkingQuery'];
+  thresholds: Thresholds;
+  setThresholds: (thresholds: Thresholds) => void;
   show: boolean;
 }
 
@@ -59,9 +118,28 @@ const QueryView = ({
   selectedDb,
   setSelectedDb,
   setQuery,
+  thresholds,
+  setThresholds,
   show,
 }: QueryViewProps) => {
   const [databases, setDatabases] = useState<string[]>([]);
+  const [benchmark, setBenchmark] = useState<BenchmarkOptions>();
+  // statement timeout in seconds. 0 means no timeout
+  const [statementTimeout, setStatementTimeout] = useState(0);
+  const [isRunning, setRunning] = useState(false);
+  const [mode, setMode] = useState<ExecutionMode>('auto');
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [scriptOptions, setScriptOptions] = useState<ScriptOptions>(
+    defaultScriptOptions
+  );
+  // rows fetched per run or fetch more of queries that return rows
+  const [rowLimit, setRowLimit] = useState(10000);
+  // key of query whose result has rows left to fetch
+  const [moreRowsKey, setMoreRowsKey] = useState<string>();
+  const [transaction, setTransaction] = useState<TransactionStatus>({
+    open: false,
+    savepoints: [],
+  });
 
   const defaultQuery: QueryData = {
     label: '',
@@ -70,6 +148,12 @@ const QueryView = ({
   };
 
   const localQuery = { ...defaultQuery, ...query };
+  const statements = splitStatements(localQuery.sqlString);
+  const isScript = statements.length > 1;
+  // benchmark times plans, which explain only and run only modes don't make
+  const benchmarks =
+    !isScript && (mode === 'auto' || mode === 'analyze-rollback');
+  const params = getParameters(localQuery);
 
   // Register event listener that receives database list for db selector
   useEffect(() => {
@@ -83,9 +167,23 @@ const QueryView = ({
 
     return () => {
       ipcRenderer.removeListener('db-lists', receiveDbs);
-    }
+    };
   });
 
+  // transaction outlives view, so get its state when view is created
+  useEffect(() => {
+    ipcRenderer.invoke('get-transaction').then(setTransaction);
+  }, []);
+
+  // rows left in cursor can't be fetched once it's closed
+  useEffect(() => {
+    const cursorClosed = () => setMoreRowsKey(undefined);
+    ipcRenderer.on('cursor-closed', cursorClosed);
+    return () => {
+      ipcRenderer.removeListener('cursor-closed', cursorClosed);
+    };
+  }, []);
+
   const onLabelChange = (newLabel: string) => {
     setQuery({ ...localQuery, label: newLabel });
   };
@@ -96,7 +194,9 @@ const QueryView = ({
     // will show wrong informatio
     ipcRenderer
       .invoke('select-db', newDb)
-      .then(() => {
+      .then((selected: boolean) => {
+        // refused while a transaction is open
+        if (!selected) return;
         setQuery({ ...localQuery, db: newDb });
         setSelectedDb(newDb);
       })
@@ -113,7 +213,12 @@ const QueryView = ({
     setQuery({ ...localQuery, sqlString: newSql });
   };
 
-  const onRun = () => {
+  const onParamsChange = (newParams: QueryParameter[]) => {
+    setQuery({ ...localQuery, params: newParams });
+  };
+
+  const runQuery = () => {
+    setConfirmOpen(false);
     if (!localQuery.label.trim()) {
       sendFeedback({
         type: 'info',
@@ -122,34 +227,134 @@ const QueryView = ({
     }
 
     // request backend to run query
+    setRunning(true);
+    const streamed = collectRows();
     ipcRenderer
       .invoke('run-query', {
         targetDb: localQuery.db,
-        sqlString: localQuery.sqlString,
+        // Postgres only understands $1 style placeholders
+        sqlString: bindParameters(localQuery.sqlString),
+        sourceSql: localQuery.sqlString,
+        params,
+        statements,
+        scriptOptions,
         selectedDb,
+        mode,
+        benchmark: benchmarks ? benchmark : undefined,
+        timeout: statementTimeout * 1000,
+        rowLimit: canStream(localQuery.sqlString) ? rowLimit : undefined,
       })
-      .then(({ db, sqlString, returnedRows, explainResults, error }) => {
-        if (error) {
-          throw error
-        }
-
-        const transformedData = {
-          sqlString,
-          returnedRows,
-          executionPlan: explainResults[0]['QUERY PLAN'][0],
-          label: localQuery.label,
+      .then(
+        ({
           db,
-        };
-        createNewQuery(transformedData);
-      })
+          returnedRows,
+          hasMoreRows,
+          explainResults,
+          timings,
+          statements: results,
+          error,
+        }) => {
+          if (error) {
+            throw error;
+          }
+
+          const statementData: StatementData[] | undefined = results?.map(
+            (result) => ({
+              sqlString: result.sqlString,
+              returnedRows: result.returnedRows,
+              executionPlan: toPlan(result.explainResults),
+              error: result.error,
+            })
+          );
+          const transformedData = {
+            sqlString: localQuery.sqlString,
+            params: params.length ? params : undefined,
+            // hasMoreRows is only set when rows were streamed
+            returnedRows:
+              hasMoreRows === undefined ? returnedRows : streamed.rows,
+            executionPlan: toPlan(explainResults),
+            timings,
+            statements: statementData,
+            label: localQuery.label,
+            db,
+          };
+          createNewQuery(transformedData);
+          setMoreRowsKey(hasMoreRows ? key(transformedData) : undefined);
+
+          // errors of scripts are shown on each statement's tab. Point to first
+          const errors = (statementData ?? []).flatMap((statement, index) =>
+            statement.error
+              ? [`Statement ${index + 1}: ${statement.error}`]
+              : []
+          );
+          if (errors.length)
+            sendFeedback({ type: 'error', message: errors[0] });
+        }
+      )
       .catch((err) => {
         sendFeedback({
           type: 'error',
           message: err ?? 'Failed to Run Query',
         });
+      })
+      .finally(() => {
+        streamed.stop();
+        setRunning(false);
+      });
+  };
+
+  const onFetchMore = () => {
+    if (!query) return;
+    setRunning(true);
+    const streamed = collectRows();
+    ipcRenderer
+      .invoke('fetch-rows', {
+        limit: rowLimit,
+        timeout: statementTimeout * 1000,
+      })
+      .then((hasMore: boolean) => {
+        createNewQuery({
+          ...query,
+          returnedRows: (query.returnedRows ?? []).concat(streamed.rows),
+        });
+        if (!hasMore) setMoreRowsKey(undefined);
+      })
+      .catch(() => {
+        setMoreRowsKey(undefined);
+        sendFeedback({ type: 'error', message: 'Failed to fetch more rows' });
+      })
+      .finally(() => {
+        streamed.stop();
+        setRunning(false);
       });
   };
 
+  // modes that execute query for real ask before changing data
+  const onRun = () => {
+    if (isScript && params.length) {
+      sendFeedback({
+        type: 'error',
+        message: 'Bind parameters are only supported in single statements',
+      });
+      return;
+    }
+    if (
+      (mode === 'auto' || mode === 'run') &&
+      modifiesData(localQuery.sqlString)
+    )
+      setConfirmOpen(true);
+    else runQuery();
+  };
+
+  const onCancel = () => {
+    ipcRenderer.invoke('cancel-query').catch(() =>
+      sendFeedback({
+        type: 'error',
+        message: 'Failed to cancel query',
+      })
+    );
+  };
+
   if (!show) return null;
   return (
     <QueryViewContainer>
@@ -164,22 +369,97 @@ const QueryView = ({
           rows={query?.returnedRows?.length}
           totalTime={getPrettyTime(query)}
         />
+        <TransactionControls status={transaction} onChange={setTransaction} />
       </TopRow>
       <QuerySqlInput
         sql={localQuery?.sqlString ?? ''}
         onChange={onSqlChange}
         runQuery={onRun}
       />
+      <ParameterPanel params={params} onChange={onParamsChange} />
       <CenterButton>
-        <RunButton variant="contained" onClick={onRun}>
-          Run Query
-        </RunButton>
+        {isRunning ? (
+          <RunButton variant="contained" color="secondary" onClick={onCancel}>
+            Cancel Query
+          </RunButton>
+        ) : (
+          <RunButton variant="contained" onClick={onRun}>
+            {benchmark && benchmarks ? 'Benchmark Query' : 'Run Query'}
+          </RunButton>
+        )}
+        <Tooltip title="Stop query after this many seconds. 0 disables timeout">
+          <TimeoutField
+            label="Timeout (s)"
+            type="number"
+            size="small"
+            value={statementTimeout}
+            onChange={(evt) =>
+              setStatementTimeout(Math.max(0, Number(evt.target.value) || 0))
+            }
+          />
+        </Tooltip>
+        <Tooltip title="Most rows fetched at once from queries that return rows. Fetch more to get the rest">
+          <RowLimitField
+            label="Row limit"
+            type="number"
+            size="small"
+            value={rowLimit}
+            onChange={(evt) =>
+              setRowLimit(
+                Math.max(1, Math.floor(Number(evt.target.value)) || 1)
+              )
+            }
+          />
+        </Tooltip>
+        <ExecutionModeSelect mode={mode} onChange={setMode} />
+        {isScript ? (
+          <ScriptControls options={scriptOptions} onChange={setScriptOptions} />
+        ) : (
+          <BenchmarkControls
+            options={benchmark}
+            onChange={setBenchmark}
+            disabled={!benchmarks}
+          />
+        )}
       </CenterButton>
-      <QuerySummary executionPlan={query?.executionPlan} />
+      <QuerySummary
+        executionPlan={query?.executionPlan}
+        timings={query?.timings}
+      />
       <QueryTabs
         results={query?.returnedRows}
         executionPlan={query?.executionPlan}
+        statements={query?.statements}
+        hasMore={!!query && moreRowsKey === key(query)}
+        onFetchMore={onFetchMore}
+        remaining={
+          query && moreRowsKey === key(query)
+            ? {
+                timeout: statementTimeout * 1000,
+                onFetched: () => setMoreRowsKey(undefined),
+              }
+            : undefined
+        }
+        thresholds={thresholds}
+        setThresholds={setThresholds}
       />
+      <Dialog open={confirmOpen} onClose={() => setConfirmOpen(false)}>
+        <StyledDialogTitle>{`Modify data in ${localQuery.db}?`}</StyledDialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            This query may insert, update or delete data, or change the schema.
+            {transaction.open
+              ? ' Its changes stay in the open transaction until it is committed.'
+              : ' Its changes will be committed.'}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirmOpen(false)}>Cancel</Button>
+          <Button variant="contained" color="primary" onClick={runQuery}>
+            Run Query
+          </Button>
+        </DialogActions>
+      </Dialog>
     </QueryViewContainer>
   );
 };
@@ -0,0 +1,61 @@
+import React from 'react';
+import { FormControlLabel, Switch, Tooltip } from '@material-ui/core';
+import styled from 'styled-components';
+import { ScriptOptions } from '../../../types';
+import { defaultMargin } from '../../../style-variables';
+
+const Container = styled.div`
+  display: flex;
+  align-items: center;
+  gap: ${defaultMargin};
+`;
+
+interface ScriptControlsProps {
+  options: ScriptOptions;
+  onChange: (options: ScriptOptions) => void;
+}
+
+export const defaultScriptOptions: ScriptOptions = {
+  stopOnError: true,
+  transaction: false,
+};
+
+/**
+ * Options for running sql made of multiple statements
+ */
+const ScriptControls = ({ options, onChange }: ScriptControlsProps) => (
+  <Container>
+    <Tooltip title="Skip remaining statements after one fails">
+      <FormControlLabel
+        control={
+          // eslint-disable-next-line react/jsx-wrap-multilines
+          <Switch
+            checked={options.stopOnError}
+            onChange={() =>
+              onChange({ ...options, stopOnError: !options.stopOnError })
+            }
+            color="primary"
+          />
+        }
+        label="Stop on error"
+      />
+    </Tooltip>
+    <Tooltip title="Run every statement in one transaction. With stop on error, a failure rolls back the whole script">
+      <FormControlLabel
+        control={
+          // eslint-disable-next-line react/jsx-wrap-multilines
+          <Switch
+            checked={options.transaction}
+            onChange={() =>
+              onChange({ ...options, transaction: !options.transaction })
+            }
+            color="primary"
+          />
+        }
+        label="Single transaction"
+      />
+    </Tooltip>
+  </Container>
+);
+
+export default ScriptControls;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Tabs, Tab, Tooltip, Typography } from '@material-ui/core';
+import ErrorOutlineIcon from '@material-ui/icons/ErrorOutline';
+import styled from 'styled-components';
+import { StatementData } from '../../../types';
+import { greyPrimary, diffColors } from '../../../style-variables';
+import { sqlPreview } from '../../../lib/history';
+
+const StyledTabs = styled(Tabs)`
+  background-color: ${greyPrimary};
+  color: white;
+  border-radius: 5px;
+`;
+
+const StatementTab = styled(Tab)`
+  min-width: 0;
+`;
+
+const ErrorText = styled(Typography)`
+  color: ${diffColors.removed};
+  margin-top: 10px;
+`;
+
+interface StatementTabsProps {
+  statements: StatementData[];
+  selected: number;
+  select: (index: number) => void;
+}
+
+/**
+ * Selects which statement of a script results and plan are shown for
+ */
+const StatementTabs = ({
+  statements,
+  selected,
+  select,
+}: StatementTabsProps) => (
+  <>
+    <StyledTabs
+      value={selected}
+      onChange={(_, index: number) => select(index)}
+      indicatorColor="primary"
+      variant="scrollable"
+      scrollButtons="auto"
+    >
+      {statements.map(({ sqlString, error }, index) => (
+        <StatementTab
+          // statements are identified only by their position in script
+          // eslint-disable-next-line react/no-array-index-key
+          key={`statement_${index}`}
+          label={
+            // eslint-disable-next-line react/jsx-wrap-multilines
+            <Tooltip title={sqlPreview(sqlString)}>
+              <span>{`Statement ${index + 1}`}</span>
+            </Tooltip>
+          }
+          icon={error ? <ErrorOutlineIcon fontSize="small" /> : undefined}
+        />
+      ))}
+    </StyledTabs>
+    {statements[selected]?.error ? (
+      <ErrorText>{statements[selected].error}</ErrorText>
+    ) : null}
+  </>
+);
+
+export default StatementTabs;
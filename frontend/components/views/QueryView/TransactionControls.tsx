@@ -0,0 +1,123 @@
+import { ipcRenderer } from 'electron';
+import React, { useState } from 'react';
+import { Button, Chip, Menu, MenuItem, Tooltip } from '@material-ui/core';
+import styled from 'styled-components';
+import { TransactionStatus } from '../../../types';
+import { defaultMargin } from '../../../style-variables';
+import { sendFeedback } from '../../../lib/utils';
+
+const Container = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 10px;
+  margin-left: ${defaultMargin};
+`;
+
+const StyledMenuItem = styled(MenuItem)`
+  color: #575151;
+`;
+
+interface TransactionControlsProps {
+  status: TransactionStatus;
+  onChange: (status: TransactionStatus) => void;
+}
+
+/**
+ * Begins, commits and rolls back the session transaction queries run in, and
+ * manages its savepoints
+ */
+const TransactionControls = ({
+  status,
+  onChange,
+}: TransactionControlsProps) => {
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+
+  const invoke = (channel: string, failure: string, ...args: unknown[]) => {
+    setMenuAnchor(null);
+    ipcRenderer
+      .invoke(channel, ...args)
+      .then(onChange)
+      .catch(() => {
+        sendFeedback({ type: 'error', message: failure });
+        // transaction may have ended even though request failed
+        ipcRenderer.invoke('get-transaction').then(onChange);
+      });
+  };
+
+  if (!status.open)
+    return (
+      <Container>
+        <Tooltip title="Run queries in a transaction until it is committed or rolled back">
+          <Button
+            variant="outlined"
+            onClick={() =>
+              invoke('begin-transaction', 'Failed to begin transaction')
+            }
+          >
+            Begin
+          </Button>
+        </Tooltip>
+      </Container>
+    );
+
+  return (
+    <Container>
+      <Chip color="secondary" label={`In transaction on ${status.db}`} />
+      <Button
+        variant="contained"
+        color="primary"
+        onClick={() =>
+          invoke('commit-transaction', 'Failed to commit transaction')
+        }
+      >
+        Commit
+      </Button>
+      <Button
+        variant="contained"
+        onClick={() =>
+          invoke('rollback-transaction', 'Failed to roll back transaction')
+        }
+      >
+        Rollback
+      </Button>
+      <Button
+        variant="outlined"
+        onClick={() => invoke('create-savepoint', 'Failed to create savepoint')}
+      >
+        Savepoint
+      </Button>
+      {status.savepoints.length ? (
+        <>
+          <Button
+            variant="outlined"
+            onClick={(evt) => setMenuAnchor(evt.currentTarget)}
+          >
+            Roll Back To
+          </Button>
+          <Menu
+            anchorEl={menuAnchor}
+            open={!!menuAnchor}
+            onClose={() => setMenuAnchor(null)}
+          >
+            {status.savepoints.map((savepoint) => (
+              <StyledMenuItem
+                key={`savepoint_${savepoint}`}
+                onClick={() =>
+                  invoke(
+                    'rollback-transaction',
+                    `Failed to roll back to ${savepoint}`,
+                    savepoint
+                  )
+                }
+              >
+                {savepoint}
+              </StyledMenuItem>
+            ))}
+          </Menu>
+        </>
+      ) : null}
+    </Container>
+  );
+};
+
+export default TransactionControls;
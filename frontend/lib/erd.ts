@@ -0,0 +1,291 @@
+import dagre from 'dagre';
+import { Elements } from 'react-flow-renderer';
+import { TableInfo } from '../types';
+import {
+  erdNodeWidth,
+  erdHeaderHeight,
+  erdRowHeight,
+} from '../style-variables';
+
+export interface ErdColumn {
+  name: string;
+  type: string;
+  isPrimary: boolean;
+  /**
+   * Id of referenced table node and referenced column if column is a foreign key
+   */
+  references?: { table: string; column: string };
+}
+
+export interface ErdTable {
+  /**
+   * Unique id of node. Schema and table name joined by a dot
+   */
+  id: string;
+  table: TableInfo;
+  columns: ErdColumn[];
+  width: number;
+  height: number;
+  /**
+   * Coordinates of top left corner of node
+   */
+  x: number;
+  y: number;
+}
+
+export interface ErdRelation {
+  id: string;
+  from: { table: string; column: string };
+  to: { table: string; column: string };
+}
+
+export interface ErdLayout {
+  tables: ErdTable[];
+  relations: ErdRelation[];
+  width: number;
+  height: number;
+}
+
+export type ErdElements = Elements<{ table: ErdTable }>;
+
+const nodeId = (schema: string, table: string) => `${schema}.${table}`;
+
+// handle ids for react-flow. Each column row can be both source and target of
+// an edge
+export const sourceHandle = (column: string) => `${column}_source`;
+export const targetHandle = (column: string) => `${column}_target`;
+
+/**
+ * Collapse column rows of a table into one entry per column. information_schema
+ * returns one row per constraint a column is part of
+ */
+const getColumns = (table: TableInfo) =>
+  table.columns.reduce<ErdColumn[]>((acc, column) => {
+    let erdColumn = acc.find(({ name }) => name === column.column_name);
+    if (!erdColumn) {
+      erdColumn = {
+        name: column.column_name,
+        type: column.data_type,
+        isPrimary: false,
+      };
+      acc.push(erdColumn);
+    }
+    if (column.constraint_type === 'PRIMARY KEY') erdColumn.isPrimary = true;
+    if (
+      column.constraint_type === 'FOREIGN KEY' &&
+      column.foreign_schema &&
+      column.foreign_table &&
+      column.foreign_column
+    ) {
+      erdColumn.references = {
+        table: nodeId(column.foreign_schema, column.foreign_table),
+        column: column.foreign_column,
+      };
+    }
+    return acc;
+  }, []);
+
+/**
+ * Lays out every table as a node, left to right, following foreign key
+ * relations. Relations to tables that are not in the list are dropped
+ */
+export const createErdLayout = (tables: TableInfo[]): ErdLayout => {
+  const g = new dagre.graphlib.Graph();
+  g.setGraph({
+    rankdir: 'LR',
+    ranksep: 120,
+    nodesep: 40,
+    marginx: 20,
+    marginy: 20,
+  });
+  g.setDefaultEdgeLabel(() => ({}));
+
+  const erdTables = tables.map((table) => {
+    const columns = getColumns(table);
+    return {
+      id: nodeId(table.table_schema, table.table_name),
+      table,
+      columns,
+      width: parseInt(erdNodeWidth, 10),
+      height:
+        parseInt(erdHeaderHeight, 10) +
+        columns.length * parseInt(erdRowHeight, 10),
+    };
+  });
+  erdTables.forEach((table) => g.setNode(table.id, { ...table }));
+
+  const relations: ErdRelation[] = [];
+  erdTables.forEach((table) => {
+    table.columns.forEach(({ name, references }) => {
+      if (!references || !g.hasNode(references.table)) return;
+      relations.push({
+        id: `${table.id}.${name}-${references.table}.${references.column}`,
+        from: { table: table.id, column: name },
+        to: references,
+      });
+      // referenced tables are placed left of the tables referencing them
+      if (references.table !== table.id) g.setEdge(references.table, table.id);
+    });
+  });
+
+  dagre.layout(g);
+
+  return {
+    // dagre positions nodes by their center
+    tables: erdTables.map((table) => {
+      const { x, y } = g.node(table.id);
+      return {
+        ...table,
+        x: x - table.width / 2,
+        y: y - table.height / 2,
+      };
+    }),
+    relations,
+    // asserting number types since we ran dagre.layout(g) so these are guaranteed not to be undefined
+    width: g.graph().width as number,
+    height: g.graph().height as number,
+  };
+};
+
+/**
+ * Convert ERD layout to react-flow elements
+ */
+export const erdToFlow = (
+  layout: ErdLayout,
+  nodeType: string,
+  edgeType: string
+): ErdElements => {
+  const nodes: ErdElements = layout.tables.map((table) => ({
+    id: table.id,
+    data: { table },
+    position: { x: table.x, y: table.y },
+    type: nodeType,
+  }));
+
+  const edges: ErdElements = layout.relations.map(({ id, from, to }) => ({
+    id,
+    source: from.table,
+    sourceHandle: sourceHandle(from.column),
+    target: to.table,
+    targetHandle: targetHandle(to.column),
+    type: edgeType,
+  }));
+
+  return nodes.concat(edges);
+};
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// short marker of key columns
+export const keyLabel = ({ isPrimary, references }: ErdColumn) => {
+  if (isPrimary) return 'PK ';
+  if (references) return 'FK ';
+  return '';
+};
+
+interface SvgColors {
+  background: string;
+  node: string;
+  header: string;
+  text: string;
+  muted: string;
+  edge: string;
+}
+
+/**
+ * Builds a standalone SVG document of the diagram. Relations are drawn from
+ * the right side of the foreign key column to the left side of the referenced
+ * column
+ */
+export const erdToSvg = (layout: ErdLayout, colors: SvgColors): string => {
+  const header = parseInt(erdHeaderHeight, 10);
+  const row = parseInt(erdRowHeight, 10);
+  const tablesById = new Map(layout.tables.map((table) => [table.id, table]));
+
+  // vertical center of column row in table
+  const rowY = (table: ErdTable, column: string) =>
+    table.y +
+    header +
+    Math.max(
+      table.columns.findIndex(({ name }) => name === column),
+      0
+    ) *
+      row +
+    row / 2;
+
+  const edges = layout.relations.map(({ from, to }) => {
+    const source = tablesById.get(from.table) as ErdTable;
+    const target = tablesById.get(to.table) as ErdTable;
+    const x1 = source.x + source.width;
+    const y1 = rowY(source, from.column);
+    const x2 = target.x;
+    const y2 = rowY(target, to.column);
+    const bend = Math.max(Math.abs(x2 - x1) / 2, 40);
+    return `<path d="M ${x1} ${y1} C ${x1 + bend} ${y1}, ${
+      x2 - bend
+    } ${y2}, ${x2} ${y2}" fill="none" stroke="${
+      colors.edge
+    }" stroke-width="1.5"/>`;
+  });
+
+  const nodes = layout.tables.map((table) => {
+    const rows = table.columns.map(
+      (column, index) =>
+        `<text x="${table.x + 8}" y="${
+          table.y + header + index * row + row * 0.7
+        }" fill="${colors.text}">${keyLabel(column)}${escapeXml(
+          column.name
+        )}</text>` +
+        `<text x="${table.x + table.width - 8}" y="${
+          table.y + header + index * row + row * 0.7
+        }" fill="${colors.muted}" text-anchor="end">${escapeXml(
+          column.type
+        )}</text>`
+    );
+    return [
+      `<rect x="${table.x}" y="${table.y}" width="${table.width}" height="${table.height}" rx="4" fill="${colors.node}"/>`,
+      `<rect x="${table.x}" y="${table.y}" width="${table.width}" height="${header}" rx="4" fill="${colors.header}"/>`,
+      `<text x="${table.x + 8}" y="${table.y + header * 0.65}" fill="${
+        colors.text
+      }" font-weight="bold">${escapeXml(table.id)}</text>`,
+      ...rows,
+    ].join('');
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}" font-family="sans-serif" font-size="12">`,
+    `<rect width="100%" height="100%" fill="${colors.background}"/>`,
+    ...edges,
+    ...nodes,
+    '</svg>',
+  ].join('\n');
+};
+
+/**
+ * Rasterizes SVG document into a PNG. Returns base64 encoded image data
+ */
+export const svgToPng = (svg: string, width: number, height: number) =>
+  new Promise<string>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      context.drawImage(image, 0, 0);
+      resolve(
+        canvas.toDataURL('image/png').replace(/^data:image\/png;base64,/, '')
+      );
+    };
+    image.onerror = () => reject(new Error('Failed to render diagram'));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
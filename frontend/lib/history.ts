@@ -0,0 +1,39 @@
+/**
+ * Functions that filter and describe query history entries shown in the
+ * sidebar history panel
+ */
+
+import { HistoryEntry } from '../types';
+
+/**
+ * Returns entries run on db (all databases if db is empty) whose SQL or error
+ * contains text, ignoring case
+ */
+export const filterHistory = (
+  entries: HistoryEntry[],
+  db: string,
+  text: string
+) => {
+  const search = text.trim().toLowerCase();
+  return entries.filter(
+    (entry) =>
+      (!db || entry.db === db) &&
+      (!search ||
+        entry.sqlString.toLowerCase().includes(search) ||
+        !!entry.error?.toLowerCase().includes(search))
+  );
+};
+
+/**
+ * Returns sorted list of databases that appear in history
+ */
+export const historyDbs = (entries: HistoryEntry[]) =>
+  [...new Set(entries.map(({ db }) => db))].sort();
+
+/**
+ * Short single line summary of SQL for list display
+ */
+export const sqlPreview = (sqlString: string, maxLength = 60) => {
+  const line = sqlString.replace(/\s+/g, ' ').trim();
+  return line.length > maxLength ? `${line.slice(0, maxLength - 1)}…` : line;
+};
@@ -0,0 +1,411 @@
+import type {
+  SchemaDiff,
+  TableDiff,
+  ObjectDiff,
+  CatalogColumn,
+  CatalogConstraint,
+  CatalogTable,
+  CatalogView,
+} from '../types';
+
+const quoteIdent = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const isModified = ({ status }: ObjectDiff<unknown>) => status !== 'unchanged';
+
+// objects that exist in left database and must be dropped or replaced
+const toDrop = <T>(diffs: ObjectDiff<T>[]) =>
+  diffs
+    .filter(({ status }) => status === 'removed' || status === 'changed')
+    .map(({ left }) => left as T);
+
+// objects that exist in right database and must be created or replaced
+const toCreate = <T>(diffs: ObjectDiff<T>[]) =>
+  diffs
+    .filter(({ status }) => status === 'added' || status === 'changed')
+    .map(({ right }) => right as T);
+
+/**
+ * Sorts items so every item comes after the items it depends on. Dependencies
+ * that aren't in the list are ignored. Items in a dependency cycle keep their
+ * original order
+ */
+export const sortByDependencies = <T>(
+  items: T[],
+  getName: (item: T) => string,
+  getDependencies: (item: T) => string[]
+): T[] => {
+  const byName = new Map(items.map((item) => [getName(item), item]));
+  const sorted: T[] = [];
+  const visited = new Set<string>();
+
+  const visit = (item: T, path: Set<string>) => {
+    const name = getName(item);
+    if (visited.has(name) || path.has(name)) return;
+    path.add(name);
+    getDependencies(item).forEach((dependency) => {
+      const other = byName.get(dependency);
+      if (other) visit(other, path);
+    });
+    path.delete(name);
+    visited.add(name);
+    sorted.push(item);
+  };
+
+  items.forEach((item) => visit(item, new Set()));
+  return sorted;
+};
+
+// sequence used by serial column default. ex: nextval('users_id_seq'::regclass)
+const serialSequence = (column: CatalogColumn) =>
+  column.default?.match(/^nextval\('(.+)'::regclass\)$/)?.[1];
+
+const identityClause = (identity: string) =>
+  identity === 'a' ? 'ALWAYS' : 'BY DEFAULT';
+
+const columnDefinition = (column: CatalogColumn) => {
+  let definition = `${quoteIdent(column.name)} ${column.type}`;
+  if (column.identity)
+    definition += ` GENERATED ${identityClause(column.identity)} AS IDENTITY`;
+  if (column.default) definition += ` DEFAULT ${column.default}`;
+  if (!column.nullable) definition += ' NOT NULL';
+  return definition;
+};
+
+// sequences backing serial columns must exist before column default can use them
+const createSequences = (columns: CatalogColumn[]) =>
+  columns
+    .map(serialSequence)
+    .filter((sequence): sequence is string => !!sequence)
+    .map((sequence) => `CREATE SEQUENCE IF NOT EXISTS ${sequence};`);
+
+const ownSequences = (table: string, columns: CatalogColumn[]) =>
+  columns
+    .filter((column) => serialSequence(column))
+    .map(
+      (column) =>
+        `ALTER SEQUENCE ${serialSequence(
+          column
+        )} OWNED BY ${table}.${quoteIdent(column.name)};`
+    );
+
+const alterTable = (table: string, action: string) =>
+  `ALTER TABLE ${table} ${action};`;
+
+const dropConstraint = (table: string, { name }: CatalogConstraint) =>
+  alterTable(table, `DROP CONSTRAINT ${quoteIdent(name)}`);
+
+const addConstraint = (
+  table: string,
+  { name, definition }: CatalogConstraint
+) => alterTable(table, `ADD CONSTRAINT ${quoteIdent(name)} ${definition}`);
+
+/**
+ * Statements that turn column of left database into column of right database
+ */
+const alterColumn = (
+  table: string,
+  { left, right }: ObjectDiff<CatalogColumn>
+) => {
+  const from = left as CatalogColumn;
+  const to = right as CatalogColumn;
+  const column = `ALTER COLUMN ${quoteIdent(to.name)}`;
+  const statements: string[] = [];
+  if (from.default !== to.default && from.default)
+    statements.push(alterTable(table, `${column} DROP DEFAULT`));
+  if (from.identity && from.identity !== to.identity && !to.identity)
+    statements.push(alterTable(table, `${column} DROP IDENTITY`));
+  if (from.type !== to.type)
+    statements.push(
+      alterTable(
+        table,
+        `${column} TYPE ${to.type} USING ${quoteIdent(to.name)}::${to.type}`
+      )
+    );
+  if (from.nullable !== to.nullable)
+    statements.push(
+      alterTable(table, `${column} ${to.nullable ? 'DROP' : 'SET'} NOT NULL`)
+    );
+  if (to.identity && !from.identity)
+    statements.push(
+      alterTable(
+        table,
+        `${column} ADD GENERATED ${identityClause(to.identity)} AS IDENTITY`
+      )
+    );
+  if (to.identity && from.identity && from.identity !== to.identity)
+    statements.push(
+      alterTable(
+        table,
+        `${column} SET GENERATED ${identityClause(to.identity)}`
+      )
+    );
+  if (from.default !== to.default && to.default)
+    statements.push(
+      ...createSequences([to]),
+      alterTable(table, `${column} SET DEFAULT ${to.default}`)
+    );
+  return statements;
+};
+
+const createTable = (table: CatalogTable) => [
+  ...createSequences(table.columns),
+  `CREATE TABLE ${table.qualified_name} (\n${table.columns
+    .map((column) => `  ${columnDefinition(column)}`)
+    .join(',\n')}\n);`,
+  ...ownSequences(table.qualified_name, table.columns),
+];
+
+/**
+ * Columns added, changed and removed in a table that exists in both databases
+ */
+const alterColumns = ({ name, columns }: TableDiff) => {
+  const added = toCreate(columns.filter(({ status }) => status === 'added'));
+  return [
+    ...createSequences(added),
+    ...added.map((column) =>
+      alterTable(name, `ADD COLUMN ${columnDefinition(column)}`)
+    ),
+    ...ownSequences(name, added),
+    ...columns
+      .filter(({ status }) => status === 'changed')
+      .flatMap((column) => alterColumn(name, column)),
+    ...columns
+      .filter(({ status }) => status === 'removed')
+      .map((column) =>
+        alterTable(name, `DROP COLUMN ${quoteIdent(column.name)}`)
+      ),
+  ];
+};
+
+const isForeignKey = ({ type }: CatalogConstraint) => type === 'FOREIGN KEY';
+
+// constraints to drop or create in given tables, with their table name
+const tableConstraints = (
+  tables: TableDiff[],
+  select: (diffs: ObjectDiff<CatalogConstraint>[]) => CatalogConstraint[]
+) =>
+  tables.flatMap(({ name, constraints }) =>
+    select(constraints).map((constraint) => ({ table: name, constraint }))
+  );
+
+const viewKind = ({ materialized }: CatalogView) =>
+  materialized ? 'MATERIALIZED VIEW' : 'VIEW';
+
+// table has columns that are dropped or change type
+const changesColumnsInPlace = ({ status, columns }: TableDiff) =>
+  status === 'changed' &&
+  columns.some(
+    ({ status: columnStatus, left, right }) =>
+      columnStatus === 'removed' ||
+      (columnStatus === 'changed' && left?.type !== right?.type)
+  );
+
+/**
+ * Marks unchanged views as changed if they read, directly or through other
+ * views, from tables whose columns are dropped or retyped, or from views that
+ * are dropped or replaced. Postgres refuses those changes while the views
+ * exist, so they're dropped and created again like changed views
+ */
+const withDependentViews = (
+  views: ObjectDiff<CatalogView>[],
+  tables: TableDiff[]
+): ObjectDiff<CatalogView>[] => {
+  const affected = new Set([
+    ...tables.filter(changesColumnsInPlace).map(({ name }) => name),
+    ...toDrop(views).map(({ qualified_name }) => qualified_name),
+  ]);
+  const dependent = new Set<ObjectDiff<CatalogView>>();
+  // views reading from views just found are found on the next pass
+  const findDependents = () => {
+    const found = views.filter(
+      (view) =>
+        view.status === 'unchanged' &&
+        !dependent.has(view) &&
+        (view.left as CatalogView).dependencies.some((dependency) =>
+          affected.has(dependency)
+        )
+    );
+    found.forEach((view) => {
+      dependent.add(view);
+      affected.add((view.left as CatalogView).qualified_name);
+    });
+    if (found.length) findDependents();
+  };
+  findDependents();
+  return views.map((view) =>
+    dependent.has(view) ? { ...view, status: 'changed' } : view
+  );
+};
+
+const dropView = (view: CatalogView) =>
+  `DROP ${viewKind(view)} ${view.qualified_name};`;
+
+const createView = (view: CatalogView) =>
+  `CREATE ${viewKind(view)} ${
+    view.qualified_name
+  } AS\n${view.definition.trim().replace(/;$/, '')};`;
+
+const quoteLiteral = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+/**
+ * Generates statements that add enum values right database has and left
+ * database doesn't, or an empty string if there are none. They run one at a
+ * time before the migration, outside its transaction: ALTER TYPE ... ADD VALUE
+ * can't run in a transaction before Postgres 12, and values added in a
+ * transaction can't be used in it until it commits
+ */
+export const generateEnumAdditions = (diff: SchemaDiff): string => {
+  const statements = diff.types
+    .filter(({ status }) => status === 'changed')
+    .flatMap(({ left, right }) =>
+      (right?.labels ?? [])
+        .filter((label) => !left?.labels.includes(label))
+        .map(
+          (label) =>
+            `ALTER TYPE ${
+              right?.qualified_name
+            } ADD VALUE IF NOT EXISTS ${quoteLiteral(label)};`
+        )
+    );
+  if (!statements.length) return '';
+  return [
+    `-- Add enum values of ${diff.right} to ${diff.left} before migrating`,
+    ...statements,
+  ].join('\n');
+};
+
+/**
+ * Generates SQL that migrates schema of left database of diff to match schema
+ * of right database. Statements are ordered so that objects are dropped before
+ * what they depend on, and created after it:
+ * views, foreign keys, constraints and indexes are dropped first and created
+ * last, schemas and types are created before tables use them and dropped after
+ * tables stop using them. Enum values are added by generateEnumAdditions
+ * before it runs
+ */
+const generateMigration = (diff: SchemaDiff): string => {
+  const tables = diff.tables.filter(isModified);
+  const viewDiffs = withDependentViews(diff.views, tables);
+  const sections: [string, string[]][] = [];
+  const section = (title: string, statements: string[]) => {
+    if (statements.length) sections.push([title, statements]);
+  };
+
+  const views = (list: CatalogView[]) =>
+    sortByDependencies(
+      list,
+      ({ qualified_name }) => qualified_name,
+      ({ dependencies }) => dependencies
+    );
+  // dependent views must be dropped before the views they read from
+  section('Drop views', views(toDrop(viewDiffs)).reverse().map(dropView));
+
+  // foreign keys of dropped tables are dropped too, since they may reference
+  // other dropped tables. Other constraints and indexes go with their table
+  const changedTables = tables.filter(({ status }) => status === 'changed');
+  section(
+    'Drop foreign keys',
+    tableConstraints(tables, toDrop)
+      .filter(({ constraint }) => isForeignKey(constraint))
+      .map(({ table, constraint }) => dropConstraint(table, constraint))
+  );
+  section('Drop constraints and indexes', [
+    ...tableConstraints(changedTables, toDrop)
+      .filter(({ constraint }) => !isForeignKey(constraint))
+      .map(({ table, constraint }) => dropConstraint(table, constraint)),
+    ...changedTables.flatMap(({ left, indexes }) =>
+      toDrop(indexes).map(
+        ({ name }) =>
+          `DROP INDEX ${quoteIdent((left as CatalogTable).schema)}.${quoteIdent(
+            name
+          )};`
+      )
+    ),
+  ]);
+
+  section(
+    'Drop tables',
+    toDrop(tables.filter(({ status }) => status === 'removed')).map(
+      ({ qualified_name }) => `DROP TABLE ${qualified_name};`
+    )
+  );
+
+  section(
+    'Create schemas',
+    toCreate(diff.schemas).map(
+      (schema) => `CREATE SCHEMA ${quoteIdent(schema)};`
+    )
+  );
+
+  section('Create types', [
+    ...toCreate(diff.types.filter(({ status }) => status === 'added')).map(
+      ({ qualified_name, labels }) =>
+        `CREATE TYPE ${qualified_name} AS ENUM (${labels
+          .map(quoteLiteral)
+          .join(', ')});`
+    ),
+    // enum values can only be added, before migration. Removing or
+    // reordering values needs the type to be recreated and is left to the user
+    ...diff.types
+      .filter(
+        ({ status, left, right }) =>
+          status === 'changed' &&
+          left?.labels.some((label) => !right?.labels.includes(label))
+      )
+      .map(
+        ({ right }) =>
+          `-- WARNING: ${right?.qualified_name} has values removed. Recreate type manually`
+      ),
+  ]);
+
+  section(
+    'Create tables',
+    toCreate(tables.filter(({ status }) => status === 'added')).flatMap(
+      createTable
+    )
+  );
+  section('Alter tables', changedTables.flatMap(alterColumns));
+
+  const createdConstraints = tableConstraints(tables, toCreate);
+  section('Create constraints and indexes', [
+    ...createdConstraints
+      .filter(({ constraint }) => !isForeignKey(constraint))
+      .map(({ table, constraint }) => addConstraint(table, constraint)),
+    ...tables.flatMap(({ indexes }) =>
+      toCreate(indexes).map(({ definition }) => `${definition};`)
+    ),
+  ]);
+  section(
+    'Create foreign keys',
+    createdConstraints
+      .filter(({ constraint }) => isForeignKey(constraint))
+      .map(({ table, constraint }) => addConstraint(table, constraint))
+  );
+
+  section('Create views', views(toCreate(viewDiffs)).map(createView));
+
+  section(
+    'Drop types',
+    toDrop(diff.types.filter(({ status }) => status === 'removed')).map(
+      ({ qualified_name }) => `DROP TYPE ${qualified_name};`
+    )
+  );
+  section(
+    'Drop schemas',
+    toDrop(diff.schemas).map((schema) => `DROP SCHEMA ${quoteIdent(schema)};`)
+  );
+
+  if (!sections.length)
+    return generateEnumAdditions(diff)
+      ? `-- Only enum values of ${diff.left} differ, and they're added before migrating\n`
+      : `-- Schemas of ${diff.left} and ${diff.right} already match\n`;
+
+  return [
+    `-- Migrate schema of ${diff.left} to match ${diff.right}`,
+    ...sections.map(
+      ([title, statements]) => `\n-- ${title}\n${statements.join('\n')}`
+    ),
+  ].join('\n');
+};
+
+export default generateMigration;
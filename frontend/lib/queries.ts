@@ -5,7 +5,9 @@
  */
 
 import ms from 'ms';
-import { AppState, QueryData } from '../types';
+import { AppState, QueryData, ExplainJson, QueryParameter } from '../types';
+import { summarize } from './stats';
+import { findParameters } from './sqlStatements';
 
 /**
  * create identifiew from label and database name
@@ -64,10 +66,60 @@ export const setCompare = (
 };
 
 /**
- * Get query execution time. Planning + Execution. Returns 0 if not given a query
+ * Copy of queries whose returned rows, and those of their statements, are
+ * truncated to at most maxRows. Used to keep saved workspaces small
+ */
+export const capRows = (queries: AppState['queries'], maxRows: number) =>
+  Object.fromEntries(
+    Object.entries(queries).map(([queryKey, query]) => [
+      queryKey,
+      {
+        ...query,
+        returnedRows: query.returnedRows?.slice(0, maxRows),
+        statements: query.statements?.map((statement) => ({
+          ...statement,
+          returnedRows: statement.returnedRows?.slice(0, maxRows),
+        })),
+      },
+    ])
+  ) as AppState['queries'];
+
+/**
+ * Get bind parameters of query's sql. Parameters keep the type and value query
+ * already had for them. New ones are of unknown type with an empty value
+ */
+export const getParameters = (query: QueryData): QueryParameter[] =>
+  findParameters(query.sqlString).map(
+    (name) =>
+      query.params?.find((param) => param.name === name) ?? {
+        name,
+        type: 'unknown',
+        value: '',
+      }
+  );
+
+/**
+ * Whether plan was created by EXPLAIN ANALYZE and has actual timings. Plans
+ * created in explain only mode just have estimates
+ */
+export const isAnalyzed = (executionPlan: ExplainJson | undefined) =>
+  executionPlan?.['Execution Time'] !== undefined;
+
+/**
+ * Get statistics of benchmark runs. Returns undefined if query wasn't
+ * benchmarked
+ */
+export const getTimingStats = (query: QueryData | undefined) =>
+  summarize(query?.timings ?? []);
+
+/**
+ * Get query execution time. Planning + Execution. Benchmarked queries use the
+ * median of their runs. Returns 0 if not given a query
  */
 export const getTotalTime = (query: QueryData | undefined) => {
-  if (!query?.executionPlan) return 0;
+  const stats = getTimingStats(query);
+  if (stats) return stats.median;
+  if (!query?.executionPlan || !isAnalyzed(query.executionPlan)) return 0;
   return (
     query.executionPlan['Execution Time'] + query.executionPlan['Planning Time']
   );
@@ -77,6 +129,6 @@ export const getTotalTime = (query: QueryData | undefined) => {
  * Get query exeuction time as a formatted string. Returns undefined if  not given a query
  */
 export const getPrettyTime = (query: QueryData | undefined) => {
-  if (!query?.executionPlan) return undefined 
+  if (!isAnalyzed(query?.executionPlan)) return undefined 
   return ms(+getTotalTime(query).toPrecision(3), { long: true });
 };
@@ -0,0 +1,81 @@
+/**
+ * Functions that convert App.state.queries to and from the portable query file
+ * format used to share queries between users
+ */
+
+import {
+  AppState,
+  QueryData,
+  QueryFile,
+  ConflictStrategy,
+  queryFileVersion,
+} from '../types';
+import { key, keyFromData, createQuery } from './queries';
+
+/**
+ * Creates query file from collection. Execution plans and returned rows are
+ * only included if includeResults is true
+ */
+export const exportQueries = (
+  queries: AppState['queries'],
+  includeResults: boolean
+): QueryFile => ({
+  format: 'seeqr-queries',
+  version: queryFileVersion,
+  exportedAt: new Date().toISOString(),
+  queries: Object.values(
+    queries
+  ).map(({ label, db, sqlString, params, executionPlan, returnedRows }) =>
+    includeResults
+      ? { label, db, sqlString, params, executionPlan, returnedRows }
+      : { label, db, sqlString, params }
+  ),
+});
+
+/**
+ * Returns imported queries that have the same key as a query in collection
+ */
+export const findConflicts = (
+  queries: AppState['queries'],
+  imported: QueryData[]
+) => imported.filter((query) => !!queries[key(query)]);
+
+/**
+ * Returns label with the lowest numbered suffix that isn't used by any query on
+ * the same database. ex: "users (2)"
+ */
+export const uniqueLabel = (
+  queries: AppState['queries'],
+  { label, db }: QueryData
+) => {
+  let counter = 2;
+  while (queries[keyFromData(`${label} (${counter})`, db)]) counter += 1;
+  return `${label} (${counter})`;
+};
+
+/**
+ * Adds imported queries to collection, resolving conflicts with given strategy.
+ * returns new queries object and the number of queries skipped
+ */
+export const importQueries = (
+  queries: AppState['queries'],
+  imported: QueryData[],
+  strategy: ConflictStrategy
+) =>
+  imported.reduce(
+    (acc, query) => {
+      if (!acc.queries[key(query)])
+        return { ...acc, queries: createQuery(acc.queries, query) };
+      if (strategy === 'skip') return { ...acc, skipped: acc.skipped + 1 };
+      if (strategy === 'overwrite')
+        return { ...acc, queries: createQuery(acc.queries, query) };
+      return {
+        ...acc,
+        queries: createQuery(acc.queries, {
+          ...query,
+          label: uniqueLabel(acc.queries, query),
+        }),
+      };
+    },
+    { queries, skipped: 0 }
+  );
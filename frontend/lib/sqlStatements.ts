@@ -0,0 +1,237 @@
+/**
+ * Lightweight SQL lexer used to split scripts into statements, classify them
+ * and find their bind parameters. It only understands enough of Postgres' syntax to tell code apart from
+ * string literals, quoted identifiers and comments
+ */
+
+interface ScannedStatement {
+  /**
+   * Statement as written by user, without trailing semicolon
+   */
+  text: string;
+  /**
+   * Statement with comments removed and contents of literals and quoted
+   * identifiers blanked, so keywords can be searched for safely
+   */
+  code: string;
+}
+
+// opening tag of dollar quoted string. ex: $$ or $body$
+const dollarTag = /^\$([A-Za-z_][A-Za-z0-9_]*)?\$/;
+
+const isIdentifierChar = (char: string | undefined) =>
+  !!char && /[A-Za-z0-9_$]/.test(char);
+
+/**
+ * Returns sql with comments and the contents of string literals, dollar quoted
+ * strings and quoted identifiers replaced by spaces. Length and line breaks are
+ * kept, so positions in result match positions in sql
+ */
+const maskSql = (sql: string) => {
+  let masked = '';
+  let i = 0;
+
+  const keep = (length: number) => {
+    masked += sql.slice(i, i + length);
+    i += length;
+  };
+
+  // blank sql from i up to end
+  const blankUntil = (end: number) => {
+    masked += sql.slice(i, end).replace(/[^\n]/g, ' ');
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i];
+    const next = sql[i + 1];
+
+    if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      blankUntil(end === -1 ? sql.length : end);
+    } else if (char === '/' && next === '*') {
+      // block comments nest in Postgres
+      let depth = 0;
+      let j = i;
+      do {
+        if (sql.startsWith('/*', j)) {
+          depth += 1;
+          j += 2;
+        } else if (sql.startsWith('*/', j)) {
+          depth -= 1;
+          j += 2;
+        } else j += 1;
+      } while (depth > 0 && j < sql.length);
+      blankUntil(Math.min(j, sql.length));
+    } else if (char === "'" || char === '"') {
+      // E'' strings allow backslash escapes. Doubled quotes escape everywhere
+      const backslashEscapes =
+        char === "'" &&
+        /[eE]/.test(sql[i - 1] ?? '') &&
+        !isIdentifierChar(sql[i - 2]);
+      let j = i + 1;
+      while (j < sql.length) {
+        if (backslashEscapes && sql[j] === '\\') j += 2;
+        else if (sql[j] === char && sql[j + 1] === char) j += 2;
+        else if (sql[j] === char) break;
+        else j += 1;
+      }
+      keep(1);
+      blankUntil(Math.min(j, sql.length));
+      if (i < sql.length) keep(1);
+    } else if (char === '$' && !isIdentifierChar(sql[i - 1])) {
+      const tag = sql.slice(i).match(dollarTag)?.[0];
+      if (tag) {
+        const end = sql.indexOf(tag, i + tag.length);
+        keep(tag.length);
+        blankUntil(end === -1 ? sql.length : end);
+        if (end !== -1) keep(tag.length);
+      } else keep(1);
+    } else keep(1);
+  }
+  return masked;
+};
+
+/**
+ * Splits sql into statements on semicolons that aren't inside a string,
+ * dollar quoted string, quoted identifier or comment. Empty statements are
+ * dropped
+ */
+const scanStatements = (sql: string): ScannedStatement[] => {
+  const masked = maskSql(sql);
+  const statements: ScannedStatement[] = [];
+  let start = 0;
+  for (let i = 0; i <= masked.length; i += 1) {
+    if (i === masked.length || masked[i] === ';') {
+      const code = masked.slice(start, i).trim();
+      if (code) statements.push({ text: sql.slice(start, i).trim(), code });
+      start = i + 1;
+    }
+  }
+  return statements;
+};
+
+/**
+ * Splits script into statements, respecting strings, dollar quoting and
+ * comments
+ */
+export const splitStatements = (sql: string) =>
+  scanStatements(sql).map(({ text }) => text);
+
+// statements starting with these keywords only read data, unless they contain
+// one of the modifying keywords below. ex: WITH ... INSERT, SELECT ... INTO
+const readOnlyCommands = ['SELECT', 'WITH', 'VALUES', 'TABLE', 'SHOW'];
+
+const modifyingKeywords = /\b(INSERT|UPDATE|DELETE|MERGE|TRUNCATE|INTO|NEXTVAL|SETVAL)\b/i;
+
+// row locking clauses contain UPDATE but don't modify data
+const lockingClause = /\bFOR\s+(NO\s+KEY\s+)?UPDATE\b/gi;
+
+// first keyword of statement, uppercased
+const commandOf = (code: string) =>
+  code.match(/^\(*\s*([A-Za-z]+)/)?.[1]?.toUpperCase();
+
+/**
+ * Returns true if statement may modify data or schema. Errs on the side of
+ * caution: anything that isn't clearly a read is considered modifying
+ */
+const statementModifies = (code: string) => {
+  const command = commandOf(code);
+  if (!command || !readOnlyCommands.includes(command)) return true;
+  return modifyingKeywords.test(code.replace(lockingClause, ''));
+};
+
+/**
+ * Returns true if any statement in sql may modify data or schema
+ */
+export const modifiesData = (sql: string) =>
+  scanStatements(sql).some(({ code }) => statementModifies(code));
+
+// commands a cursor can be declared for
+const cursorCommands = ['SELECT', 'WITH', 'VALUES', 'TABLE'];
+
+/**
+ * Returns true if sql is a single statement that only reads and returns rows,
+ * so its rows can be fetched through a cursor
+ */
+export const canStream = (sql: string) => {
+  const statements = scanStatements(sql);
+  if (statements.length !== 1) return false;
+  const { code } = statements[0];
+  return (
+    cursorCommands.includes(commandOf(code) ?? '') && !statementModifies(code)
+  );
+};
+
+interface Placeholder {
+  /**
+   * As written in sql. ex: $1 or :id
+   */
+  name: string;
+  /**
+   * Offset in sql
+   */
+  index: number;
+  /**
+   * Number of positional placeholder. Undefined for named ones
+   */
+  position?: number;
+}
+
+/**
+ * Finds placeholders outside of literals and comments. Casts such as ::int
+ * aren't placeholders, nor are $ signs that are part of an identifier
+ */
+const findPlaceholders = (sql: string) => {
+  const masked = maskSql(sql);
+  const placeholders: Placeholder[] = [];
+  // $1 style positional placeholder or :name style named placeholder
+  const placeholder = /\$(\d+)|:([A-Za-z_][A-Za-z0-9_]*)/g;
+  let match = placeholder.exec(masked);
+  while (match) {
+    const before = masked[match.index - 1];
+    if (!isIdentifierChar(before) && before !== ':') {
+      placeholders.push({
+        name: match[0],
+        index: match.index,
+        position: match[1] ? Number(match[1]) : undefined,
+      });
+    }
+    match = placeholder.exec(masked);
+  }
+  return placeholders;
+};
+
+/**
+ * Names of bind parameters in sql, in the order their values are bound. Every
+ * position from $1 up to the highest one used is included, so values line up
+ * with positions. Named parameters follow in order of first use
+ */
+export const findParameters = (sql: string) => {
+  const placeholders = findPlaceholders(sql);
+  const highest = Math.max(
+    0,
+    ...placeholders.map(({ position = 0 }) => position)
+  );
+  const positional = Array.from({ length: highest }, (_, i) => `$${i + 1}`);
+  const named = placeholders
+    .filter(({ position }) => position === undefined)
+    .map(({ name }) => name);
+  return [...positional, ...new Set(named)];
+};
+
+/**
+ * Replaces named placeholders with the positions findParameters gives them,
+ * since Postgres only understands $1 style placeholders
+ */
+export const bindParameters = (sql: string) => {
+  const parameters = findParameters(sql);
+  return findPlaceholders(sql)
+    .filter(({ position }) => position === undefined)
+    .reverse()
+    .reduce((bound, { name, index }) => {
+      const position = parameters.indexOf(name) + 1;
+      const end = index + name.length;
+      return `${bound.slice(0, index)}$${position}${bound.slice(end)}`;
+    }, sql);
+};
@@ -0,0 +1,40 @@
+/**
+ * Descriptive statistics for benchmark timings
+ */
+
+import { TimingStats } from '../types';
+
+/**
+ * Value below which given percentage of sorted values fall. Interpolates
+ * linearly between the two closest ranks
+ */
+export const percentile = (sorted: number[], percent: number) => {
+  if (!sorted.length) return NaN;
+  const rank = (percent / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+/**
+ * Summarizes timings. Standard deviation is the sample standard deviation.
+ * Returns undefined for empty list
+ */
+export const summarize = (timings: number[]): TimingStats | undefined => {
+  if (!timings.length) return undefined;
+  const sorted = [...timings].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const variance =
+    sorted.length > 1
+      ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) /
+        (sorted.length - 1)
+      : 0;
+  return {
+    runs: sorted.length,
+    min: sorted[0],
+    median: percentile(sorted, 50),
+    mean,
+    p95: percentile(sorted, 95),
+    stddev: Math.sqrt(variance),
+  };
+};
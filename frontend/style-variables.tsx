@@ -56,6 +56,14 @@ export const compareChartColors = [
   '#251605ff',
 ];
 
+// Schema Diff
+export const diffColors = {
+  added: greenPrimary,
+  removed: '#e92a2a',
+  changed: '#e7bb41',
+  unchanged: greyPrimary,
+};
+
 // Icons and Buttons
 export const selectedColor = greenPrimary;
 export const hoverColor = greenPrimary;
@@ -70,6 +78,11 @@ export const sidebarShowButtonSize = '50px';
 export const planNodeWidth = '200px';
 export const planNodeHeight = '100px';
 
+// ERD
+export const erdNodeWidth = '240px';
+export const erdHeaderHeight = '32px';
+export const erdRowHeight = '22px';
+
 // theme to override Mui defaults
 export const MuiTheme = createMuiTheme({
   typography: {
@@ -2,7 +2,13 @@
  * This file contains common types that need to be used across the frontend
  */
 
-type ViewName = 'compareView' | 'dbView' | 'queryView' | 'quickStartView';
+type ViewName =
+  | 'compareView'
+  | 'dbView'
+  | 'diffView'
+  | 'erdView'
+  | 'queryView'
+  | 'quickStartView';
 
 export interface AppState {
   selectedView: ViewName;
@@ -17,6 +23,11 @@ export interface AppState {
   setComparedQueries: (comparedQueries: Record<string, QueryData>) => void;
   setSidebarHidden: (isHidden: boolean) => void;
   sidebarIsHidden: boolean;
+  /**
+   * Id of workspace that queries are persisted to. Empty while loading
+   */
+  workspaceId: string;
+  selectWorkspace: (workspaceId: string) => void;
 }
 
 export type CreateNewQuery = (query: QueryData) => void;
@@ -34,6 +45,21 @@ export interface QueryData {
    * Execution Plan. Result of running EXPLAIN (FORMAT JSON, ANALYZE)
    */
   executionPlan?: ExplainJson;
+  /**
+   * Planning + Execution time in ms of each timed benchmark run. Undefined if
+   * query wasn't benchmarked
+   */
+  timings?: number[];
+  /**
+   * Results of each statement that ran, in order. Only set for scripts of
+   * multiple statements. returnedRows and executionPlan then hold those of the
+   * last statement
+   */
+  statements?: StatementData[];
+  /**
+   * Values bound to placeholders in sqlString, in bind order
+   */
+  params?: QueryParameter[];
   /**
    * Name of PG database that this query is run on
    */
@@ -44,6 +70,13 @@ export interface QueryData {
   label: string;
 }
 
+export interface StatementData {
+  sqlString: string;
+  returnedRows?: QueryData['returnedRows'];
+  executionPlan?: ExplainJson;
+  error?: string;
+}
+
 export type ValidTabs = 'Results' | 'Execution Plan';
 
 export type FeedbackSeverity = 'error' | 'success' | 'info' | 'warning';
@@ -59,6 +92,475 @@ export interface Thresholds {
   rowsAccuracy: number;
 }
 
+export interface Workspace {
+  id: string;
+  name: string;
+}
+
+export interface WorkspaceList {
+  workspaces: Workspace[];
+  selectedId: string;
+}
+
+/**
+ * Everything a workspace persists across app restarts
+ */
+export interface WorkspaceData {
+  queries: Record<string, QueryData>;
+  /**
+   * Keys of queries selected for comparison
+   */
+  comparedKeys: string[];
+  thresholds: Thresholds;
+}
+
+/**
+ * Version of query file format written by this app. Files with a different
+ * version are rejected on import
+ */
+export const queryFileVersion = 1;
+
+/**
+ * Portable collection of queries that can be shared between users
+ */
+export interface QueryFile {
+  format: 'seeqr-queries';
+  version: typeof queryFileVersion;
+  /**
+   * ISO timestamp of export
+   */
+  exportedAt: string;
+  queries: QueryData[];
+}
+
+/**
+ * How to handle imported queries whose label and db match an existing query.
+ * rename keeps both by adding a numbered suffix to the imported label
+ */
+export type ConflictStrategy = 'skip' | 'overwrite' | 'rename';
+
+/**
+ * How run-query executes a query:
+ * auto - analyzes read only queries in a rolled back transaction and then runs
+ *   them. Queries that modify data run once, inside EXPLAIN ANALYZE
+ * explain - only creates a plan with estimates. Query is not executed
+ * run - only runs query. No plan is created
+ * analyze-rollback - runs EXPLAIN ANALYZE in a transaction that is rolled back
+ */
+export type ExecutionMode = 'auto' | 'explain' | 'run' | 'analyze-rollback';
+
+export interface BenchmarkOptions {
+  /**
+   * Number of timed runs
+   */
+  iterations: number;
+  /**
+   * Number of runs before timed runs whose timings are discarded. Used to warm
+   * up caches
+   */
+  warmup: number;
+}
+
+/**
+ * State of the session transaction opened from query view
+ */
+export interface TransactionStatus {
+  open: boolean;
+  /**
+   * Database transaction was opened on. Undefined if no transaction is open
+   */
+  db?: string;
+  /**
+   * Savepoints of transaction, oldest first
+   */
+  savepoints: string[];
+}
+
+/**
+ * Type a bind parameter is declared as. unknown lets Postgres infer it from
+ * where the parameter is used
+ */
+export type ParameterType =
+  | 'unknown'
+  | 'text'
+  | 'integer'
+  | 'numeric'
+  | 'boolean'
+  | 'date'
+  | 'timestamptz'
+  | 'json';
+
+export interface QueryParameter {
+  /**
+   * Placeholder as written in sql. ex: $1 or :id
+   */
+  name: string;
+  type: ParameterType;
+  /**
+   * Value in Postgres' text format. null binds SQL NULL
+   */
+  value: string | null;
+}
+
+export interface ScriptOptions {
+  /**
+   * Skip remaining statements after one fails. Otherwise every statement runs
+   */
+  stopOnError: boolean;
+  /**
+   * Run all statements in one transaction. With stopOnError a failure rolls
+   * back the whole script, otherwise only the failed statement
+   */
+  transaction: boolean;
+}
+
+export type ResultFormat = 'csv' | 'jsonl' | 'sql' | 'xlsx';
+
+/**
+ * Character encoding of exported text files. utf8-bom prefixes a byte order
+ * mark, which Excel needs to detect UTF-8 in CSV files
+ */
+export type ResultEncoding = 'utf8' | 'utf8-bom' | 'utf16le' | 'latin1';
+
+export interface ResultExportOptions {
+  format: ResultFormat;
+  /**
+   * Separates CSV fields. ex: , or ; or a tab
+   */
+  delimiter: string;
+  /**
+   * Write column names as first CSV or Excel row
+   */
+  header: boolean;
+  /**
+   * Written in place of NULL in CSV files
+   */
+  nullText: string;
+  encoding: ResultEncoding;
+  /**
+   * Table INSERT statements target. May be schema qualified. ex: public.users
+   */
+  tableName: string;
+}
+
+/**
+ * Rows of a result still left in the cursor run-query opened. Exporting the
+ * result fetches them too, which uses the cursor up
+ */
+export interface RemainingRows {
+  /**
+   * Statement timeout of each fetch in ms. 0 means no timeout
+   */
+  timeout: number;
+  /**
+   * Called once export fetched them, since they can't be fetched again
+   */
+  onFetched: () => void;
+}
+
+export type ImportFormat = 'csv' | 'json';
+
+export interface ImportOptions {
+  /**
+   * Separates CSV fields
+   */
+  delimiter: string;
+  /**
+   * Encloses CSV fields that contain delimiter, quotes or line breaks
+   */
+  quote: string;
+  /**
+   * First CSV row holds column names
+   */
+  header: boolean;
+}
+
+/**
+ * First rows of file picked for import, with column types inferred from all
+ * of its rows
+ */
+export interface ImportPreview {
+  format: ImportFormat;
+  /**
+   * Names from header row or JSON keys. column1, column2, etc. without header
+   */
+  columns: string[];
+  /**
+   * Postgres type inferred for each column
+   */
+  types: string[];
+  rows: (string | null)[][];
+  /**
+   * Number of rows in whole file
+   */
+  rowCount: number;
+}
+
+/**
+ * Where values of a file column go
+ */
+export interface ImportColumn {
+  /**
+   * Index of column in file
+   */
+  source: number;
+  /**
+   * Name of table column
+   */
+  target: string;
+  /**
+   * Type of table column. Used to validate values and to create new tables
+   */
+  type: string;
+}
+
+export interface ImportRowError {
+  /**
+   * Number of data row in file, starting at 1. Header row isn't counted. 0 if
+   * error isn't about a single row
+   */
+  row: number;
+  message: string;
+}
+
+/**
+ * Outcome of import. Nothing is imported if there are errors
+ */
+export interface ImportResult {
+  rowCount: number;
+  errors: ImportRowError[];
+}
+
+/**
+ * Source of generated values of a column. auto picks a semantic generator
+ * from column's name, type generates any value of column's type
+ */
+export type DummyGenerator =
+  | 'auto'
+  | 'type'
+  | 'firstName'
+  | 'lastName'
+  | 'fullName'
+  | 'username'
+  | 'email'
+  | 'phone'
+  | 'streetAddress'
+  | 'city'
+  | 'country'
+  | 'zipCode'
+  | 'latitude'
+  | 'longitude'
+  | 'company'
+  | 'url'
+  | 'ip'
+  | 'color'
+  | 'word'
+  | 'sentence'
+  | 'paragraph'
+  | 'price'
+  | 'quantity'
+  | 'age'
+  | 'pastDate'
+  | 'futureDate'
+  | 'birthDate';
+
+/**
+ * How generated numbers spread over their range. skewed favors low numbers
+ */
+export type Distribution = 'uniform' | 'normal' | 'skewed';
+
+export interface DummyColumnOptions {
+  generator: DummyGenerator;
+  /**
+   * Bounds of generated numbers. Generator's defaults if undefined
+   */
+  min?: number;
+  max?: number;
+  distribution: Distribution;
+  /**
+   * Share of NULL values, from 0 to 100. Ignored for NOT NULL columns
+   */
+  nullPercent: number;
+  unique: boolean;
+}
+
+/**
+ * Column dummy data is generated for, with generators fitting its type and
+ * options picked for it
+ */
+export interface DummyColumn {
+  column_name: string;
+  data_type: string;
+  nullable: boolean;
+  /**
+   * Can generated values be bounded by min and max?
+   */
+  numeric: boolean;
+  generators: DummyGenerator[];
+  options: DummyColumnOptions;
+}
+
+/**
+ * Record of a dummy data generation, with everything needed to repeat it
+ */
+export interface DummyRun {
+  id: string;
+  /**
+   * Unix time in milliseconds when data was generated
+   */
+  timestamp: number;
+  db: string;
+  schemaName: string;
+  tableName: string;
+  rows: number;
+  seed: number;
+  columns?: Record<string, DummyColumnOptions>;
+}
+
+/**
+ * Progress of dummy data generation, sent while rows are streamed into table
+ */
+export interface DummyDataProgress {
+  rowCount: number;
+  total: number;
+  /**
+   * Table being filled while populating a whole database
+   */
+  table?: string;
+}
+
+/**
+ * Foreign key of a column referencing another table. Tables are qualified
+ * names, as in qualified_name of TableDetails
+ */
+export interface ForeignKeyEdge {
+  table_name: string;
+  column_name: string;
+  foreign_table: string;
+  nullable: boolean;
+}
+
+/**
+ * Order tables are populated in, so every table comes after tables it
+ * references
+ */
+export interface PopulatePlan {
+  order: string[];
+  /**
+   * Nullable foreign keys ignored to break cycles. Their columns are filled
+   * with NULL unless referenced table already has rows
+   */
+  brokenReferences: ForeignKeyEdge[];
+  /**
+   * Cycles of NOT NULL foreign keys. Their tables can only be populated if
+   * one of them already has rows
+   */
+  cycles: string[][];
+}
+
+export interface PopulateTable {
+  schemaName: string;
+  tableName: string;
+  qualifiedName: string;
+  rows: number;
+}
+
+/**
+ * Summary of populating a database
+ */
+export interface PopulateReport {
+  seed: number;
+  /**
+   * Tables in order they were filled. Empty if population failed.
+   * selfReferences are nullable columns referencing their own table, which had
+   * no rows, filled with inserted rows once they were all inserted
+   */
+  tables: {
+    qualifiedName: string;
+    rowCount: number;
+    duration: number;
+    selfReferences: string[];
+  }[];
+  brokenReferences: ForeignKeyEdge[];
+  /**
+   * Error population failed with, and table it failed on. Every insert is
+   * rolled back if population fails
+   */
+  error?: string;
+  failedTable?: string;
+}
+
+/**
+ * Summary statistics of benchmark timings in ms
+ */
+export interface TimingStats {
+  runs: number;
+  min: number;
+  median: number;
+  mean: number;
+  p95: number;
+  stddev: number;
+}
+
+/**
+ * Record of a single query execution kept in query history
+ */
+export interface HistoryEntry {
+  id: string;
+  /**
+   * Unix time in milliseconds when execution started
+   */
+  timestamp: number;
+  db: string;
+  /**
+   * SQL as user wrote it, with :name placeholders
+   */
+  sqlString: string;
+  /**
+   * Values bound to placeholders of sqlString, if any
+   */
+  params?: QueryParameter[];
+  /**
+   * Wall clock duration of execution in milliseconds
+   */
+  duration: number;
+  /**
+   * Number of rows returned. Undefined if query failed
+   */
+  rowCount?: number;
+  error?: string;
+}
+
+export type SslMode = 'disable' | 'require' | 'verify-full';
+
+export interface ConnectionProfile {
+  /**
+   * Unique id generated by backend. Empty for profiles that weren't saved yet
+   */
+  id: string;
+  /**
+   * User given name that identifies profile
+   */
+  name: string;
+  host: string;
+  port: number;
+  user: string;
+  /**
+   * Database to connect to when no database is selected. Empty string uses
+   * Postgres' default (database with same name as user)
+   */
+  database: string;
+  sslMode: SslMode;
+}
+
+export interface ProfileList {
+  profiles: ConnectionProfile[];
+  /**
+   * id of profile currently used for connections
+   */
+  selectedId: string;
+}
+
 // Electron Interface //
 
 // Due to legacy reasons some data arriving from the backend is being treated as
@@ -98,6 +600,108 @@ export interface TableColumn {
    * Can this column receive Null values or not?
    */
   is_nullable: 'yes' | 'no';
+  /**
+   * Default value expression. ex: now(), nextval('users_id_seq'::regclass)
+   */
+  column_default: string | null;
+  /**
+   * 'YES' for identity columns
+   */
+  is_identity: string;
+  /**
+   * 'ALWAYS' or 'BY DEFAULT' for identity columns. null otherwise
+   */
+  identity_generation: string | null;
+  /**
+   * Does column default draw from a sequence? i.e. serial columns
+   */
+  is_serial: boolean;
+  /**
+   * Type of constraint this column is part of. ex: PRIMARY KEY, FOREIGN KEY
+   */
+  constraint_type: string | null;
+  /**
+   * Schema, table and column referenced by column if it is a foreign key
+   */
+  foreign_schema: string | null;
+  foreign_table: string | null;
+  foreign_column: string | null;
+}
+
+export interface ConstraintInfo {
+  constraint_name: string;
+  constraint_type:
+    | 'PRIMARY KEY'
+    | 'UNIQUE'
+    | 'CHECK'
+    | 'EXCLUSION'
+    | 'FOREIGN KEY';
+  /**
+   * Constraint definition as generated by pg_get_constraintdef
+   */
+  definition: string;
+  /**
+   * Columns constrained, in constraint order
+   */
+  columns: string[];
+  /**
+   * Table referenced by a foreign key. null for other constraint types
+   */
+  foreign_table: string | null;
+  foreign_columns: string[];
+  /**
+   * Referential actions of foreign keys. ex: CASCADE, SET NULL
+   */
+  on_update: string | null;
+  on_delete: string | null;
+}
+
+export interface IndexInfo {
+  index_name: string;
+  /**
+   * CREATE INDEX statement as generated by pg_get_indexdef
+   */
+  definition: string;
+  /**
+   * Access method. ex: btree, gin
+   */
+  method: string;
+  is_unique: boolean;
+  is_primary: boolean;
+  /**
+   * Pretty string of index size
+   */
+  size: string;
+  /**
+   * Usage counts from pg_stat_user_indexes
+   */
+  idx_scan: string | null;
+  idx_tup_read: string | null;
+  idx_tup_fetch: string | null;
+}
+
+/**
+ * Size and activity statistics from pg_class and pg_stat_user_tables
+ */
+export interface TableStats {
+  total_size: string;
+  table_size: string;
+  indexes_size: string;
+  estimated_rows: string;
+  n_live_tup: string | null;
+  n_dead_tup: string | null;
+  seq_scan: string | null;
+  idx_scan: string | null;
+  last_vacuum: string | null;
+  last_autovacuum: string | null;
+  last_analyze: string | null;
+  last_autoanalyze: string | null;
+}
+
+export interface TableInspection {
+  constraints: ConstraintInfo[];
+  indexes: IndexInfo[];
+  stats: TableStats | undefined;
 }
 
 export interface TableInfo {
@@ -113,6 +717,10 @@ export interface TableInfo {
    * Schema that owns this table
    */
   table_schema: string;
+  /**
+   * Schema qualified table name, quoted if necessary. ex: public.users
+   */
+  qualified_name: string;
   /**
    * Is table read only?
    */
@@ -120,31 +728,216 @@ export interface TableInfo {
   columns: TableColumn[];
 }
 
+export interface SchemaInfo {
+  /**
+   * Schema name as available in Postgres
+   */
+  schema_name: string;
+  /**
+   * Tables owned by this schema
+   */
+  tables: TableInfo[];
+}
+
+export type DbObjectKind =
+  | 'view'
+  | 'materializedView'
+  | 'function'
+  | 'trigger'
+  | 'sequence'
+  | 'enum';
+
+/**
+ * Kinds of objects that can be browsed in DbView
+ */
+export type BrowsableKind = 'table' | DbObjectKind;
+
+export interface DbObject {
+  kind: DbObjectKind;
+  /**
+   * Schema that owns this object
+   */
+  schema_name: string;
+  /**
+   * Object name as available in Postgres
+   */
+  name: string;
+  /**
+   * Name used to identify object in SQL. ex: public.my_view, my_func(integer)
+   */
+  qualified_name: string;
+  /**
+   * SQL source of object. View query, function source, CREATE statement, etc.
+   * null if Postgres can't provide it. ex: aggregate functions
+   */
+  definition: string | null;
+  /**
+   * Objects this object depends on
+   */
+  dependencies: string[];
+  /**
+   * Objects that depend on this object
+   */
+  dependents: string[];
+  /**
+   * Additional kind specific information. ex: function language, sequence increment
+   */
+  details: Record<string, string | number | boolean | null>;
+}
+
+export interface CatalogColumn {
+  name: string;
+  /**
+   * Full type including modifiers. ex: character varying(255), numeric(10,2)
+   */
+  type: string;
+  nullable: boolean;
+  default: string | null;
+  /**
+   * 'a' for GENERATED ALWAYS, 'd' for GENERATED BY DEFAULT identity columns. Empty otherwise
+   */
+  identity: string;
+}
+
+export interface CatalogConstraint {
+  name: string;
+  type: ConstraintInfo['constraint_type'];
+  definition: string;
+  /**
+   * Table referenced by foreign keys. null for other constraints
+   */
+  referenced_table: string | null;
+}
+
+export interface CatalogIndex {
+  name: string;
+  definition: string;
+}
+
+export interface CatalogTable {
+  schema: string;
+  name: string;
+  qualified_name: string;
+  columns: CatalogColumn[];
+  constraints: CatalogConstraint[];
+  /**
+   * Indexes that don't back a constraint
+   */
+  indexes: CatalogIndex[];
+}
+
+export interface CatalogView {
+  schema: string;
+  name: string;
+  qualified_name: string;
+  materialized: boolean;
+  definition: string;
+  /**
+   * Relations the view reads from
+   */
+  dependencies: string[];
+}
+
+export interface CatalogType {
+  schema: string;
+  name: string;
+  qualified_name: string;
+  /**
+   * Enum labels in sort order
+   */
+  labels: string[];
+}
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * Object matched by name across both databases. left is undefined for added
+ * objects, right is undefined for removed objects
+ */
+export interface ObjectDiff<T> {
+  name: string;
+  status: DiffStatus;
+  left?: T;
+  right?: T;
+}
+
+export interface TableDiff extends ObjectDiff<CatalogTable> {
+  columns: ObjectDiff<CatalogColumn>[];
+  constraints: ObjectDiff<CatalogConstraint>[];
+  indexes: ObjectDiff<CatalogIndex>[];
+}
+
+/**
+ * Differences between schemas of two databases. Added objects exist only in
+ * right database, removed objects only in left database
+ */
+export interface SchemaDiff {
+  /**
+   * Name of database compared from
+   */
+  left: string;
+  /**
+   * Name of database compared to
+   */
+  right: string;
+  schemas: ObjectDiff<string>[];
+  types: ObjectDiff<CatalogType>[];
+  tables: TableDiff[];
+  views: ObjectDiff<CatalogView>[];
+}
+
 export interface DbLists {
   databaseList: DatabaseInfo[];
-  tableList: TableInfo[];
+  schemaList: SchemaInfo[];
 }
 
-
 /**
  * Type guard that checks if obj is compatible with type DbLists
  */
 export const isDbLists = (obj: unknown): obj is DbLists => {
   try {
     assumeType<DbLists>(obj);
-    if (!obj.databaseList || !obj.tableList) return false;
-    if (!Array.isArray(obj.databaseList) || !Array.isArray(obj.tableList))
+    if (!obj.databaseList || !obj.schemaList) return false;
+    if (!Array.isArray(obj.databaseList) || !Array.isArray(obj.schemaList))
       return false;
     if (obj.databaseList[0] && typeof obj.databaseList[0].db_name !== 'string')
       return false;
     if (obj.databaseList[0] && typeof obj.databaseList[0].db_size !== 'string')
       return false;
-    if (obj.tableList[0] && typeof obj.tableList[0].table_name !== 'string')
-      return false;
-    if (obj.tableList[0] && typeof obj.tableList[0].table_catalog !== 'string')
+    if (obj.schemaList[0] && typeof obj.schemaList[0].schema_name !== 'string')
       return false;
-    if (obj.tableList[0] && typeof obj.tableList[0].table_schema !== 'string')
+    if (obj.schemaList[0] && !Array.isArray(obj.schemaList[0].tables))
       return false;
+    const table = obj.schemaList.find((schema) => schema.tables.length)
+      ?.tables[0];
+    if (table && typeof table.table_name !== 'string') return false;
+    if (table && typeof table.table_catalog !== 'string') return false;
+    if (table && typeof table.table_schema !== 'string') return false;
+    if (table && typeof table.qualified_name !== 'string') return false;
+  } catch (e) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Type guard that checks if obj is compatible with type QueryFile
+ */
+export const isQueryFile = (obj: unknown): obj is QueryFile => {
+  try {
+    assumeType<QueryFile>(obj);
+    if (obj.format !== 'seeqr-queries') return false;
+    if (obj.version !== queryFileVersion) return false;
+    if (!Array.isArray(obj.queries)) return false;
+    const isQuery = (query: QueryData) =>
+      typeof query.label === 'string' &&
+      typeof query.db === 'string' &&
+      typeof query.sqlString === 'string' &&
+      (query.returnedRows === undefined || Array.isArray(query.returnedRows)) &&
+      (query.executionPlan === undefined ||
+        typeof query.executionPlan === 'object') &&
+      (query.params === undefined || Array.isArray(query.params));
+    if (!obj.queries.every(isQuery)) return false;
   } catch (e) {
     return false;
   }
@@ -189,6 +982,3 @@ export interface ExplainJson {
   'Planning Time': number;
   'Execution Time': number;
 }
-
-
-